@@ -50,6 +50,7 @@ const computeStack = new ComputeStack(app, `${stackPrefix}-Compute`, {
   table: databaseStack.table,
   queues: databaseStack.queues,
   secrets: securityStack.secrets,
+  storage: storageStack.storage,
 });
 
 // API Stack (API Gateway, WebSocket)
@@ -82,12 +83,12 @@ const userBehaviorStack = new UserBehaviorDynamoDBStack(app, `${stackPrefix}-Use
 databaseStack.addDependency(securityStack);
 computeStack.addDependency(databaseStack);
 computeStack.addDependency(securityStack);
+computeStack.addDependency(storageStack);
 apiStack.addDependency(computeStack);
 monitoringStack.addDependency(databaseStack);
 monitoringStack.addDependency(computeStack);
 monitoringStack.addDependency(apiStack);
 userBehaviorStack.addDependency(databaseStack);
-// Storage stack is independent and can be deployed in parallel
 
 // Add tags to all stacks
 const tags = {
@@ -1,35 +1,58 @@
-import { SQSHandler, SQSEvent, SQSRecord, Context } from 'aws-lambda';
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
 import { 
   DynamoDBHelper, 
   SecretsHelper, 
   SQSHelper, 
-  getEnvironment, 
-  parseJSON 
+  TransactionCanceledError,
+  getEnvironment 
 } from '../shared/utils';
+import { SchemaValidationError } from '../shared/schema';
+import { aiProcessingMessageSchema } from '../shared/message-schemas';
+import { causedBy, readMessage } from '../shared/message-envelope';
+import { queueBroadcast } from '../shared/websocket-channels';
+import { AIProcessingMessage, BudgetExceededFrame, ConversationMessageItem } from '../shared/types';
+import { MessageRepository, SessionRepository, UserRepository } from '../shared/repositories';
 import { 
-  AIProcessingMessage, 
-  ConversationMessageItem,
-  KeyvexTableItem
-} from '../shared/types';
+  AIProviderRegistry, 
+  PROCESS_SYSTEM_PROMPTS, 
+  parseModelId, 
+  selectModel 
+} from '../shared/ai-providers';
+import { TokenStreamPublisher } from '../shared/token-stream';
+import { AIMetricsRecorder } from '../shared/ai-metrics';
+import { AIBudgetGuard, BudgetExceededError } from '../shared/ai-budget';
 
 const env = getEnvironment();
 const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
 const secretsHelper = new SecretsHelper();
 const sqsHelper = new SQSHelper();
+const aiProviders = new AIProviderRegistry(secretsHelper);
+const aiMetrics = new AIMetricsRecorder(dynamoHelper);
+const aiBudget = new AIBudgetGuard(dynamoHelper);
+const users = new UserRepository(dynamoHelper);
+const sessions = new SessionRepository(dynamoHelper);
+const messages = new MessageRepository(dynamoHelper);
 
-export const handler: SQSHandler = async (event: SQSEvent, context: Context) => {
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
   console.log('AI Processor started', { 
     requestId: context.awsRequestId,
     messageCount: event.Records.length 
   });
 
   const results = [];
+  // Only failed records are returned to the queue; they reach the DLQ after maxReceiveCount
+  const batchItemFailures: SQSBatchItemFailure[] = [];
 
   for (const record of event.Records) {
     try {
       await processAIMessage(record);
       results.push({ messageId: record.messageId, status: 'success' });
     } catch (error) {
+      // Retrying cannot fix a malformed message
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
       console.error('Failed to process message:', {
         messageId: record.messageId,
         error: error instanceof Error ? error.message : error
@@ -39,6 +62,7 @@ export const handler: SQSHandler = async (event: SQSEvent, context: Context) =>
         status: 'error', 
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
     }
   }
 
@@ -47,100 +71,237 @@ export const handler: SQSHandler = async (event: SQSEvent, context: Context) =>
     results 
   });
 
-  return;
+  return { batchItemFailures };
 };
 
 async function processAIMessage(record: SQSRecord): Promise<void> {
-  const message: AIProcessingMessage = parseJSON(record.body);
-  
-  if (!message || message.messageType !== 'AI_PROCESSING') {
-    throw new Error('Invalid message format');
-  }
+  const message = readMessage(record, aiProcessingMessageSchema, 'AIProcessingMessage');
 
   console.log('Processing AI request:', {
     sessionId: message.sessionId,
     process: message.process,
-    priority: message.priority
+    priority: message.priority,
+    correlationId: message.envelope.correlationId
   });
   
-  // TODO: Implement actual AI processing logic
-  // This is where you would integrate with OpenAI, Anthropic, etc.
-  
-  // Simulate AI processing
-  const processingResult = await simulateAIProcessing(message);
-  
-  // Update session in DynamoDB
-  await updateAISession(message, processingResult);
+  let processingResult;
+  try {
+    processingResult = await runAIProcess(message, record);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      // Retrying cannot succeed, so tell the user instead of failing the record
+      await rejectOverBudget(message, error);
+      return;
+    }
+    throw error;
+  }
   
-  // Store conversation message
-  await storeConversationMessage(message, processingResult);
+  // The result on the session and the conversation message are written together
+  await updateAISession(message, processingResult, buildConversationMessage(message, record, processingResult));
   
   console.log('AI processing completed:', {
     sessionId: message.sessionId,
     process: message.process,
-    success: processingResult.success
+    success: processingResult.success,
+    correlationId: message.envelope.correlationId
   });
 }
 
-async function simulateAIProcessing(message: AIProcessingMessage): Promise<any> {
-  // TODO: Replace with actual AI provider integration
-  const delay = Math.random() * 2000 + 1000; // 1-3 seconds
-  await new Promise(resolve => setTimeout(resolve, delay));
-  
+async function runAIProcess(message: AIProcessingMessage, record: SQSRecord): Promise<any> {
+  const requestId = record.messageId;
+  const user = await users.get(message.userId);
+  const budget = await aiBudget.check(message.userId, user, selectModel(message.process, user));
+  const modelId = budget.modelId;
+  const { provider } = parseModelId(modelId);
+
+  console.log('Calling AI provider:', {
+    sessionId: message.sessionId,
+    process: message.process,
+    provider,
+    modelId,
+    budgetAction: budget.action,
+    correlationId: message.envelope.correlationId
+  });
+
+  // Each delivery gets its own stream: a retry restarts the sequence, and must
+  // not overwrite or append to the frames of the attempt that failed
+  const attempt = record.attributes.ApproximateReceiveCount || '1';
+  const stream = new TokenStreamPublisher({
+    userId: message.userId,
+    sessionId: message.sessionId,
+    process: message.process,
+    streamId: `${message.sessionId}:${message.process}:${message.timestamp}:${attempt}`,
+    correlationId: message.envelope.correlationId,
+  }, dynamoHelper);
+
+  // Recorded before the first frame, so a client that missed every frame can
+  // still read the stream id from the session and resume it
+  await sessions.update(message.sessionId, { [`${message.process}StreamId`]: stream.streamId });
+
+  let completion;
+  try {
+    completion = await aiMetrics.track(
+      { requestId, userId: message.userId, process: message.process, correlationId: message.envelope.correlationId },
+      modelId,
+      () => aiProviders.stream(
+        modelId,
+        {
+          system: PROCESS_SYSTEM_PROMPTS[message.process],
+          messages: [{ role: 'user', content: formatProcessInput(message.input) }],
+        },
+        (delta) => stream.push(delta)
+      )
+    );
+  } catch (error) {
+    await stream.fail(error);
+    throw error;
+  }
+
+  await stream.complete(completion);
+  await aiBudget.recordUsage(message.userId, message.sessionId, completion.cost, budget);
+
   return {
     success: true,
     process: message.process,
-    result: `Processed ${message.process} for session ${message.sessionId}`,
+    streamId: stream.streamId,
+    result: completion.content,
+    provider: completion.provider,
+    model: completion.model,
+    finishReason: completion.finishReason,
     tokens: {
-      input: Math.floor(Math.random() * 1000) + 100,
-      output: Math.floor(Math.random() * 2000) + 200
+      input: completion.usage.inputTokens,
+      output: completion.usage.outputTokens
     },
-    latency: delay,
+    cost: completion.cost,
+    downgraded: budget.action === 'downgrade',
+    latency: completion.latency,
     timestamp: Date.now()
   };
 }
 
-async function updateAISession(message: AIProcessingMessage, result: any): Promise<void> {
-  const updateData = {
-    lastActivity: Date.now(),
-    status: result.success ? 'completed' : 'failed',
-    [`${message.process}Result`]: result,
-    updatedAt: Date.now()
+async function rejectOverBudget(message: AIProcessingMessage, error: BudgetExceededError): Promise<void> {
+  console.warn('AI request rejected, budget exceeded:', {
+    sessionId: message.sessionId,
+    userId: message.userId,
+    tier: error.tier,
+    monthlySpend: error.monthlySpend,
+    limit: error.limit,
+    correlationId: message.envelope.correlationId
+  });
+
+  // Queued like the token stream, for the user's subscribers of the session
+  const frame: BudgetExceededFrame = {
+    type: 'error',
+    code: 'BUDGET_EXCEEDED',
+    message: error.message,
+    sessionId: message.sessionId,
+    process: message.process,
+    tier: error.tier,
+    limit: error.limit,
+    monthlySpend: error.monthlySpend,
+    timestamp: Date.now(),
+    correlationId: message.envelope.correlationId
   };
+  await queueBroadcast(`session:${message.sessionId}`, frame, message.userId, sqsHelper, causedBy(message.envelope));
+
+  await updateAISession(message, {
+    success: false,
+    process: message.process,
+    error: error.message,
+    errorCode: 'BUDGET_EXCEEDED',
+    timestamp: Date.now()
+  });
+}
 
-  await dynamoHelper.updateItem(
-    `USER#${message.userId}`, 
-    `SESSION#${message.sessionId}`, 
-    updateData
-  );
+function formatProcessInput(input: any): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+  if (input && typeof input.prompt === 'string') {
+    return input.prompt;
+  }
+  return JSON.stringify(input ?? {}, null, 2);
 }
 
-async function storeConversationMessage(message: AIProcessingMessage, result: any): Promise<void> {
-  const messageId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const timestamp = Date.now();
-  
-  const conversationMessage: KeyvexTableItem = {
-    PK: `SESSION#${message.sessionId}`,
-    SK: `MESSAGE#${timestamp}#${messageId}`,
-    GSI1PK: `USER#${message.userId}`,
-    GSI1SK: `MESSAGE#${timestamp}`,
-    entityType: 'MESSAGE',
-    createdAt: timestamp,
-    updatedAt: timestamp,
-    version: 1,
-    metadata: {
-      messageId,
+async function updateAISession(
+  message: AIProcessingMessage,
+  result: any,
+  conversationMessage?: ConversationMessageItem
+): Promise<void> {
+  const resultKey = `${message.process}Result` as const;
+
+  // Processes for the same session can finish concurrently; each writes
+  // against the session it read, and re-reads if another got there first
+  const updated = await sessions.modify(
+    message.sessionId,
+    current => {
+      // A redelivered message must not replace the result of a later run
+      if ((current[resultKey]?.timestamp ?? 0) > result.timestamp) {
+        return null;
+      }
+      return {
+        lastActivity: Date.now(),
+        status: result.success ? 'completed' : 'failed',
+        [resultKey]: result,
+      };
+    },
+    transaction => {
+      if (conversationMessage) {
+        // Keyed by the SQS message, so a redelivery after this commits cannot add a second copy
+        transaction.put(conversationMessage, 'attribute_not_exists(PK)');
+      }
+    }
+  ).catch((error) => {
+    // The update is the first write, the message the second
+    if (error instanceof TransactionCanceledError && error.conditionFailed(1)) {
+      return 'recorded' as const;
+    }
+    throw error;
+  });
+
+  if (updated === 'recorded') {
+    console.log('AI result already recorded by an earlier delivery:', {
       sessionId: message.sessionId,
+      process: message.process
+    });
+    return;
+  }
+
+  if (!updated) {
+    console.warn('AI session not found, result not stored on it:', {
+      sessionId: message.sessionId,
+      process: message.process
+    });
+    // The conversation is still kept
+    if (conversationMessage) {
+      await dynamoHelper.putItem(conversationMessage, 'attribute_not_exists(PK)').catch((error) => {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+      });
+    }
+  }
+}
+
+// Id and timestamp (and so the key) come from the queue message, so every delivery of it builds the same item
+function buildConversationMessage(message: AIProcessingMessage, record: SQSRecord, result: any): ConversationMessageItem {
+  return messages.build({
+    sessionId: message.sessionId,
+    messageId: record.messageId,
+    role: 'assistant',
+    content: result.result,
+    timestamp: message.timestamp,
+    modelUsed: result.model,
+    tokenCount: result.tokens ? result.tokens.input + result.tokens.output : undefined,
+    cost: result.cost,
+    metadata: {
       userId: message.userId,
-      role: 'assistant',
-      content: result.result,
       process: message.process,
+      provider: result.provider,
       tokens: result.tokens,
       latency: result.latency,
       priority: message.priority,
       originalInput: message.input
     }
-  };
-
-  await dynamoHelper.putItem(conversationMessage);
+  });
 }
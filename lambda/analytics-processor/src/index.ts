@@ -1,54 +1,268 @@
-import { SQSHandler, SQSEvent, SQSRecord, Context } from 'aws-lambda';
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
+import {
+  DynamoDBHelper,
+  SQSHelper,
+  TransactionCanceledError,
+  VersionConflictError,
+  getEnvironment,
+} from '../shared/utils';
+import { SchemaValidationError } from '../shared/schema';
+import { analyticsProcessingMessageSchema } from '../shared/message-schemas';
+import { causedBy, readMessage } from '../shared/message-envelope';
+import { AnalyticsEventFrame, AnalyticsProcessingMessage, ToolInteractionItem, ToolItem } from '../shared/types';
+import { buildAggregateUpdates } from '../shared/analytics-aggregates';
+import { LeadIngestion, LeadValidationError } from './leads';
+import { WebhookPublisher, WebhookSubscriptionStore } from '../shared/webhooks';
+import { queueBroadcast } from '../shared/websocket-channels';
+import { InteractionRepository, ToolRepository } from '../shared/repositories';
 
-export const handler: SQSHandler = async (event: SQSEvent, context: Context) => {
-  console.log('Analytics Processor started', { 
+type InteractionType = ToolInteractionItem['interactionType'];
+
+// ToolItem.analytics counter incremented by each interaction type
+const ANALYTICS_COUNTERS: Partial<Record<InteractionType, keyof ToolItem['analytics']>> = {
+  view: 'totalViews',
+  complete: 'totalCompletions',
+  lead_capture: 'totalLeads',
+};
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const sqsHelper = new SQSHelper();
+const webhookPublisher = new WebhookPublisher(new WebhookSubscriptionStore(dynamoHelper), sqsHelper);
+const leadIngestion = new LeadIngestion(dynamoHelper, sqsHelper, webhookPublisher);
+const tools = new ToolRepository(dynamoHelper);
+const interactions = new InteractionRepository(dynamoHelper);
+
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  console.log('Analytics Processor started', {
     requestId: context.awsRequestId,
-    messageCount: event.Records.length 
+    messageCount: event.Records.length
   });
 
   const results = [];
+  // Only failed records are returned to the queue; they reach the DLQ after maxReceiveCount
+  const batchItemFailures: SQSBatchItemFailure[] = [];
 
   for (const record of event.Records) {
     try {
-      await processAnalyticsMessage(record);
-      results.push({ messageId: record.messageId, status: 'success' });
+      const status = await processAnalyticsMessage(record);
+      results.push({ messageId: record.messageId, status });
     } catch (error) {
+      // Retrying cannot fix a malformed message
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
       console.error('Failed to process analytics message:', {
         messageId: record.messageId,
         error: error instanceof Error ? error.message : error
       });
-      results.push({ 
-        messageId: record.messageId, 
-        status: 'error', 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+      results.push({
+        messageId: record.messageId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
     }
   }
 
-  console.log('Analytics Processor completed', { 
+  console.log('Analytics Processor completed', {
     requestId: context.awsRequestId,
-    results 
+    results
   });
 
-  return;
+  return { batchItemFailures };
 };
 
-async function processAnalyticsMessage(record: SQSRecord): Promise<void> {
-  const message = JSON.parse(record.body);
-  
+async function processAnalyticsMessage(record: SQSRecord): Promise<'success' | 'duplicate' | 'rejected'> {
+  const message = readMessage(record, analyticsProcessingMessageSchema, 'AnalyticsProcessingMessage');
+  const interactionType = message.interactionType;
+
   console.log('Processing analytics data:', {
     messageType: message.messageType,
     toolId: message.toolId,
-    interactionType: message.interactionType
+    interactionType,
+    correlationId: message.envelope.correlationId
+  });
+
+  const tool = await tools.get(message.toolId);
+  if (!tool) {
+    throw new Error(`Tool ${message.toolId} not found`);
+  }
+
+  // The lead is written before the interaction is counted: lead ingestion is
+  // safe to replay, so a failure in between only retries the counting
+  if (interactionType === 'lead_capture') {
+    try {
+      const leadResult = await leadIngestion.ingest(record.messageId, message, tool);
+      console.log('Lead ingested:', { toolId: message.toolId, result: leadResult });
+    } catch (error) {
+      if (error instanceof LeadValidationError) {
+        // Retrying cannot fix the submission, and it should not count as a lead
+        console.warn('Lead rejected:', { messageId: record.messageId, error: error.message });
+        return 'rejected';
+      }
+      throw error;
+    }
+  }
+
+  // Published before the interaction is recorded, because recording it is what
+  // marks the message as processed: a failure in between retries the
+  // publishing too. Webhook delivery ids are derived from the message id, so
+  // a replay does not deliver the event twice.
+  if (interactionType === 'complete') {
+    const data = message.data || {};
+    await webhookPublisher.publish(message.toolId, 'tool.completed', record.messageId, {
+      sessionId: data.sessionId,
+      totalSteps: data.totalSteps,
+      timeSpent: data.timeSpent,
+      completedAt: message.timestamp,
+    }, causedBy(message.envelope));
+  }
+
+  await publishAnalyticsEvent(message, tool);
+
+  const recorded = await recordInteraction(record.messageId, message, tool);
+  if (!recorded) {
+    console.log('Duplicate analytics message ignored:', record.messageId);
+    return 'duplicate';
+  }
+
+  if (interactionType === 'view' || interactionType === 'lead_capture') {
+    await updateConversionRate(tool);
+  }
+
+  console.log('Analytics processing completed:', {
+    messageId: record.messageId,
+    correlationId: message.envelope.correlationId
   });
+  return 'success';
+}
+
+/**
+ * Live activity for the tool owner's connections subscribed to `tool:{toolId}`.
+ * Best-effort: failures are only logged, and a replayed message sends the
+ * frame again (with the same `correlationId`).
+ */
+async function publishAnalyticsEvent(message: AnalyticsProcessingMessage, tool: ToolItem): Promise<void> {
+  if (!env.WEBSOCKET_BROADCAST_QUEUE_URL) return;
+
+  const channel = `tool:${message.toolId}` as const;
+  const frame: AnalyticsEventFrame = {
+    type: 'analytics_event',
+    channel,
+    toolId: message.toolId,
+    interactionType: message.interactionType,
+    sessionId: message.data?.sessionId,
+    timestamp: message.timestamp,
+    correlationId: message.envelope.correlationId,
+  };
+
+  try {
+    await queueBroadcast(channel, frame, tool.userId, sqsHelper, causedBy(message.envelope));
+  } catch (error) {
+    console.error('Failed to publish analytics event:', error);
+  }
+}
+
+/**
+ * Store the interaction, bump the tool's lifetime counters and add it to the
+ * hourly/daily aggregates in one transaction. The interaction is keyed by the
+ * SQS message id, so a replayed message fails the put condition and nothing is
+ * counted twice. Returns false for a replay.
+ */
+async function recordInteraction(
+  messageId: string,
+  message: AnalyticsProcessingMessage,
+  tool: ToolItem
+): Promise<boolean> {
+  const interactionType = message.interactionType;
+  const timestamp = message.timestamp;
+  const data = message.data || {};
+  const now = Date.now();
+
+  const interaction = interactions.build({
+    toolId: message.toolId,
+    interactionId: messageId,
+    sessionId: data.sessionId,
+    interactionType,
+    interactionData: {
+      stepCompleted: data.stepCompleted,
+      totalSteps: data.totalSteps,
+      timeSpent: data.timeSpent,
+      userAgent: data.userAgent,
+      referrer: data.referrer,
+    },
+  }, timestamp);
 
-  // TODO: Implement analytics processing logic
-  // - Store interaction data in DynamoDB
-  // - Update tool metrics
-  // - Generate insights
-  
-  // Simulate processing
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  console.log('Analytics processing completed for message:', record.messageId);
+  const counter = ANALYTICS_COUNTERS[interactionType];
+  const expressionAttributeNames: Record<string, string> = {
+    '#analytics': 'analytics',
+    '#lastActivity': 'lastActivity',
+    '#updatedAt': 'updatedAt',
+    '#version': 'version',
+  };
+  const expressionAttributeValues: Record<string, any> = {
+    ':timestamp': timestamp,
+    ':now': now,
+    ':one': 1,
+  };
+
+  // Bumping the version makes versioned writers (updateConversionRate) see the new counts
+  let updateExpression = 'SET #analytics.#lastActivity = :timestamp, #updatedAt = :now ADD #version :one';
+  if (counter) {
+    expressionAttributeNames['#counter'] = counter;
+    updateExpression += ', #analytics.#counter :one';
+  }
+
+  try {
+    await dynamoHelper.transaction()
+      .put(interaction, 'attribute_not_exists(PK)')
+      .updateWithExpression(
+        tool.PK,
+        tool.SK,
+        {
+          UpdateExpression: updateExpression,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+        },
+        'attribute_exists(#analytics)'
+      )
+      .add(...buildAggregateUpdates(interaction, timestamp))
+      .commit();
+    return true;
+  } catch (error) {
+    if (error instanceof TransactionCanceledError && error.conditionFailed(0)) {
+      return false;
+    }
+    if (error instanceof TransactionCanceledError && error.conditionFailed(1)) {
+      throw new Error(`Tool ${message.toolId} has no analytics attribute`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * conversionRate = totalLeads / totalViews. DynamoDB cannot divide in an update
+ * expression, so the rate is computed from a fresh read and written only if the
+ * tool has not changed since, re-reading on conflict. After repeated conflicts
+ * it gives up: the concurrent updates will write their own, newer rate.
+ */
+async function updateConversionRate(tool: ToolItem): Promise<void> {
+  try {
+    await tools.modify(tool, current => {
+      if (!current.analytics) {
+        return null;
+      }
+      const { totalViews = 0, totalLeads = 0 } = current.analytics;
+      return {
+        analytics: { ...current.analytics, conversionRate: totalViews > 0 ? totalLeads / totalViews : 0 },
+      };
+    });
+  } catch (error) {
+    if (!(error instanceof VersionConflictError)) {
+      throw error;
+    }
+    console.warn('Conversion rate not updated, tool kept changing:', { toolId: tool.toolId });
+  }
 }
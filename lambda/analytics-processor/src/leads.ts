@@ -0,0 +1,300 @@
+import { DynamoDBHelper, SQSHelper, generateId, validateEmail } from '../shared/utils';
+import { AnalyticsProcessingMessage, LeadItem, LeadScoringConfig, LeadScoringRule, LeadSource, ToolItem } from '../shared/types';
+import { normalizeEmail } from '../shared/email-compliance';
+import { WebhookPublisher } from '../shared/webhooks';
+import { LeadRepository } from '../shared/repositories';
+import { MessageContext, causedBy } from '../shared/message-envelope';
+
+const DASHBOARD_URL = 'https://keyvex.com/dashboard';
+
+const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+export class LeadValidationError extends Error {
+  constructor(message: string, public readonly toolId: string) {
+    super(message);
+    this.name = 'LeadValidationError';
+  }
+}
+
+export type LeadIngestionResult = 'created' | 'updated' | 'duplicate';
+
+/**
+ * Responses arrive either as `{ [questionId]: answer }` or as
+ * `[{ questionId, answer }]` depending on the tool type
+ */
+function responsesByQuestion(responses: LeadItem['responses'] = {}): Record<string, unknown> {
+  if (Array.isArray(responses)) {
+    const byQuestion: Record<string, unknown> = {};
+    responses.forEach((response) => {
+      byQuestion[response.questionId] = response.answer ?? response.value;
+    });
+    return byQuestion;
+  }
+  return responses;
+}
+
+function scoreAnswer(rule: LeadScoringRule, answer: unknown): number {
+  if (answer === undefined || answer === null) {
+    return 0;
+  }
+
+  if (rule.ranges) {
+    const value = Number(answer);
+    if (!Number.isNaN(value)) {
+      const range = rule.ranges.find(r =>
+        (r.min === undefined || value >= r.min) && (r.max === undefined || value <= r.max)
+      );
+      if (range) {
+        return range.points;
+      }
+    }
+  }
+
+  if (rule.answers) {
+    const values = Array.isArray(answer) ? answer : [answer];
+    return values.reduce((sum: number, value: unknown) => sum + (rule.answers![String(value)] || 0), 0);
+  }
+
+  return 0;
+}
+
+/**
+ * Score a lead's responses against the tool's rules. Tools without rules
+ * produce no score or category.
+ */
+export function scoreLead(
+  responses: LeadItem['responses'] | undefined,
+  config?: LeadScoringConfig
+): { score?: number; resultCategory?: string } {
+  if (!config?.rules?.length) {
+    return {};
+  }
+
+  const answers = responsesByQuestion(responses);
+  const score = config.rules.reduce((sum, rule) => sum + scoreAnswer(rule, answers[rule.questionId]), 0);
+
+  const category = [...(config.categories || [])]
+    .sort((a, b) => b.minScore - a.minScore)
+    .find(c => score >= c.minScore);
+
+  return { score, resultCategory: category?.name };
+}
+
+/**
+ * UTM parameters from the landing page URL, falling back to the referrer.
+ * Explicit `source.utm` values sent by the embed take precedence.
+ */
+export function parseUtmParameters(source: LeadSource = {}): Record<string, string> | undefined {
+  const utm: Record<string, string> = {};
+
+  for (const candidate of [source.referrer, source.url]) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      const params = new URL(candidate).searchParams;
+      UTM_PARAMETERS.forEach((name) => {
+        const value = params.get(name);
+        if (value) {
+          utm[name] = value;
+        }
+      });
+    } catch {
+      // Not an absolute URL; nothing to parse
+    }
+  }
+
+  if (source.utm) {
+    Object.entries(source.utm).forEach(([name, value]) => {
+      if (value) {
+        utm[name.startsWith('utm_') ? name : `utm_${name}`] = value;
+      }
+    });
+  }
+
+  return Object.keys(utm).length > 0 ? utm : undefined;
+}
+
+/**
+ * Turns `lead_capture` interactions into LeadItems. A repeat submission from the
+ * same email for the same tool (found through the `EMAIL#` GSI) updates the
+ * existing lead instead of creating another, and only new leads notify the
+ * tool owner and fire `lead.created` webhooks.
+ */
+export class LeadIngestion {
+  private leads: LeadRepository;
+
+  constructor(
+    private dynamoHelper: DynamoDBHelper,
+    private sqsHelper: SQSHelper,
+    private webhookPublisher: WebhookPublisher
+  ) {
+    this.leads = new LeadRepository(dynamoHelper);
+  }
+
+  async ingest(messageId: string, message: AnalyticsProcessingMessage, tool: ToolItem): Promise<LeadIngestionResult> {
+    const data = message.data || {};
+    const rawEmail = typeof data.email === 'string' ? data.email : '';
+
+    if (!validateEmail(rawEmail.trim())) {
+      throw new LeadValidationError(`Lead for tool ${message.toolId} has an invalid email`, message.toolId);
+    }
+
+    const email = normalizeEmail(rawEmail);
+    const { score, resultCategory } = scoreLead(data.responses, tool.configuration?.leadScoring);
+    const source: LeadItem['source'] = {
+      referrer: data.source?.referrer ?? data.referrer,
+      utm: parseUtmParameters(data.source),
+      userAgent: data.source?.userAgent ?? data.userAgent,
+    };
+
+    // GSI reads are eventually consistent, so two submissions within moments of
+    // each other can still produce two leads
+    const existing = await this.leads.findByEmail(message.toolId, email);
+    if (existing) {
+      const updated = await this.updateLead(existing, messageId, message, { score, resultCategory, source });
+      // A replay of the message that created the lead may still owe the notifications
+      if (existing.ownerNotifiedAt === undefined) {
+        await this.announceLead(existing, tool, causedBy(message.envelope));
+      }
+      return updated ? 'updated' : 'duplicate';
+    }
+
+    const lead = await this.leads.create({
+      leadId: generateId(),
+      toolId: message.toolId,
+      email,
+      name: data.name,
+      company: data.company,
+      phone: data.phone,
+      responses: data.responses ?? {},
+      score,
+      resultCategory,
+      source,
+      submissionCount: 1,
+      lastSubmittedAt: message.timestamp,
+      lastMessageId: messageId,
+      metadata: { sessionId: data.sessionId },
+    }, message.timestamp);
+
+    await this.announceLead(lead, tool, causedBy(message.envelope));
+    return 'created';
+  }
+
+  /**
+   * Apply a repeat submission. Returns false when this message was already
+   * applied (an SQS replay), so the submission is not counted twice.
+   */
+  private async updateLead(
+    lead: LeadItem,
+    messageId: string,
+    message: AnalyticsProcessingMessage,
+    scoring: Pick<LeadItem, 'score' | 'resultCategory' | 'source'>
+  ): Promise<boolean> {
+    const data = message.data || {};
+    const fields: Record<string, any> = {
+      responses: data.responses ?? lead.responses,
+      score: scoring.score,
+      resultCategory: scoring.resultCategory,
+      source: scoring.source,
+      lastSubmittedAt: message.timestamp,
+      lastMessageId: messageId,
+      updatedAt: Date.now(),
+      // Contact details are only overwritten when the new submission has them
+      name: data.name,
+      company: data.company,
+      phone: data.phone,
+    };
+
+    const names: Record<string, string> = {
+      '#submissionCount': 'submissionCount',
+      '#lastMessageId': 'lastMessageId',
+    };
+    const values: Record<string, any> = { ':one': 1, ':messageId': messageId };
+    const assignments: string[] = [];
+
+    Object.entries(fields).forEach(([field, value], index) => {
+      if (value === undefined) {
+        return;
+      }
+      names[`#f${index}`] = field;
+      values[`:f${index}`] = value;
+      assignments.push(`#f${index} = :f${index}`);
+    });
+
+    try {
+      await this.dynamoHelper.updateWithExpression(
+        lead.PK,
+        lead.SK,
+        {
+          UpdateExpression: `SET ${assignments.join(', ')} ADD #submissionCount :one`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+        },
+        'attribute_not_exists(#lastMessageId) OR #lastMessageId <> :messageId'
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Owner email plus `lead.created` webhooks. `ownerNotifiedAt` is only set once
+   * both are queued. Repeating this after a partial failure sends neither twice:
+   * the email is recorded as queued on its own (`ownerEmailQueuedAt`), and
+   * webhook deliveries are keyed by lead id.
+   */
+  private async announceLead(lead: LeadItem, tool: ToolItem, context: MessageContext): Promise<void> {
+    if (lead.ownerEmailQueuedAt === undefined) {
+      await this.queueOwnerEmail(lead, tool, context);
+      await this.setTimestamp(lead, 'ownerEmailQueuedAt');
+    }
+
+    await this.webhookPublisher.publish(tool.toolId, 'lead.created', lead.leadId, {
+      leadId: lead.leadId,
+      email: lead.email,
+      name: lead.name,
+      company: lead.company,
+      phone: lead.phone,
+      score: lead.score,
+      resultCategory: lead.resultCategory,
+      responses: lead.responses,
+      source: lead.source,
+      createdAt: lead.createdAt,
+    }, context);
+
+    await this.setTimestamp(lead, 'ownerNotifiedAt');
+  }
+
+  private async queueOwnerEmail(lead: LeadItem, tool: ToolItem, context: MessageContext): Promise<void> {
+    await this.sqsHelper.sendEmailMessage({
+      messageType: 'EMAIL_NOTIFICATION',
+      userId: tool.userId,
+      templateId: 'lead_notification',
+      data: {
+        toolName: tool.name,
+        lead: {
+          email: lead.email,
+          name: lead.name,
+          score: lead.score,
+          resultCategory: lead.resultCategory,
+        },
+        dashboardUrl: DASHBOARD_URL,
+      },
+      priority: 'normal',
+      timestamp: Date.now(),
+    }, context);
+  }
+
+  private async setTimestamp(lead: LeadItem, attribute: 'ownerEmailQueuedAt' | 'ownerNotifiedAt'): Promise<void> {
+    await this.dynamoHelper.updateWithExpression(lead.PK, lead.SK, {
+      UpdateExpression: 'SET #attribute = :now',
+      ExpressionAttributeNames: { '#attribute': attribute },
+      ExpressionAttributeValues: { ':now': Date.now() },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { ApiGatewayManagementApiClient, DeleteConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { DynamoDBHelper, createWebSocketClient, getEnvironment } from '../shared/utils';
+import { ConnectionRegistry } from '../shared/websocket-connections';
+
+// Clients are expected to ping within API Gateway's 10 minute idle timeout, so a
+// connection this quiet has almost certainly been dropped without a $disconnect
+const DEFAULT_IDLE_MINUTES = 30;
+
+// Leave time to finish the current connection; the next run picks up the rest
+const MIN_REMAINING_TIME_MS = 10 * 1000;
+
+interface SweepResult {
+  idle: number;
+  removed: number;
+  failed: number;
+  complete: boolean;
+}
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const connections = new ConnectionRegistry(dynamoHelper);
+
+/**
+ * Scheduled: removes connections idle past CONNECTION_IDLE_MINUTES, closing
+ * them at API Gateway first in case the client is still attached. Reads only
+ * the idle connections, from the last-activity index.
+ */
+export const handler = async (event: ScheduledEvent, context: Context): Promise<SweepResult> => {
+  const idleMinutes = Number(env.CONNECTION_IDLE_MINUTES) || DEFAULT_IDLE_MINUTES;
+  const cutoff = Date.now() - idleMinutes * 60 * 1000;
+  const client = createWebSocketClient();
+
+  console.log('Connection sweep started', {
+    requestId: context.awsRequestId,
+    idleMinutes,
+    closeAtGateway: client !== null
+  });
+
+  const result: SweepResult = { idle: 0, removed: 0, failed: 0, complete: true };
+
+  sweep:
+  for await (const page of connections.idlePages(cutoff)) {
+    for (const connection of page) {
+      if (context.getRemainingTimeInMillis() < MIN_REMAINING_TIME_MS) {
+        result.complete = false;
+        break sweep;
+      }
+
+      result.idle++;
+      try {
+        if (client) {
+          await closeConnection(client, connection.connectionId);
+        }
+        await connections.remove(connection.connectionId);
+        result.removed++;
+      } catch (error) {
+        result.failed++;
+        console.error(`Failed to remove idle connection ${connection.connectionId}:`, error);
+      }
+    }
+  }
+
+  console.log('Connection sweep completed', {
+    requestId: context.awsRequestId,
+    ...result
+  });
+
+  return result;
+};
+
+async function closeConnection(client: ApiGatewayManagementApiClient, connectionId: string): Promise<void> {
+  try {
+    await client.send(new DeleteConnectionCommand({ ConnectionId: connectionId }));
+  } catch (error: any) {
+    // Already closed, which is the usual case
+    if (error?.name !== 'GoneException' && error?.$metadata?.httpStatusCode !== 410) {
+      throw error;
+    }
+  }
+}
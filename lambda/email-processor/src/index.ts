@@ -1,19 +1,258 @@
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
+import {
+  DynamoDBHelper,
+  SQSHelper,
+  SecretsHelper,
+  getEnvironment,
+  getTTL
+} from '../shared/utils';
+import { SchemaValidationError } from '../shared/schema';
+import { emailNotificationMessageSchema } from '../shared/message-schemas';
+import { emailSendAttemptItemSchema } from '../shared/entity-schemas';
+import { readMessage } from '../shared/message-envelope';
+import {
+  EmailNotificationMessage,
+  EmailSendAttemptItem,
+  UserItem
+} from '../shared/types';
+import {
+  EmailSuppressionList,
+  buildUnsubscribeUrl,
+  createUnsubscribeToken,
+  getEmailSigningKey
+} from '../shared/email-compliance';
+import { UserRepository } from '../shared/repositories';
+import { EmailTemplate, EmailTemplateError, EmailTemplateStore, renderTemplate, withUnsubscribeLink } from './templates';
+import { EmailTransport, EmailTransportError, createEmailTransport } from './transports';
 
-import { Handler, Context } from 'aws-lambda';
-
-export const handler: Handler = async (event: any, context: Context) => {
-  console.log('Event:', JSON.stringify(event, null, 2));
-  console.log('Context:', JSON.stringify(context, null, 2));
-  
-  // TODO: Implement email-processor logic
-  console.log('email-processor function called - placeholder implementation');
-  
-  return {
-    statusCode: 200,
-    body: JSON.stringify({
-      message: 'email-processor executed successfully',
-      timestamp: new Date().toISOString(),
-      functionName: 'email-processor'
-    })
-  };
+const SEND_ATTEMPT_TTL_DAYS = 90;
+const DEFAULT_FROM_ADDRESS = 'notifications@keyvex.com';
+const DEFAULT_FROM_NAME = 'Keyvex';
+const DEFAULT_UNSUBSCRIBE_BASE_URL = 'https://keyvex.com/unsubscribe';
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const secretsHelper = new SecretsHelper();
+const sqsHelper = new SQSHelper();
+const templateStore = new EmailTemplateStore(dynamoHelper);
+const suppressionList = new EmailSuppressionList(dynamoHelper);
+const users = new UserRepository(dynamoHelper);
+
+let transportPromise: Promise<EmailTransport> | null = null;
+let signingKeyPromise: Promise<string> | null = null;
+
+// Reused across invocations; a failed setup is retried on the next call
+function getTransport(): Promise<EmailTransport> {
+  if (!transportPromise) {
+    transportPromise = createEmailTransport(secretsHelper).catch((error) => {
+      transportPromise = null;
+      throw error;
+    });
+  }
+  return transportPromise;
+}
+
+function getSigningKey(): Promise<string> {
+  if (!signingKeyPromise) {
+    signingKeyPromise = getEmailSigningKey(secretsHelper).catch((error) => {
+      signingKeyPromise = null;
+      throw error;
+    });
+  }
+  return signingKeyPromise;
+}
+
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  console.log('Email Processor started', {
+    requestId: context.awsRequestId,
+    messageCount: event.Records.length
+  });
+
+  const results = [];
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      const status = await processEmailMessage(record);
+      results.push({ messageId: record.messageId, status });
+    } catch (error) {
+      // Retrying cannot fix a malformed message
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
+      console.error('Failed to process message:', {
+        messageId: record.messageId,
+        error: error instanceof Error ? error.message : error
+      });
+      results.push({
+        messageId: record.messageId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  console.log('Email Processor completed', {
+    requestId: context.awsRequestId,
+    results
+  });
+
+  return { batchItemFailures };
 };
+
+async function processEmailMessage(record: SQSRecord): Promise<'sent' | 'skipped' | 'suppressed' | 'rejected'> {
+  const message = readMessage(record, emailNotificationMessageSchema, 'EmailNotificationMessage');
+
+  // A redelivered message may already have been sent before a timeout or crash
+  const attempts = await dynamoHelper.query<EmailSendAttemptItem>(`EMAIL_SEND#${record.messageId}`, 'ATTEMPT#');
+  if (attempts.some(attempt => attempt.status === 'sent')) {
+    console.log('Email already sent, skipping:', { messageId: record.messageId });
+    return 'skipped';
+  }
+
+  const transport = await getTransport();
+  const receiveCount = Number(record.attributes.ApproximateReceiveCount) || 1;
+  let template: EmailTemplate | undefined;
+  let recipient: string | undefined;
+
+  try {
+    const user = await users.get(message.userId);
+    recipient = message.to || user?.email;
+    if (!recipient) {
+      throw new EmailTemplateError(`No recipient for user ${message.userId}`, message.templateId);
+    }
+
+    const suppressedBy = await getSuppressionReason(recipient, user);
+    if (suppressedBy) {
+      await recordSendAttempt(record.messageId, message, transport.name, receiveCount, {
+        status: 'suppressed',
+        recipient,
+        error: suppressedBy,
+      });
+      console.log('Email suppressed:', {
+        messageId: record.messageId,
+        templateId: message.templateId,
+        reason: suppressedBy,
+        correlationId: message.envelope.correlationId
+      });
+      return 'suppressed';
+    }
+
+    const unsubscribeUrl = buildUnsubscribeUrl(
+      env.UNSUBSCRIBE_BASE_URL || DEFAULT_UNSUBSCRIBE_BASE_URL,
+      createUnsubscribeToken(recipient, await getSigningKey(), message.userId)
+    );
+
+    template = await templateStore.resolve(message.templateId);
+    const rendered = withUnsubscribeLink(
+      renderTemplate(template, { ...message.data, unsubscribeUrl }),
+      unsubscribeUrl
+    );
+
+    const result = await transport.send({
+      ...rendered,
+      to: recipient,
+      from: {
+        email: env.EMAIL_FROM_ADDRESS || DEFAULT_FROM_ADDRESS,
+        name: env.EMAIL_FROM_NAME || DEFAULT_FROM_NAME,
+      },
+      messageId: record.messageId,
+      unsubscribeUrl,
+    });
+
+    await recordSendAttempt(record.messageId, message, transport.name, receiveCount, {
+      status: 'sent',
+      recipient,
+      templateVersion: template.version,
+      providerMessageId: result.providerMessageId,
+    });
+
+    console.log('Email sent:', {
+      messageId: record.messageId,
+      templateId: template.templateId,
+      version: template.version,
+      transport: transport.name,
+      correlationId: message.envelope.correlationId
+    });
+    return 'sent';
+  } catch (error) {
+    await recordSendAttempt(record.messageId, message, transport.name, receiveCount, {
+      status: 'failed',
+      recipient,
+      templateVersion: template?.version,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    // Bad templates, missing data and provider rejections will fail the same
+    // way on every retry, so they are recorded and dropped
+    const permanent = error instanceof EmailTemplateError
+      || (error instanceof EmailTransportError && !error.retryable);
+    if (permanent) {
+      console.warn('Email rejected:', {
+        messageId: record.messageId,
+        templateId: message.templateId,
+        error: (error as Error).message,
+        correlationId: message.envelope.correlationId
+      });
+      return 'rejected';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Why an email must not be sent, or undefined if it may be
+ */
+async function getSuppressionReason(recipient: string, user: UserItem | null): Promise<string | undefined> {
+  if (user?.preferences?.notifications === false) {
+    return 'notifications_disabled';
+  }
+
+  const suppression = await suppressionList.get(recipient);
+  return suppression ? `suppressed:${suppression.reason}` : undefined;
+}
+
+async function recordSendAttempt(
+  messageId: string,
+  message: EmailNotificationMessage,
+  transport: string,
+  receiveCount: number,
+  outcome: Pick<EmailSendAttemptItem, 'status' | 'recipient' | 'templateVersion' | 'providerMessageId' | 'error'>
+): Promise<void> {
+  const timestamp = Date.now();
+
+  const attempt: EmailSendAttemptItem = {
+    PK: `EMAIL_SEND#${messageId}`,
+    SK: `ATTEMPT#${timestamp}`,
+    GSI1PK: `USER#${message.userId}`,
+    GSI1SK: `EMAIL#${timestamp}`,
+    GSI2PK: `TEMPLATE#${message.templateId.split('@')[0]}`,
+    GSI2SK: `${timestamp}`,
+    entityType: 'EMAIL_SEND',
+    messageId,
+    userId: message.userId,
+    templateId: message.templateId,
+    transport,
+    receiveCount,
+    timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    version: 0,
+    metadata: { priority: message.priority },
+    ttl: getTTL(SEND_ATTEMPT_TTL_DAYS),
+    ...outcome,
+  };
+
+  try {
+    emailSendAttemptItemSchema.parse(attempt, 'EmailSendAttemptItem');
+    await dynamoHelper.putItem(attempt);
+  } catch (error) {
+    // Auditing must not cause a sent email to be retried
+    console.error('Failed to record email send attempt:', {
+      messageId,
+      error: error instanceof Error ? error.message : error
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import { EmailTemplateItem } from '../shared/types';
+import { DynamoDBHelper } from '../shared/utils';
+
+export interface EmailTemplate {
+  templateId: string;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+  // Dotted paths into `data` that must be present to render
+  requiredData?: string[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export class EmailTemplateError extends Error {
+  constructor(message: string, public readonly templateId: string) {
+    super(message);
+    this.name = 'EmailTemplateError';
+  }
+}
+
+// Templates the platform sends itself. A `TEMPLATE#{id}` item in DynamoDB
+// with the same id takes precedence, so copy can change without a deploy.
+export const BUILT_IN_TEMPLATES: EmailTemplate[] = [
+  {
+    templateId: 'welcome',
+    version: 1,
+    subject: 'Welcome to Keyvex',
+    html: '<p>Hi {{name}},</p><p>Welcome to Keyvex! You can start building your first interactive tool from your <a href="{{dashboardUrl}}">dashboard</a>.</p>',
+    text: 'Hi {{name}},\n\nWelcome to Keyvex! You can start building your first interactive tool from your dashboard: {{dashboardUrl}}',
+  },
+  {
+    templateId: 'lead_notification',
+    version: 1,
+    subject: 'New lead from {{toolName}}',
+    html: '<p>{{toolName}} captured a new lead.</p><ul><li>Email: {{lead.email}}</li><li>Name: {{lead.name}}</li><li>Score: {{lead.score}}</li><li>Result: {{lead.resultCategory}}</li></ul><p><a href="{{dashboardUrl}}">View lead</a></p>',
+    text: '{{toolName}} captured a new lead.\n\nEmail: {{lead.email}}\nName: {{lead.name}}\nScore: {{lead.score}}\nResult: {{lead.resultCategory}}\n\nView lead: {{dashboardUrl}}',
+    requiredData: ['toolName', 'lead.email'],
+  },
+];
+
+export function templateVersionSortKey(version: number): `VERSION#${string}` {
+  return `VERSION#${String(version).padStart(6, '0')}`;
+}
+
+/**
+ * Split `{templateId}@{version}` into its parts; no version means latest
+ */
+export function parseTemplateRef(templateRef: string): { templateId: string; version?: number } {
+  const [templateId, version] = templateRef.split('@');
+  if (version === undefined) {
+    return { templateId };
+  }
+
+  const parsed = Number(version);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new EmailTemplateError(`Invalid template version "${version}"`, templateId);
+  }
+  return { templateId, version: parsed };
+}
+
+/**
+ * Resolves template references against DynamoDB, falling back to BUILT_IN_TEMPLATES
+ */
+export class EmailTemplateStore {
+  private dynamoHelper: DynamoDBHelper;
+
+  constructor(dynamoHelper?: DynamoDBHelper) {
+    this.dynamoHelper = dynamoHelper || new DynamoDBHelper();
+  }
+
+  async resolve(templateRef: string): Promise<EmailTemplate> {
+    const { templateId, version } = parseTemplateRef(templateRef);
+
+    const stored = version
+      ? await this.dynamoHelper.getItem<EmailTemplateItem>(`TEMPLATE#${templateId}`, templateVersionSortKey(version))
+      : (await this.dynamoHelper.query<EmailTemplateItem>(`TEMPLATE#${templateId}`, 'VERSION#', undefined, 1))[0];
+
+    if (stored) {
+      return {
+        templateId,
+        version: stored.templateVersion,
+        subject: stored.subject,
+        html: stored.html,
+        text: stored.text,
+        requiredData: stored.requiredData,
+      };
+    }
+
+    const builtIn = BUILT_IN_TEMPLATES
+      .filter(template => template.templateId === templateId && (!version || template.version === version))
+      .sort((a, b) => b.version - a.version)[0];
+
+    if (!builtIn) {
+      throw new EmailTemplateError(
+        `Template ${templateRef} not found`,
+        templateId
+      );
+    }
+    return builtIn;
+  }
+}
+
+function lookup(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace `{{path}}` placeholders with values from `data`. In HTML, values are
+ * escaped unless the placeholder uses triple braces (`{{{path}}}`).
+ */
+export function renderString(source: string, data: any, escape: boolean): string {
+  return source.replace(/\{\{(\{)?\s*([\w.]+)\s*\}?\}\}/g, (_match, raw: string | undefined, path: string) => {
+    const value = lookup(data, path);
+    if (value == null) {
+      return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return escape && !raw ? escapeHtml(text) : text;
+  });
+}
+
+/**
+ * Append an unsubscribe footer unless the template already placed `{{unsubscribeUrl}}`
+ */
+export function withUnsubscribeLink(email: RenderedEmail, unsubscribeUrl: string): RenderedEmail {
+  const escapedUrl = escapeHtml(unsubscribeUrl);
+  return {
+    subject: email.subject,
+    html: email.html.includes(escapedUrl)
+      ? email.html
+      : `${email.html}<p style="font-size:12px;color:#888888"><a href="${escapedUrl}">Unsubscribe</a> from these emails.</p>`,
+    text: email.text.includes(unsubscribeUrl)
+      ? email.text
+      : `${email.text}\n\nUnsubscribe: ${unsubscribeUrl}`,
+  };
+}
+
+export function renderTemplate(template: EmailTemplate, data: any): RenderedEmail {
+  const missing = (template.requiredData || []).filter(path => lookup(data, path) == null);
+  if (missing.length > 0) {
+    throw new EmailTemplateError(
+      `Template ${template.templateId}@${template.version} is missing data: ${missing.join(', ')}`,
+      template.templateId
+    );
+  }
+
+  return {
+    subject: renderString(template.subject, data, false),
+    html: renderString(template.html, data, true),
+    text: renderString(template.text, data, false),
+  };
+}
@@ -0,0 +1,174 @@
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SecretsHelper, getEnvironment } from '../shared/utils';
+import { RenderedEmail } from './templates';
+
+export interface OutgoingEmail extends RenderedEmail {
+  to: string;
+  from: {
+    email: string;
+    name?: string;
+  };
+  // Reference stored with the provider so webhooks can be matched to a send
+  messageId: string;
+  unsubscribeUrl?: string;
+}
+
+export interface EmailSendResult {
+  providerMessageId?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<EmailSendResult>;
+}
+
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly transport: string,
+    public readonly statusCode?: number,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(private apiKey: string, private baseUrl: string = 'https://api.sendgrid.com') {}
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v3/mail/send`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: email.to }] }],
+          from: email.from,
+          subject: email.subject,
+          // SendGrid requires text/plain before text/html
+          content: [
+            { type: 'text/plain', value: email.text },
+            { type: 'text/html', value: email.html },
+          ],
+          custom_args: { keyvex_message_id: email.messageId },
+          // One-click unsubscribe (RFC 8058) for mail clients that support it
+          ...(email.unsubscribeUrl && {
+            headers: {
+              'List-Unsubscribe': `<${email.unsubscribeUrl}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            },
+          }),
+        }),
+      });
+    } catch (error) {
+      throw new EmailTransportError(
+        `sendgrid request failed: ${error instanceof Error ? error.message : error}`,
+        this.name,
+        undefined,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new EmailTransportError(
+        `sendgrid responded with ${response.status}: ${text.slice(0, 500)}`,
+        this.name,
+        response.status,
+        response.status === 429 || response.status >= 500
+      );
+    }
+
+    return { providerMessageId: response.headers.get('x-message-id') || undefined };
+  }
+}
+
+// SES errors worth retrying; anything else (e.g. MessageRejected) is permanent
+const SES_RETRYABLE_ERRORS = ['Throttling', 'ThrottlingException', 'ServiceUnavailable', 'InternalFailure'];
+
+export class SESTransport implements EmailTransport {
+  readonly name = 'ses';
+  private client: SESClient;
+
+  constructor(region?: string) {
+    this.client = new SESClient({ region: region || getEnvironment().AWS_REGION });
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const source = email.from.name ? `"${email.from.name}" <${email.from.email}>` : email.from.email;
+
+    try {
+      const result = await this.client.send(new SendEmailCommand({
+        Source: source,
+        Destination: { ToAddresses: [email.to] },
+        Message: {
+          Subject: { Data: email.subject, Charset: 'UTF-8' },
+          Body: {
+            Html: { Data: email.html, Charset: 'UTF-8' },
+            Text: { Data: email.text, Charset: 'UTF-8' },
+          },
+        },
+        Tags: [{ Name: 'keyvex_message_id', Value: email.messageId.replace(/[^\w-]/g, '_') }],
+      }));
+      return { providerMessageId: result.MessageId };
+    } catch (error: any) {
+      throw new EmailTransportError(
+        `ses send failed: ${error?.message || error}`,
+        this.name,
+        error?.$metadata?.httpStatusCode,
+        SES_RETRYABLE_ERRORS.includes(error?.name) || (error?.$metadata?.httpStatusCode ?? 0) >= 500
+      );
+    }
+  }
+}
+
+/**
+ * Writes each email to `{outputDir}/{timestamp}-{messageId}.json` instead of
+ * sending it. Used for local runs and tests.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private outputDir: string) {}
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const fileName = `${Date.now()}-${email.messageId.replace(/[^\w-]/g, '_')}.json`;
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(path.join(this.outputDir, fileName), JSON.stringify(email, null, 2));
+
+    return { providerMessageId: fileName };
+  }
+}
+
+/**
+ * Build the transport selected by EMAIL_TRANSPORT ('sendgrid' by default, 'ses' or 'file')
+ */
+export async function createEmailTransport(secretsHelper: SecretsHelper): Promise<EmailTransport> {
+  const env = getEnvironment();
+
+  switch (env.EMAIL_TRANSPORT || 'sendgrid') {
+    case 'sendgrid': {
+      const secrets = await secretsHelper.getIntegrationsSecrets();
+      if (!secrets?.sendgrid_api_key) {
+        throw new EmailTransportError('sendgrid_api_key is not configured in the integration secrets', 'sendgrid');
+      }
+      return new SendGridTransport(secrets.sendgrid_api_key, env.SENDGRID_BASE_URL);
+    }
+    case 'ses':
+      return new SESTransport(env.AWS_REGION);
+    case 'file':
+      return new FileTransport(env.EMAIL_OUTPUT_DIR || '/tmp/keyvex-emails');
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${env.EMAIL_TRANSPORT}"`);
+  }
+}
@@ -0,0 +1,267 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { createPublicKey, createVerify, verify } from 'crypto';
+import {
+  DynamoDBHelper,
+  SecretsHelper,
+  createErrorResponse,
+  createSuccessResponse,
+  getEnvironment,
+  parseJSON
+} from '../shared/utils';
+import { EmailSuppressionList, getEmailSigningKey, verifyUnsubscribeToken } from '../shared/email-compliance';
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const secretsHelper = new SecretsHelper();
+const suppressionList = new EmailSuppressionList(dynamoHelper);
+
+// SNS signing certificates, cached per container
+const snsCertificates = new Map<string, string>();
+const SNS_CERT_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com$/;
+
+/**
+ * REST endpoints for email compliance:
+ * - GET/POST /email/unsubscribe?token=...   signed unsubscribe links; GET only asks for confirmation,
+ *                                           POST (the form or RFC 8058 one-click) unsubscribes
+ * - POST /email/events/sendgrid             SendGrid signed event webhook
+ * - POST /email/events/ses                  SES bounce/complaint notifications delivered by SNS
+ */
+export const handler = async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+  console.log('Email webhook request:', {
+    requestId: context.awsRequestId,
+    method: event.httpMethod,
+    resource: event.resource
+  });
+
+  try {
+    switch (event.resource) {
+      case '/email/unsubscribe':
+        return await handleUnsubscribe(event);
+
+      case '/email/events/sendgrid':
+        return await handleSendGridEvents(event);
+
+      case '/email/events/ses':
+        return await handleSesNotification(event, context);
+
+      default:
+        return createErrorResponse(404, 'Not found');
+    }
+  } catch (error) {
+    console.error('Email webhook error:', error);
+    return createErrorResponse(500, 'Internal server error');
+  }
+};
+
+function getRawBody(event: APIGatewayProxyEvent): string {
+  if (!event.body) {
+    return '';
+  }
+  return event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+}
+
+async function handleUnsubscribe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const token = event.queryStringParameters?.token;
+  const payload = token ? verifyUnsubscribeToken(token, await getEmailSigningKey(secretsHelper)) : null;
+
+  if (!payload) {
+    return createErrorResponse(400, 'Invalid unsubscribe link');
+  }
+
+  // Mail scanners prefetch links, so opening one only asks for confirmation;
+  // the form (or the mail client's one-click request) POSTs back to this URL
+  if (event.httpMethod !== 'POST') {
+    return htmlResponse(
+      'Unsubscribe',
+      '<form method="post"><p>Stop receiving these emails?</p><button type="submit" name="confirm" value="1">Unsubscribe</button></form>'
+    );
+  }
+
+  await suppressionList.suppress(payload.email, 'unsubscribe', 'link', { userId: payload.userId });
+
+  if (getRawBody(event).includes('List-Unsubscribe=One-Click')) {
+    return createSuccessResponse({ unsubscribed: true });
+  }
+  return htmlResponse('Unsubscribed', '<p>You have been unsubscribed and will no longer receive these emails.</p>');
+}
+
+function htmlResponse(title: string, body: string): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    body: `<!DOCTYPE html><html><head><title>${title}</title></head><body>${body}</body></html>`,
+  };
+}
+
+/**
+ * SendGrid signs `timestamp + body` with ECDSA; the public key from the
+ * SendGrid console is stored as `sendgrid_webhook_verification_key`.
+ */
+async function handleSendGridEvents(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const body = getRawBody(event);
+  const headers = lowerCaseHeaders(event.headers);
+  const signature = headers['x-twilio-email-event-webhook-signature'];
+  const timestamp = headers['x-twilio-email-event-webhook-timestamp'];
+
+  const secrets = await secretsHelper.getIntegrationsSecrets();
+  if (!secrets?.sendgrid_webhook_verification_key) {
+    console.error('sendgrid_webhook_verification_key is not configured');
+    return createErrorResponse(500, 'Webhook verification is not configured');
+  }
+
+  if (!signature || !timestamp || !verifySendGridSignature(secrets.sendgrid_webhook_verification_key, timestamp, body, signature)) {
+    return createErrorResponse(401, 'Invalid signature');
+  }
+
+  const events = parseJSON(body, []);
+  if (!Array.isArray(events)) {
+    return createErrorResponse(400, 'Expected an array of events');
+  }
+
+  let suppressed = 0;
+  for (const sendGridEvent of events) {
+    if (!sendGridEvent?.email) {
+      continue;
+    }
+
+    const details = {
+      event: sendGridEvent.event,
+      reason: sendGridEvent.reason,
+      providerMessageId: sendGridEvent.sg_message_id,
+      messageId: sendGridEvent.keyvex_message_id,
+    };
+
+    switch (sendGridEvent.event) {
+      case 'bounce':
+        // 'blocked' bounces are temporary (e.g. reputation); only hard bounces suppress
+        if (sendGridEvent.type !== 'blocked') {
+          await suppressionList.suppress(sendGridEvent.email, 'bounce', 'sendgrid', details);
+          suppressed++;
+        }
+        break;
+      case 'spamreport':
+        await suppressionList.suppress(sendGridEvent.email, 'complaint', 'sendgrid', details);
+        suppressed++;
+        break;
+      case 'unsubscribe':
+      case 'group_unsubscribe':
+        await suppressionList.suppress(sendGridEvent.email, 'unsubscribe', 'sendgrid', details);
+        suppressed++;
+        break;
+    }
+  }
+
+  return createSuccessResponse({ received: events.length, suppressed });
+}
+
+function verifySendGridSignature(publicKey: string, timestamp: string, body: string, signature: string): boolean {
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return verify('sha256', Buffer.from(timestamp + body), key, Buffer.from(signature, 'base64'));
+  } catch (error) {
+    console.warn('SendGrid signature verification failed:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+async function handleSesNotification(event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> {
+  const message = parseJSON(getRawBody(event));
+  if (!message?.Type || !message.TopicArn) {
+    return createErrorResponse(400, 'Expected an SNS message');
+  }
+
+  // Only accept topics owned by this account, otherwise anyone could publish
+  // validly signed notifications from their own topic
+  const accountId = context.invokedFunctionArn.split(':')[4];
+  if (message.TopicArn.split(':')[4] !== accountId || !(await verifySnsSignature(message))) {
+    return createErrorResponse(401, 'Invalid signature');
+  }
+
+  if (message.Type === 'SubscriptionConfirmation') {
+    const response = await fetch(message.SubscribeURL);
+    console.log('Confirmed SNS subscription:', { topicArn: message.TopicArn, status: response.status });
+    return createSuccessResponse({ confirmed: response.ok });
+  }
+
+  if (message.Type !== 'Notification') {
+    return createSuccessResponse({ ignored: message.Type });
+  }
+
+  const notification = parseJSON(message.Message, {});
+  const providerMessageId = notification.mail?.messageId;
+  let suppressed = 0;
+
+  if (notification.notificationType === 'Bounce' && notification.bounce?.bounceType === 'Permanent') {
+    for (const recipient of notification.bounce.bouncedRecipients || []) {
+      await suppressionList.suppress(recipient.emailAddress, 'bounce', 'ses', {
+        bounceSubType: notification.bounce.bounceSubType,
+        diagnosticCode: recipient.diagnosticCode,
+        providerMessageId,
+      });
+      suppressed++;
+    }
+  } else if (notification.notificationType === 'Complaint') {
+    for (const recipient of notification.complaint?.complainedRecipients || []) {
+      await suppressionList.suppress(recipient.emailAddress, 'complaint', 'ses', {
+        feedbackType: notification.complaint.complaintFeedbackType,
+        providerMessageId,
+      });
+      suppressed++;
+    }
+  }
+
+  return createSuccessResponse({ suppressed });
+}
+
+/**
+ * Verify an SNS message signature against the signing certificate, which
+ * must be served over HTTPS from an sns.<region>.amazonaws.com host.
+ */
+async function verifySnsSignature(message: Record<string, string>): Promise<boolean> {
+  let certUrl: URL;
+  try {
+    certUrl = new URL(message.SigningCertURL);
+  } catch {
+    return false;
+  }
+  if (certUrl.protocol !== 'https:' || !SNS_CERT_HOST.test(certUrl.hostname)) {
+    return false;
+  }
+
+  let certificate = snsCertificates.get(certUrl.href);
+  if (!certificate) {
+    const response = await fetch(certUrl.href);
+    if (!response.ok) {
+      return false;
+    }
+    certificate = await response.text();
+    snsCertificates.set(certUrl.href, certificate);
+  }
+
+  const fields = message.Type === 'Notification'
+    ? ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+    : ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+  const stringToSign = fields
+    .filter(field => message[field] !== undefined)
+    .map(field => `${field}\n${message[field]}\n`)
+    .join('');
+
+  try {
+    return createVerify(message.SignatureVersion === '2' ? 'RSA-SHA256' : 'RSA-SHA1')
+      .update(stringToSign)
+      .verify(certificate, message.Signature, 'base64');
+  } catch (error) {
+    console.warn('SNS signature verification failed:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+function lowerCaseHeaders(headers: APIGatewayProxyEvent['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.entries(headers || {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      result[key.toLowerCase()] = value;
+    }
+  });
+  return result;
+}
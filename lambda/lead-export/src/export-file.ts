@@ -0,0 +1,275 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CompletedPart,
+  CreateMultipartUploadCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { generateId, getEnvironment } from '../shared/utils';
+import { LeadExportItem, LeadItem } from '../shared/types';
+
+const env = getEnvironment();
+const s3Client = new S3Client({ region: env.AWS_REGION });
+
+export type ExportFormat = LeadExportItem['format'];
+
+export type LeadExportFilters = LeadExportItem['filters'];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// S3's minimum size for every multipart upload part but the last
+const UPLOAD_PART_BYTES = 5 * 1024 * 1024;
+const DOWNLOAD_LINK_EXPIRY_SECONDS = 60 * 60;
+
+const LEAD_COLUMNS = [
+  'leadId',
+  'email',
+  'name',
+  'company',
+  'phone',
+  'score',
+  'resultCategory',
+  'submissionCount',
+  'createdAt',
+  'lastSubmittedAt',
+  'referrer',
+  'userAgent',
+];
+
+// Always present so spreadsheets built on an export keep working
+const UTM_COLUMNS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+export function exportFileName(toolId: string, format: ExportFormat, date: Date = new Date()): string {
+  return `leads-${toolId}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function matchesFilters(lead: LeadItem, filters: LeadExportFilters): boolean {
+  if (filters.from !== undefined && lead.createdAt < filters.from) return false;
+  if (filters.to !== undefined && lead.createdAt > filters.to) return false;
+  if (filters.resultCategory !== undefined && lead.resultCategory !== filters.resultCategory) return false;
+  if (filters.minScore !== undefined && (lead.score === undefined || lead.score < filters.minScore)) return false;
+  if (filters.maxScore !== undefined && (lead.score === undefined || lead.score > filters.maxScore)) return false;
+  return true;
+}
+
+function formatResponseValue(value: any): string | number | boolean | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join('; ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * One flat record per lead; `responses` become `response.{questionId}` columns.
+ * Responses may be stored as `{ [questionId]: answer }` or `[{ questionId, answer }]`.
+ */
+export function flattenLead(lead: LeadItem): Record<string, any> {
+  const row: Record<string, any> = {
+    leadId: lead.leadId,
+    email: lead.email,
+    name: lead.name,
+    company: lead.company,
+    phone: lead.phone,
+    score: lead.score,
+    resultCategory: lead.resultCategory,
+    submissionCount: lead.submissionCount ?? 1,
+    createdAt: new Date(lead.createdAt).toISOString(),
+    lastSubmittedAt: lead.lastSubmittedAt ? new Date(lead.lastSubmittedAt).toISOString() : undefined,
+    referrer: lead.source?.referrer,
+    userAgent: lead.source?.userAgent,
+    ...lead.source?.utm,
+  };
+
+  const responses: Array<[string | undefined, any]> = Array.isArray(lead.responses)
+    ? lead.responses.map((response: any) => [response?.questionId, response?.answer ?? response?.value])
+    : Object.entries(lead.responses || {});
+
+  responses.forEach(([questionId, answer]) => {
+    if (questionId !== undefined) {
+      row[`response.${questionId}`] = formatResponseValue(answer);
+    }
+  });
+
+  return row;
+}
+
+/**
+ * Collects the columns of the rows it is shown. The layout depends on every
+ * row's responses, so it is only known once all rows have been seen: fixed
+ * lead columns, then UTM columns, then one column per question id (sorted),
+ * so the same data always exports in the same layout.
+ */
+export class ExportColumns {
+  private extraUtm = new Set<string>();
+  private responseColumns = new Set<string>();
+
+  add(row: Record<string, any>): void {
+    Object.keys(row).forEach((column) => {
+      if (column.startsWith('utm_') && !UTM_COLUMNS.includes(column)) {
+        this.extraUtm.add(column);
+      } else if (column.startsWith('response.')) {
+        this.responseColumns.add(column);
+      }
+    });
+  }
+
+  list(): string[] {
+    return [...LEAD_COLUMNS, ...UTM_COLUMNS, ...[...this.extraUtm].sort(), ...[...this.responseColumns].sort()];
+  }
+}
+
+function csvCell(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Stop spreadsheets from evaluating submitted values as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: any[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+export function headerLine(format: ExportFormat, columns: string[]): string {
+  return format === 'csv' ? csvLine(columns) : '';
+}
+
+export function rowLine(format: ExportFormat, columns: string[], row: Record<string, any>): string {
+  if (format === 'csv') {
+    return csvLine(columns.map(column => row[column]));
+  }
+
+  const ordered: Record<string, any> = {};
+  columns.forEach((column) => {
+    ordered[column] = row[column] ?? null;
+  });
+  return `${JSON.stringify(ordered)}\n`;
+}
+
+/**
+ * Writes an export to the tool-assets bucket as it is produced. Data is
+ * buffered until it fills a multipart upload part, so only one part is held
+ * in memory; an export that never fills one is written with a single put.
+ */
+export class ExportUpload {
+  // Objects under exports/leads/ expire via a bucket lifecycle rule
+  readonly key: `exports/leads/${string}`;
+  private chunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private uploadId?: string;
+  private parts: CompletedPart[] = [];
+
+  constructor(toolId: string, private format: ExportFormat) {
+    if (!env.TOOL_ASSETS_BUCKET_NAME) {
+      throw new Error('TOOL_ASSETS_BUCKET_NAME not configured');
+    }
+    this.key = `exports/leads/${toolId}/${generateId()}.${format}`;
+  }
+
+  async write(text: string): Promise<void> {
+    if (!text) {
+      return;
+    }
+    const chunk = Buffer.from(text);
+    this.chunks.push(chunk);
+    this.bufferedBytes += chunk.length;
+
+    if (this.bufferedBytes >= UPLOAD_PART_BYTES) {
+      await this.uploadPart();
+    }
+  }
+
+  async complete(): Promise<void> {
+    if (!this.uploadId) {
+      await s3Client.send(new PutObjectCommand({
+        Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+        Key: this.key,
+        Body: Buffer.concat(this.chunks),
+        ContentType: CONTENT_TYPES[this.format],
+      }));
+      return;
+    }
+
+    if (this.bufferedBytes > 0) {
+      await this.uploadPart();
+    }
+    await s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+      Key: this.key,
+      UploadId: this.uploadId,
+      MultipartUpload: { Parts: this.parts },
+    }));
+  }
+
+  // Incomplete uploads left behind by a failed abort are removed by a bucket lifecycle rule
+  async abort(): Promise<void> {
+    if (!this.uploadId) {
+      return;
+    }
+    try {
+      await s3Client.send(new AbortMultipartUploadCommand({
+        Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+        Key: this.key,
+        UploadId: this.uploadId,
+      }));
+    } catch (error) {
+      console.error('Failed to abort lead export upload:', { key: this.key, error });
+    }
+  }
+
+  private async uploadPart(): Promise<void> {
+    if (!this.uploadId) {
+      const created = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+        Key: this.key,
+        ContentType: CONTENT_TYPES[this.format],
+      }));
+      this.uploadId = created.UploadId;
+    }
+
+    const partNumber = this.parts.length + 1;
+    const body = Buffer.concat(this.chunks);
+    this.chunks = [];
+    this.bufferedBytes = 0;
+
+    const uploaded = await s3Client.send(new UploadPartCommand({
+      Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+      Key: this.key,
+      UploadId: this.uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    }));
+    this.parts.push({ PartNumber: partNumber, ETag: uploaded.ETag });
+  }
+}
+
+export async function downloadLink(key: string, fileName: string): Promise<{ downloadUrl: string; expiresAt: number }> {
+  const downloadUrl = await getSignedUrl(
+    s3Client,
+    new GetObjectCommand({
+      Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+      Key: key,
+      ResponseContentDisposition: `attachment; filename="${fileName}"`,
+    }),
+    { expiresIn: DOWNLOAD_LINK_EXPIRY_SECONDS }
+  );
+
+  return { downloadUrl, expiresAt: Date.now() + DOWNLOAD_LINK_EXPIRY_SECONDS * 1000 };
+}
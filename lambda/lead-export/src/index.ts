@@ -0,0 +1,241 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  DynamoDBHelper,
+  SQSHelper,
+  createErrorResponse,
+  createResponse,
+  createSuccessResponse,
+  generateId,
+  getEnvironment,
+  getTTL
+} from '../shared/utils';
+import { LeadExportItem, ToolItem } from '../shared/types';
+import { LeadExportRepository, LeadRepository, ToolRepository } from '../shared/repositories';
+import {
+  CONTENT_TYPES,
+  ExportColumns,
+  ExportFormat,
+  LeadExportFilters,
+  downloadLink,
+  exportFileName,
+  flattenLead,
+  headerLine,
+  matchesFilters,
+  rowLine
+} from './export-file';
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const sqsHelper = new SQSHelper();
+const tools = new ToolRepository(dynamoHelper);
+const toolLeads = new LeadRepository(dynamoHelper);
+const leadExports = new LeadExportRepository(dynamoHelper);
+
+// Lambda responses are capped at 6 MB; anything bigger is built by the worker
+const INLINE_EXPORT_MAX_BYTES = 5 * 1024 * 1024;
+// Export items go with their files, which the bucket expires after 7 days
+const EXPORT_TTL_DAYS = 7;
+
+class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * GET /tools/{toolId}/leads/export?userId=...&format=csv|ndjson
+ *   &from=&to=           createdAt range, epoch ms or ISO date (inclusive)
+ *   &minScore=&maxScore= score range (inclusive)
+ *   &resultCategory=     exact match
+ *
+ * Rows are in lead id order. Small exports are returned as the response
+ * body. Exports over INLINE_EXPORT_MAX_BYTES are queued for the lead export
+ * worker (worker.ts) and answered with 202 and an `exportId`; poll
+ * GET /tools/{toolId}/leads/export/{exportId}?userId=... for the download link.
+ */
+export const handler = async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+  const toolId = event.pathParameters?.toolId;
+  const exportId = event.pathParameters?.exportId;
+  const params = event.queryStringParameters || {};
+
+  console.log('Lead export request:', {
+    requestId: context.awsRequestId,
+    toolId,
+    exportId,
+    format: params.format
+  });
+
+  try {
+    if (!toolId || !params.userId) {
+      return createErrorResponse(400, 'toolId and userId are required');
+    }
+
+    const tool = await tools.get(toolId);
+    if (!tool || tool.userId !== params.userId) {
+      return createErrorResponse(404, 'Tool not found');
+    }
+
+    if (exportId) {
+      return await exportStatus(toolId, exportId);
+    }
+    return await startExport(tool, parseFormat(params.format), parseFilters(params), context);
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return createErrorResponse(400, error.message);
+    }
+    console.error('Lead export error:', error);
+    return createErrorResponse(500, 'Internal server error');
+  }
+};
+
+async function startExport(
+  tool: ToolItem,
+  format: ExportFormat,
+  filters: LeadExportFilters,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  const fileName = exportFileName(tool.toolId, format);
+
+  const inline = await readInline(tool.toolId, filters);
+  if (inline) {
+    const body = [headerLine(format, inline.columns), ...inline.rows.map(row => rowLine(format, inline.columns, row))].join('');
+    if (Buffer.byteLength(body) <= INLINE_EXPORT_MAX_BYTES) {
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'X-Lead-Count': String(inline.rows.length),
+        },
+        body,
+      };
+    }
+  }
+
+  const leadExport = await leadExports.create({
+    exportId: generateId(),
+    toolId: tool.toolId,
+    userId: tool.userId,
+    format,
+    filters,
+    status: 'pending',
+    fileName,
+    ttl: getTTL(EXPORT_TTL_DAYS),
+  });
+  await sqsHelper.sendLeadExportMessage(
+    {
+      messageType: 'LEAD_EXPORT',
+      exportId: leadExport.exportId,
+      toolId: leadExport.toolId,
+      timestamp: leadExport.createdAt,
+    },
+    { correlationId: context.awsRequestId, userId: tool.userId }
+  );
+
+  console.log('Lead export queued:', { toolId: tool.toolId, exportId: leadExport.exportId });
+  return createResponse(202, { success: true, data: exportView(leadExport) });
+}
+
+async function exportStatus(toolId: string, exportId: string): Promise<APIGatewayProxyResult> {
+  const leadExport = await leadExports.get(toolId, exportId);
+  if (!leadExport) {
+    return createErrorResponse(404, 'Export not found');
+  }
+
+  // A fresh link on every request, so a client that comes back late still gets one
+  const download = leadExport.status === 'completed' && leadExport.objectKey
+    ? await downloadLink(leadExport.objectKey, leadExport.fileName)
+    : {};
+  return createSuccessResponse({ ...exportView(leadExport), ...download });
+}
+
+function exportView(leadExport: LeadExportItem) {
+  return {
+    exportId: leadExport.exportId,
+    format: leadExport.format,
+    status: leadExport.status,
+    rowCount: leadExport.rowCount,
+    error: leadExport.error,
+  };
+}
+
+function parseFormat(value?: string): ExportFormat {
+  const format = (value || 'csv').toLowerCase();
+  if (format !== 'csv' && format !== 'ndjson') {
+    throw new BadRequestError(`Unsupported format "${value}"; use csv or ndjson`);
+  }
+  return format;
+}
+
+function parseTimestamp(name: string, value?: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp) || timestamp < 0) {
+    throw new BadRequestError(`${name} must be an epoch millisecond timestamp or ISO date`);
+  }
+  return timestamp;
+}
+
+function parseNumber(name: string, value?: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new BadRequestError(`${name} must be a number`);
+  }
+  return number;
+}
+
+function parseFilters(params: Record<string, string | undefined>): LeadExportFilters {
+  const filters: LeadExportFilters = {
+    from: parseTimestamp('from', params.from),
+    to: parseTimestamp('to', params.to),
+    minScore: parseNumber('minScore', params.minScore),
+    maxScore: parseNumber('maxScore', params.maxScore),
+    resultCategory: params.resultCategory || undefined,
+  };
+
+  if (filters.from !== undefined && filters.to !== undefined && filters.to < filters.from) {
+    throw new BadRequestError('to must not be before from');
+  }
+  return filters;
+}
+
+interface InlineExport {
+  columns: string[];
+  rows: Array<Record<string, any>>;
+}
+
+/**
+ * The matching leads, flattened, while they could still be returned inline.
+ * Reading stops as soon as they outgrow that, so a large export costs this
+ * request at most INLINE_EXPORT_MAX_BYTES of reads before it is queued.
+ */
+async function readInline(toolId: string, filters: LeadExportFilters): Promise<InlineExport | undefined> {
+  const columns = new ExportColumns();
+  const rows: Array<Record<string, any>> = [];
+  // JSON length of the rows, close to their NDJSON size and above their CSV size
+  let estimatedBytes = 0;
+
+  for await (const page of toolLeads.pagesByTool(toolId)) {
+    for (const lead of page) {
+      if (!matchesFilters(lead, filters)) {
+        continue;
+      }
+
+      const row = flattenLead(lead);
+      columns.add(row);
+      rows.push(row);
+      estimatedBytes += JSON.stringify(row).length;
+      if (estimatedBytes > INLINE_EXPORT_MAX_BYTES) {
+        return undefined;
+      }
+    }
+  }
+
+  return { columns: columns.list(), rows };
+}
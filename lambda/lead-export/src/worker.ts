@@ -0,0 +1,149 @@
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
+import { createReadStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { DynamoDBHelper, SQSHelper, getEnvironment } from '../shared/utils';
+import { LeadExportItem } from '../shared/types';
+import { SchemaValidationError } from '../shared/schema';
+import { leadExportMessageSchema } from '../shared/message-schemas';
+import { readMessage } from '../shared/message-envelope';
+import { LeadExportRepository, LeadRepository } from '../shared/repositories';
+import { ExportColumns, ExportUpload, flattenLead, headerLine, matchesFilters, rowLine } from './export-file';
+
+// The lead export queue's maxReceiveCount; the last attempt marks the export failed
+const MAX_RECEIVE_COUNT = 3;
+
+type ExportStatus = 'completed' | 'skipped';
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const sqsHelper = new SQSHelper();
+const toolLeads = new LeadRepository(dynamoHelper);
+const leadExports = new LeadExportRepository(dynamoHelper);
+
+/**
+ * Builds the exports the lead export API queued because they were too large
+ * to return inline, and records where each file is on its LeadExportItem
+ */
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  console.log('Lead Export Worker started', {
+    requestId: context.awsRequestId,
+    messageCount: event.Records.length
+  });
+
+  const results = [];
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      const status = await processExportMessage(record);
+      results.push({ messageId: record.messageId, status });
+    } catch (error) {
+      // Retrying cannot fix a malformed message
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
+      console.error('Failed to build lead export:', {
+        messageId: record.messageId,
+        error: error instanceof Error ? error.message : error
+      });
+      results.push({
+        messageId: record.messageId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  console.log('Lead Export Worker completed', {
+    requestId: context.awsRequestId,
+    results
+  });
+
+  return { batchItemFailures };
+};
+
+async function processExportMessage(record: SQSRecord): Promise<ExportStatus> {
+  const message = readMessage(record, leadExportMessageSchema, 'LeadExportMessage');
+  console.log('Building lead export:', {
+    exportId: message.exportId,
+    toolId: message.toolId,
+    correlationId: message.envelope.correlationId
+  });
+
+  const leadExport = await leadExports.get(message.toolId, message.exportId);
+  if (leadExport?.status !== 'pending') {
+    console.log('Lead export missing or already finished:', message.exportId);
+    return 'skipped';
+  }
+
+  try {
+    const { objectKey, rowCount } = await buildExport(leadExport);
+    await leadExports.update(leadExport.toolId, leadExport.exportId, {
+      status: 'completed',
+      objectKey,
+      rowCount,
+      completedAt: Date.now(),
+    });
+    return 'completed';
+  } catch (error) {
+    // Otherwise the client would poll an export that stays pending forever
+    if ((Number(record.attributes.ApproximateReceiveCount) || 1) >= MAX_RECEIVE_COUNT) {
+      await leadExports.update(leadExport.toolId, leadExport.exportId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the matching leads once. The column layout depends on every lead's
+ * responses, so the flattened rows are spooled to local disk, one JSON line
+ * each, until all of them have been seen, then uploaded under the header.
+ */
+async function buildExport(leadExport: LeadExportItem): Promise<{ objectKey: ExportUpload['key']; rowCount: number }> {
+  const spoolPath = path.join(tmpdir(), `lead-export-${leadExport.exportId}.jsonl`);
+  const columns = new ExportColumns();
+  let rowCount = 0;
+
+  try {
+    const spool = await fs.open(spoolPath, 'w');
+    try {
+      for await (const page of toolLeads.pagesByTool(leadExport.toolId)) {
+        const lines = page.filter(lead => matchesFilters(lead, leadExport.filters)).map((lead) => {
+          const row = flattenLead(lead);
+          columns.add(row);
+          return `${JSON.stringify(row)}\n`;
+        });
+        await spool.write(lines.join(''));
+        rowCount += lines.length;
+      }
+    } finally {
+      await spool.close();
+    }
+
+    const layout = columns.list();
+    const upload = new ExportUpload(leadExport.toolId, leadExport.format);
+    try {
+      await upload.write(headerLine(leadExport.format, layout));
+      const rows = createInterface({ input: createReadStream(spoolPath), crlfDelay: Infinity });
+      for await (const line of rows) {
+        await upload.write(rowLine(leadExport.format, layout, JSON.parse(line)));
+      }
+      await upload.complete();
+    } catch (error) {
+      await upload.abort();
+      throw error;
+    }
+
+    return { objectKey: upload.key, rowCount };
+  } finally {
+    // /tmp outlives the invocation
+    await fs.rm(spoolPath, { force: true });
+  }
+}
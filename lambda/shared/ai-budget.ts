@@ -0,0 +1,175 @@
+import { UsageCounterItem, UserItem } from './types';
+import { DynamoDBHelper, getTTL } from './utils';
+import { parseModelId } from './ai-providers';
+import { AlertRepository, keys } from './repositories';
+
+export interface TierBudget {
+  // Above this monthly spend (USD) requests are downgraded to a cheaper model
+  monthlySoftLimit: number;
+  // At or above this monthly spend (USD) requests are rejected
+  monthlyHardLimit: number;
+}
+
+export const TIER_BUDGETS: Record<string, TierBudget> = {
+  free: { monthlySoftLimit: 1, monthlyHardLimit: 2 },
+  starter: { monthlySoftLimit: 10, monthlyHardLimit: 15 },
+  pro: { monthlySoftLimit: 50, monthlyHardLimit: 75 },
+  enterprise: { monthlySoftLimit: 500, monthlyHardLimit: 1000 },
+};
+
+const DEFAULT_TIER = 'free';
+
+// Cheaper model per provider used once a user passes their soft limit
+export const DOWNGRADE_MODELS: Record<string, string> = {
+  openai: 'openai:gpt-4o-mini',
+  anthropic: 'anthropic:claude-3-5-haiku-20241022',
+};
+
+const ALERT_TTL_DAYS = 90;
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly tier: string,
+    public readonly monthlySpend: number,
+    public readonly limit: number
+  ) {
+    super(`Monthly AI budget of $${limit.toFixed(2)} for the ${tier} plan has been reached`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface BudgetDecision {
+  action: 'allow' | 'downgrade';
+  modelId: string;
+  tier: string;
+  monthlySpend: number;
+  budget: TierBudget;
+}
+
+export function getTierBudget(tier?: string): TierBudget {
+  return TIER_BUDGETS[tier || DEFAULT_TIER] || TIER_BUDGETS[DEFAULT_TIER];
+}
+
+export function getBudgetPeriod(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+/**
+ * Enforces per-user monthly AI spending limits based on subscription tier.
+ * Spend is tracked in a `USER#{userId}` / `USAGE#{YYYY-MM}` counter item and
+ * on the session's `sessionData.totalCost`.
+ */
+export class AIBudgetGuard {
+  private dynamoHelper: DynamoDBHelper;
+  private alerts: AlertRepository;
+
+  constructor(dynamoHelper?: DynamoDBHelper) {
+    this.dynamoHelper = dynamoHelper || new DynamoDBHelper();
+    this.alerts = new AlertRepository(this.dynamoHelper);
+  }
+
+  /**
+   * Decide whether a request may run, and on which model.
+   * Throws BudgetExceededError when the user is at or above their hard limit.
+   */
+  async check(userId: string, user: UserItem | null, modelId: string): Promise<BudgetDecision> {
+    const tier = user?.subscriptionTier || DEFAULT_TIER;
+    const budget = getTierBudget(tier);
+    const period = getBudgetPeriod();
+    const usage = await this.dynamoHelper.getItem<UsageCounterItem>(`USER#${userId}`, `USAGE#${period}`);
+    const monthlySpend = usage?.totalCost || 0;
+
+    if (monthlySpend >= budget.monthlyHardLimit) {
+      await this.raiseAlert(userId, period, 'hard', monthlySpend, budget.monthlyHardLimit, tier);
+      throw new BudgetExceededError(userId, tier, monthlySpend, budget.monthlyHardLimit);
+    }
+
+    if (monthlySpend >= budget.monthlySoftLimit) {
+      const { provider } = parseModelId(modelId);
+      return {
+        action: 'downgrade',
+        modelId: DOWNGRADE_MODELS[provider] || modelId,
+        tier,
+        monthlySpend,
+        budget,
+      };
+    }
+
+    return { action: 'allow', modelId, tier, monthlySpend, budget };
+  }
+
+  /**
+   * Add the cost of a completed call to the monthly counter and the session,
+   * raising a cost alert when this call pushes the user over a threshold.
+   */
+  async recordUsage(userId: string, sessionId: string, cost: number, decision: BudgetDecision): Promise<void> {
+    const period = getBudgetPeriod();
+    const usage = await this.dynamoHelper.incrementItem<UsageCounterItem>(
+      `USER#${userId}`,
+      `USAGE#${period}`,
+      { totalCost: cost, requestCount: 1 },
+      { entityType: 'USAGE', userId, period, metadata: {}, version: 0 }
+    );
+
+    try {
+      // Only existing sessions are updated; the condition stops us creating a stray item
+      const session = keys.session(sessionId);
+      await this.dynamoHelper.incrementItem(
+        session.PK,
+        session.SK,
+        { 'sessionData.totalCost': cost },
+        {},
+        'attribute_exists(sessionData)'
+      );
+    } catch (error) {
+      console.error('Failed to add cost to session:', {
+        sessionId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
+    const before = usage.totalCost - cost;
+    const { budget, tier } = decision;
+
+    if (before < budget.monthlyHardLimit && usage.totalCost >= budget.monthlyHardLimit) {
+      await this.raiseAlert(userId, period, 'hard', usage.totalCost, budget.monthlyHardLimit, tier);
+    } else if (before < budget.monthlySoftLimit && usage.totalCost >= budget.monthlySoftLimit) {
+      await this.raiseAlert(userId, period, 'soft', usage.totalCost, budget.monthlySoftLimit, tier);
+    }
+  }
+
+  /**
+   * Write a cost AlertItem. The id is deterministic per user, period and
+   * threshold so each limit alerts at most once a month.
+   */
+  private async raiseAlert(
+    userId: string,
+    period: string,
+    threshold: 'soft' | 'hard',
+    monthlySpend: number,
+    limit: number,
+    tier: string
+  ): Promise<void> {
+    const timestamp = Date.now();
+    const alertId = `cost-${threshold}-${userId}-${period}`;
+    const severity = threshold === 'hard' ? 'high' : 'medium';
+
+    try {
+      await this.alerts.create({
+        alertId,
+        type: 'cost',
+        severity,
+        message: threshold === 'hard'
+          ? `User ${userId} reached the ${tier} hard limit of $${limit.toFixed(2)} for ${period}`
+          : `User ${userId} passed the ${tier} soft limit of $${limit.toFixed(2)} for ${period}; requests are being downgraded`,
+        timestamp,
+        resolved: false,
+        data: { userId, period, threshold, tier, monthlySpend, limit },
+        ttl: getTTL(ALERT_TTL_DAYS),
+      });
+    } catch (error: any) {
+      console.error('Failed to write cost alert:', { alertId, error: error?.message || error });
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { AICompletionResult, AIProviderName } from './types';
+import { DynamoDBHelper, getTTL } from './utils';
+import { parseModelId } from './ai-providers';
+import { MetricRepository } from './repositories';
+
+export const AI_METRICS_NAMESPACE = 'Keyvex/AI';
+const METRIC_TTL_DAYS = 90;
+
+// USD per million tokens. Keys are model id prefixes; the longest match wins
+// so dated snapshots (e.g. gpt-4o-2024-08-06) inherit their family's price.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1-mini': { input: 3, output: 12 },
+  'o1': { input: 15, output: 60 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+export function getModelPricing(model: string): { input: number; output: number } | null {
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+}
+
+/**
+ * Cost in USD of a single call
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    console.warn(`No pricing configured for model ${model}, recording zero cost`);
+    return 0;
+  }
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+export interface AICallContext {
+  requestId: string;
+  userId: string;
+  process: string;
+  // Ties the call to the request it served, across queues and logs
+  correlationId?: string;
+}
+
+export interface AIMetricRecord extends AICallContext {
+  provider: AIProviderName | string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latency: number;
+  success: boolean;
+  error?: string;
+}
+
+export type MeteredCompletionResult = AICompletionResult & { cost: number };
+
+/**
+ * Records every AI call as an AIMetricItem and publishes the Keyvex/AI
+ * CloudWatch metrics (TotalCost, AverageLatency, ...) via Embedded Metric Format.
+ */
+export class AIMetricsRecorder {
+  private metrics: MetricRepository;
+
+  constructor(dynamoHelper?: DynamoDBHelper) {
+    this.metrics = new MetricRepository(dynamoHelper);
+  }
+
+  /**
+   * Run an AI call and record its usage, cost and latency whether it succeeds or fails
+   */
+  async track(
+    context: AICallContext,
+    modelId: string,
+    call: () => Promise<AICompletionResult>
+  ): Promise<MeteredCompletionResult> {
+    const startTime = Date.now();
+
+    try {
+      const result = await call();
+      const cost = await this.record({
+        ...context,
+        provider: result.provider,
+        model: result.model,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        latency: result.latency,
+        success: true,
+      });
+      return { ...result, cost };
+    } catch (error) {
+      const { provider, model } = parseModelId(modelId);
+      await this.record({
+        ...context,
+        provider,
+        model,
+        inputTokens: 0,
+        outputTokens: 0,
+        latency: Date.now() - startTime,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Persist and publish a single call. Returns the computed cost.
+   * Recording failures are logged rather than failing the AI request.
+   */
+  async record(record: AIMetricRecord): Promise<number> {
+    const timestamp = Date.now();
+    const cost = calculateCost(record.model, record.inputTokens, record.outputTokens);
+
+    this.emitEmbeddedMetrics(record, cost, timestamp);
+
+    try {
+      await this.metrics.create({
+        requestId: record.requestId,
+        userId: record.userId,
+        process: record.process,
+        provider: record.provider,
+        model: record.model,
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens,
+        cost,
+        latency: record.latency,
+        success: record.success,
+        error: record.error,
+        correlationId: record.correlationId,
+        timestamp,
+        ttl: getTTL(METRIC_TTL_DAYS),
+      });
+    } catch (error) {
+      console.error('Failed to store AI metric:', {
+        requestId: record.requestId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
+    return cost;
+  }
+
+  /**
+   * Write a CloudWatch Embedded Metric Format log line. The empty dimension set
+   * publishes the undimensioned series the MonitoringStack alarms watch.
+   */
+  private emitEmbeddedMetrics(record: AIMetricRecord, cost: number, timestamp: number): void {
+    console.log(JSON.stringify({
+      _aws: {
+        Timestamp: timestamp,
+        CloudWatchMetrics: [
+          {
+            Namespace: AI_METRICS_NAMESPACE,
+            Dimensions: [['Process', 'Provider', 'Model'], ['Process'], []],
+            Metrics: [
+              { Name: 'TotalCost', Unit: 'None' },
+              { Name: 'AverageLatency', Unit: 'Milliseconds' },
+              { Name: 'InputTokens', Unit: 'Count' },
+              { Name: 'OutputTokens', Unit: 'Count' },
+              { Name: 'Requests', Unit: 'Count' },
+              { Name: 'Errors', Unit: 'Count' },
+            ],
+          },
+        ],
+      },
+      Process: record.process,
+      Provider: record.provider,
+      Model: record.model,
+      TotalCost: cost,
+      AverageLatency: record.latency,
+      InputTokens: record.inputTokens,
+      OutputTokens: record.outputTokens,
+      Requests: 1,
+      Errors: record.success ? 0 : 1,
+      requestId: record.requestId,
+      userId: record.userId,
+      correlationId: record.correlationId,
+    }));
+  }
+}
@@ -0,0 +1,467 @@
+import {
+  AIProcessName,
+  AIProviderName,
+  AICompletionRequest,
+  AICompletionResult,
+  UserItem,
+} from './types';
+import { SecretsHelper, getEnvironment } from './utils';
+
+// Models used when a user has no preference configured for a process
+export const DEFAULT_PROCESS_MODELS: Record<AIProcessName, string> = {
+  magicSpark: 'gpt-4o',
+  logicArchitect: 'claude-3-5-sonnet-20241022',
+  contentCrafter: 'gpt-4o',
+  styleMaster: 'gpt-4o-mini',
+};
+
+// System prompts for each step of the tool-building pipeline
+export const PROCESS_SYSTEM_PROMPTS: Record<AIProcessName, string> = {
+  magicSpark: 'You are Magic Spark, a creative strategist who turns a business idea into a concise, compelling concept for an interactive lead-generation tool (calculator, quiz or assessment).',
+  logicArchitect: 'You are Logic Architect. Design the inputs, calculation or scoring logic and result categories for the requested interactive tool. Be precise and respond with structured output.',
+  contentCrafter: 'You are Content Crafter. Write clear, persuasive copy for the interactive tool: titles, descriptions, question wording and result explanations.',
+  styleMaster: 'You are Style Master. Propose a cohesive visual style for the interactive tool: colour palette, typography and layout guidance.',
+};
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Covers the whole response, streamed body included, so a provider that stops
+// responding fails the attempt instead of holding the message until the Lambda
+// times out
+const PROVIDER_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProviderName,
+    public readonly statusCode?: number,
+    public readonly retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+/**
+ * Resolve the provider for a model id. Accepts either an explicit
+ * `provider:model` pair or a bare model id (claude-* maps to Anthropic).
+ */
+export function parseModelId(modelId: string): { provider: AIProviderName; model: string } {
+  const separatorIndex = modelId.indexOf(':');
+  if (separatorIndex > 0) {
+    const provider = modelId.slice(0, separatorIndex);
+    if (provider === 'openai' || provider === 'anthropic') {
+      return { provider, model: modelId.slice(separatorIndex + 1) };
+    }
+  }
+
+  return {
+    provider: modelId.startsWith('claude') ? 'anthropic' : 'openai',
+    model: modelId,
+  };
+}
+
+/**
+ * Pick the model for a process from the user's preferences, falling back to the platform default
+ */
+export function selectModel(process: AIProcessName, user?: UserItem | null): string {
+  return user?.preferences?.defaultModels?.[process] || DEFAULT_PROCESS_MODELS[process];
+}
+
+export type AIDeltaHandler = (delta: string) => void | Promise<void>;
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  complete(request: AICompletionRequest): Promise<AICompletionResult>;
+  stream(request: AICompletionRequest, onDelta: AIDeltaHandler): Promise<AICompletionResult>;
+}
+
+// Network errors and timeouts, including those hit while reading the body
+function requestFailed(provider: AIProviderName, error: any, timeoutMs: number): AIProviderError {
+  return new AIProviderError(
+    error?.name === 'TimeoutError'
+      ? `${provider} did not respond within ${timeoutMs}ms`
+      : `${provider} request failed: ${error?.message || error}`,
+    provider,
+    undefined,
+    true
+  );
+}
+
+async function sendRequest(
+  provider: AIProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: any,
+  timeoutMs: number
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw requestFailed(provider, error, timeoutMs);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new AIProviderError(
+      `${provider} responded with ${response.status}: ${text.slice(0, 500)}`,
+      provider,
+      response.status,
+      response.status === 429 || response.status >= 500
+    );
+  }
+
+  return response;
+}
+
+async function postJSON(
+  provider: AIProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: any,
+  timeoutMs: number
+): Promise<any> {
+  const response = await sendRequest(provider, url, headers, body, timeoutMs);
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (error) {
+    throw requestFailed(provider, error, timeoutMs);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AIProviderError(`${provider} returned invalid JSON`, provider, response.status);
+  }
+}
+
+/**
+ * Parse a text/event-stream response body into `{ event, data }` records
+ */
+async function* readServerSentEvents(
+  provider: AIProviderName,
+  response: Response,
+  timeoutMs: number
+): AsyncGenerator<{ event?: string; data: string }> {
+  if (!response.body) {
+    throw new AIProviderError(`${provider} returned an empty stream`, provider, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string) => {
+    let event: string | undefined;
+    const dataLines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+  };
+
+  while (true) {
+    let result: Awaited<ReturnType<typeof reader.read>>;
+    try {
+      result = await reader.read();
+    } catch (error) {
+      throw requestFailed(provider, error, timeoutMs);
+    }
+    const { done, value } = result;
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      const parsed = parseBlock(block);
+      if (parsed) yield parsed;
+    }
+  }
+
+  const parsed = parseBlock(buffer + decoder.decode());
+  if (parsed) yield parsed;
+}
+
+function parseStreamData(provider: AIProviderName, data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new AIProviderError(`${provider} sent an invalid stream event`, provider);
+  }
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://api.openai.com',
+    private organization?: string,
+    private timeoutMs: number = PROVIDER_REQUEST_TIMEOUT_MS
+  ) {}
+
+  private get headers(): Record<string, string> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.apiKey}` };
+    if (this.organization) {
+      headers['OpenAI-Organization'] = this.organization;
+    }
+    return headers;
+  }
+
+  private buildBody(request: AICompletionRequest): any {
+    return {
+      model: request.model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages,
+      ],
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const startTime = Date.now();
+    const data = await postJSON(this.name, `${this.baseUrl}/v1/chat/completions`, this.headers, this.buildBody(request), this.timeoutMs);
+
+    const choice = data.choices?.[0];
+    return {
+      provider: this.name,
+      model: data.model || request.model,
+      content: choice?.message?.content || '',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+      },
+      finishReason: choice?.finish_reason,
+      latency: Date.now() - startTime,
+    };
+  }
+
+  async stream(request: AICompletionRequest, onDelta: AIDeltaHandler): Promise<AICompletionResult> {
+    const startTime = Date.now();
+    const response = await sendRequest(this.name, `${this.baseUrl}/v1/chat/completions`, this.headers, {
+      ...this.buildBody(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, this.timeoutMs);
+
+    let model = request.model;
+    let content = '';
+    let finishReason: string | undefined;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const { data } of readServerSentEvents(this.name, response, this.timeoutMs)) {
+      if (data === '[DONE]') break;
+
+      const chunk = parseStreamData(this.name, data);
+      model = chunk.model || model;
+
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        await onDelta(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens || 0,
+          outputTokens: chunk.usage.completion_tokens || 0,
+        };
+      }
+    }
+
+    return {
+      provider: this.name,
+      model,
+      content,
+      usage,
+      finishReason,
+      latency: Date.now() - startTime,
+    };
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://api.anthropic.com',
+    private timeoutMs: number = PROVIDER_REQUEST_TIMEOUT_MS
+  ) {}
+
+  private get headers(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+    };
+  }
+
+  private buildBody(request: AICompletionRequest): any {
+    return {
+      model: request.model,
+      system: request.system,
+      messages: request.messages,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const startTime = Date.now();
+    const data = await postJSON(this.name, `${this.baseUrl}/v1/messages`, this.headers, this.buildBody(request), this.timeoutMs);
+
+    const content = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      provider: this.name,
+      model: data.model || request.model,
+      content,
+      usage: {
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+      },
+      finishReason: data.stop_reason,
+      latency: Date.now() - startTime,
+    };
+  }
+
+  async stream(request: AICompletionRequest, onDelta: AIDeltaHandler): Promise<AICompletionResult> {
+    const startTime = Date.now();
+    const response = await sendRequest(this.name, `${this.baseUrl}/v1/messages`, this.headers, {
+      ...this.buildBody(request),
+      stream: true,
+    }, this.timeoutMs);
+
+    let model = request.model;
+    let content = '';
+    let finishReason: string | undefined;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const { event, data } of readServerSentEvents(this.name, response, this.timeoutMs)) {
+      const payload = parseStreamData(this.name, data);
+
+      switch (event || payload.type) {
+        case 'message_start':
+          model = payload.message?.model || model;
+          usage.inputTokens = payload.message?.usage?.input_tokens || 0;
+          usage.outputTokens = payload.message?.usage?.output_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+            content += payload.delta.text;
+            await onDelta(payload.delta.text);
+          }
+          break;
+        case 'message_delta':
+          finishReason = payload.delta?.stop_reason || finishReason;
+          usage.outputTokens = payload.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case 'error':
+          throw new AIProviderError(
+            `anthropic stream error: ${payload.error?.message || data}`,
+            this.name,
+            undefined,
+            payload.error?.type === 'overloaded_error'
+          );
+      }
+    }
+
+    return {
+      provider: this.name,
+      model,
+      content,
+      usage,
+      finishReason,
+      latency: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Builds provider adapters from the AI secrets. Base URLs can be overridden
+ * through OPENAI_BASE_URL / ANTHROPIC_BASE_URL to point at a local stub server
+ * such as `test/support/ai-provider-stub.ts`.
+ */
+export class AIProviderRegistry {
+  private providers: Map<AIProviderName, AIProvider> = new Map();
+
+  constructor(private secretsHelper: SecretsHelper = new SecretsHelper()) {}
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  async getProvider(name: AIProviderName): Promise<AIProvider> {
+    const cached = this.providers.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const env = getEnvironment();
+    const secrets = await this.secretsHelper.getAISecrets();
+    let provider: AIProvider;
+
+    switch (name) {
+      case 'openai':
+        if (!secrets.openai_api_key) {
+          throw new AIProviderError('openai_api_key not configured', name);
+        }
+        provider = new OpenAIProvider(secrets.openai_api_key, env.OPENAI_BASE_URL, secrets.openai_organization || undefined);
+        break;
+      case 'anthropic':
+        if (!secrets.anthropic_api_key) {
+          throw new AIProviderError('anthropic_api_key not configured', name);
+        }
+        provider = new AnthropicProvider(secrets.anthropic_api_key, env.ANTHROPIC_BASE_URL);
+        break;
+      default:
+        throw new Error(`Unsupported AI provider: ${name}`);
+    }
+
+    this.providers.set(name, provider);
+    return provider;
+  }
+
+  /**
+   * Run a completion against whichever provider serves the given model id
+   */
+  async complete(modelId: string, request: Omit<AICompletionRequest, 'model'>): Promise<AICompletionResult> {
+    const { provider: providerName, model } = parseModelId(modelId);
+    const provider = await this.getProvider(providerName);
+    return provider.complete({ ...request, model });
+  }
+
+  /**
+   * Stream a completion, invoking `onDelta` for every text fragment as it arrives
+   */
+  async stream(
+    modelId: string,
+    request: Omit<AICompletionRequest, 'model'>,
+    onDelta: AIDeltaHandler
+  ): Promise<AICompletionResult> {
+    const { provider: providerName, model } = parseModelId(modelId);
+    const provider = await this.getProvider(providerName);
+    return provider.stream({ ...request, model }, onDelta);
+  }
+}
@@ -0,0 +1,196 @@
+import { AnalyticsAggregateItem, ToolInteractionItem } from './types';
+import { DynamoDBHelper, TransactWriteEntry, buildIncrementExpression, getTTL } from './utils';
+
+export type AggregateGranularity = AnalyticsAggregateItem['granularity'];
+
+type InteractionType = ToolInteractionItem['interactionType'];
+
+// Aggregate counter incremented by each interaction type
+const INTERACTION_COUNTERS: Record<InteractionType, string> = {
+  view: 'views',
+  start: 'starts',
+  complete: 'completions',
+  lead_capture: 'leads',
+  abandon: 'abandons',
+  share: 'shares',
+};
+
+// Hourly buckets are only needed for recent trends
+const HOURLY_AGGREGATE_TTL_DAYS = 90;
+
+const BUCKET_LENGTH: Record<AggregateGranularity, number> = {
+  hour: 13, // YYYY-MM-DDTHH
+  day: 10, // YYYY-MM-DD
+};
+
+const BUCKET_STEP_MS: Record<AggregateGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * UTC bucket label for a timestamp, e.g. `2024-05-01T13` (hour) or `2024-05-01` (day)
+ */
+export function getAggregateBucket(timestamp: number, granularity: AggregateGranularity): string {
+  return new Date(timestamp).toISOString().slice(0, BUCKET_LENGTH[granularity]);
+}
+
+export function aggregateSortKey(granularity: AggregateGranularity, bucket: string): AnalyticsAggregateItem['SK'] {
+  return granularity === 'hour' ? `AGG#HOUR#${bucket}` : `AGG#DAY#${bucket}`;
+}
+
+/**
+ * Updates that add one interaction to its hourly and daily aggregates. Meant to
+ * run in the same transaction as the interaction put so replays are not counted.
+ */
+export function buildAggregateUpdates(interaction: ToolInteractionItem, timestamp: number): TransactWriteEntry[] {
+  const increments: Record<string, number> = { [INTERACTION_COUNTERS[interaction.interactionType]]: 1 };
+  const { timeSpent, stepCompleted } = interaction.interactionData || {};
+
+  if (typeof timeSpent === 'number' && timeSpent >= 0) {
+    increments.timeSpentTotal = timeSpent;
+    increments.timeSpentCount = 1;
+  }
+  if (interaction.interactionType === 'abandon' && Number.isInteger(stepCompleted) && stepCompleted! >= 0) {
+    increments[`dropOffStep${stepCompleted}`] = 1;
+  }
+
+  return (['hour', 'day'] as AggregateGranularity[]).map((granularity) => {
+    const bucket = getAggregateBucket(timestamp, granularity);
+    const setIfMissing: Record<string, any> = {
+      entityType: 'ANALYTICS_AGGREGATE',
+      toolId: interaction.toolId,
+      granularity,
+      bucket,
+      metadata: {},
+      version: 0,
+    };
+    if (granularity === 'hour') {
+      setIfMissing.ttl = getTTL(HOURLY_AGGREGATE_TTL_DAYS);
+    }
+
+    return {
+      Update: {
+        Key: { PK: `TOOL#${interaction.toolId}`, SK: aggregateSortKey(granularity, bucket) },
+        ...buildIncrementExpression(increments, setIfMissing),
+      },
+    };
+  });
+}
+
+export interface AnalyticsTimeSeriesPoint {
+  bucket: string;
+  views: number;
+  starts: number;
+  completions: number;
+  leads: number;
+  abandons: number;
+  shares: number;
+  averageTimeSpent: number | null;
+  // Abandons keyed by the last step completed
+  stepDropOff: Record<number, number>;
+  funnel: {
+    startRate: number;
+    completionRate: number;
+    leadRate: number;
+  };
+}
+
+function rate(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function toTimeSeriesPoint(bucket: string, item?: AnalyticsAggregateItem): AnalyticsTimeSeriesPoint {
+  const views = item?.views || 0;
+  const starts = item?.starts || 0;
+  const completions = item?.completions || 0;
+  const leads = item?.leads || 0;
+
+  const stepDropOff: Record<number, number> = {};
+  Object.entries(item || {}).forEach(([key, value]) => {
+    if (key.startsWith('dropOffStep') && typeof value === 'number') {
+      stepDropOff[Number(key.slice('dropOffStep'.length))] = value;
+    }
+  });
+
+  return {
+    bucket,
+    views,
+    starts,
+    completions,
+    leads,
+    abandons: item?.abandons || 0,
+    shares: item?.shares || 0,
+    averageTimeSpent: item?.timeSpentCount ? (item.timeSpentTotal || 0) / item.timeSpentCount : null,
+    stepDropOff,
+    funnel: {
+      startRate: rate(starts, views),
+      completionRate: rate(completions, starts),
+      leadRate: rate(leads, completions),
+    },
+  };
+}
+
+/**
+ * Time series for a tool between two timestamps (inclusive), one point per
+ * hour or day. Buckets without activity are returned as zeros so the series
+ * can be charted directly.
+ */
+export async function getAnalyticsTimeSeries(
+  toolId: string,
+  granularity: AggregateGranularity,
+  from: number,
+  to: number,
+  dynamoHelper: DynamoDBHelper = new DynamoDBHelper()
+): Promise<AnalyticsTimeSeriesPoint[]> {
+  if (to < from) {
+    throw new Error('Time series range end must not be before its start');
+  }
+
+  const startBucket = getAggregateBucket(from, granularity);
+  const endBucket = getAggregateBucket(to, granularity);
+  const items = await dynamoHelper.queryBetween<AnalyticsAggregateItem>(
+    `TOOL#${toolId}`,
+    aggregateSortKey(granularity, startBucket),
+    aggregateSortKey(granularity, endBucket)
+  );
+  const byBucket = new Map(items.map(item => [item.bucket, item]));
+
+  const points: AnalyticsTimeSeriesPoint[] = [];
+  const firstBucketStart = Date.parse(granularity === 'hour' ? `${startBucket}:00:00Z` : `${startBucket}T00:00:00Z`);
+  for (let time = firstBucketStart; time <= to; time += BUCKET_STEP_MS[granularity]) {
+    const bucket = getAggregateBucket(time, granularity);
+    points.push(toTimeSeriesPoint(bucket, byBucket.get(bucket)));
+  }
+  return points;
+}
+
+/**
+ * Collapse a series into totals, e.g. to compare this week with last week
+ */
+export function summarizeTimeSeries(points: AnalyticsTimeSeriesPoint[]): Omit<AnalyticsTimeSeriesPoint, 'bucket' | 'averageTimeSpent'> {
+  const totals = points.reduce(
+    (sum, point) => {
+      sum.views += point.views;
+      sum.starts += point.starts;
+      sum.completions += point.completions;
+      sum.leads += point.leads;
+      sum.abandons += point.abandons;
+      sum.shares += point.shares;
+      Object.entries(point.stepDropOff).forEach(([step, count]) => {
+        sum.stepDropOff[Number(step)] = (sum.stepDropOff[Number(step)] || 0) + count;
+      });
+      return sum;
+    },
+    { views: 0, starts: 0, completions: 0, leads: 0, abandons: 0, shares: 0, stepDropOff: {} as Record<number, number> }
+  );
+
+  return {
+    ...totals,
+    funnel: {
+      startRate: rate(totals.starts, totals.views),
+      completionRate: rate(totals.completions, totals.starts),
+      leadRate: rate(totals.leads, totals.completions),
+    },
+  };
+}
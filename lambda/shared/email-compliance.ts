@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EmailSuppressionItem, EmailSuppressionReason } from './types';
+import { DynamoDBHelper, SecretsHelper } from './utils';
+import { emailSuppressionItemSchema } from './entity-schemas';
+
+export interface UnsubscribeTokenPayload {
+  email: string;
+  userId?: string;
+  issuedAt: number;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function sign(value: string, signingKey: string): string {
+  return createHmac('sha256', signingKey).update(value).digest('base64url');
+}
+
+/**
+ * Create an HMAC-signed token identifying the recipient of an email.
+ * Tokens do not expire: unsubscribe links must keep working for old emails.
+ */
+export function createUnsubscribeToken(email: string, signingKey: string, userId?: string): string {
+  const payload: UnsubscribeTokenPayload = { email: normalizeEmail(email), userId, issuedAt: Date.now() };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, signingKey)}`;
+}
+
+/**
+ * Returns the token payload, or null if the token is malformed or the signature does not match
+ */
+export function verifyUnsubscribeToken(token: string, signingKey: string): UnsubscribeTokenPayload | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded, signingKey));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return typeof payload?.email === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function buildUnsubscribeUrl(baseUrl: string, token: string): string {
+  const separator = baseUrl.includes('?') ? '&' : '?';
+  return `${baseUrl}${separator}token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Read the unsubscribe signing key (`email_signing_key`) from the integration secrets
+ */
+export async function getEmailSigningKey(secretsHelper: SecretsHelper): Promise<string> {
+  const secrets = await secretsHelper.getIntegrationsSecrets();
+  if (!secrets?.email_signing_key) {
+    throw new Error('email_signing_key is not configured in the integration secrets');
+  }
+  return secrets.email_signing_key;
+}
+
+/**
+ * Addresses that must never be emailed again. One `SUPPRESSION#{email}` item
+ * per address, also indexed under the `EMAIL#{email}` GSI1 partition next to
+ * the matching users and leads.
+ */
+export class EmailSuppressionList {
+  private dynamoHelper: DynamoDBHelper;
+
+  constructor(dynamoHelper?: DynamoDBHelper) {
+    this.dynamoHelper = dynamoHelper || new DynamoDBHelper();
+  }
+
+  async get(email: string): Promise<EmailSuppressionItem | null> {
+    return this.dynamoHelper.getItem<EmailSuppressionItem>(`SUPPRESSION#${normalizeEmail(email)}`, 'SUPPRESSION');
+  }
+
+  async isSuppressed(email: string): Promise<boolean> {
+    return (await this.get(email)) !== null;
+  }
+
+  async suppress(
+    email: string,
+    reason: EmailSuppressionReason,
+    source: string,
+    details?: Record<string, any>
+  ): Promise<void> {
+    const address = normalizeEmail(email);
+    const timestamp = Date.now();
+
+    const item: EmailSuppressionItem = {
+      PK: `SUPPRESSION#${address}`,
+      SK: 'SUPPRESSION',
+      GSI1PK: `EMAIL#${address}`,
+      GSI1SK: 'SUPPRESSION',
+      entityType: 'SUPPRESSION',
+      email: address,
+      reason,
+      source,
+      details,
+      suppressedAt: timestamp,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      version: 0,
+      metadata: {},
+    };
+
+    emailSuppressionItemSchema.parse(item, 'EmailSuppressionItem');
+
+    try {
+      // Keep the original reason if the address is already suppressed
+      await this.dynamoHelper.putItem(item, 'attribute_not_exists(PK)');
+      console.log('Email address suppressed:', { email: address, reason, source });
+    } catch (error: any) {
+      if (error?.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  async remove(email: string): Promise<void> {
+    await this.dynamoHelper.deleteItem(`SUPPRESSION#${normalizeEmail(email)}`, 'SUPPRESSION');
+  }
+}
@@ -0,0 +1,447 @@
+import {
+  INTERACTION_TYPES,
+  leadResponsesSchema,
+  tokenStreamFrameSchema,
+  webhookEventSchema,
+  webSocketChannelSchema,
+} from './message-schemas';
+import { array, boolean, id, json, literal, number, object, oneOf, prefixed, record, string, template, timestamp } from './schema';
+import { WebSocketChannel } from './types';
+
+// Runtime schemas for the table items. The item types in types.ts are inferred
+// from these, and whatever puts an item (a repository, ConnectionRegistry, the
+// stores next to them) checks it first. Items only ever written through ADD
+// updates (usage counters, analytics aggregates) are described, not checked.
+
+// Attributes every item carries; see KeyvexTableItem
+const tableItemFields = {
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+  metadata: record(json()),
+  version: number({ integer: true, min: 0 }),
+};
+
+// DynamoDB TTLs are epoch seconds
+const ttl = () => number({ integer: true, min: 0 });
+
+// Keys ending in a millisecond timestamp, e.g. `SESSION#{createdAt}`
+const timeKey = <P extends string>(prefix: P) => template<`${P}${number}`>(new RegExp(`^${prefix}\\d+$`));
+
+// Keys of the form `{prefix}{timestamp}#{id}`
+const timeIdKey = <P extends string>(prefix: P) => template<`${P}${number}#${string}`>(new RegExp(`^${prefix}\\d+#.+$`));
+
+// `CHANNEL#{channel}`, e.g. `CHANNEL#job:abc123`
+const channelKey = () => template<`CHANNEL#${WebSocketChannel}`>(/^CHANNEL#(job|session|tool):.+$/);
+
+/**
+ * Per-tool lead scoring rules, stored as `ToolItem.configuration.leadScoring`:
+ *
+ *   {
+ *     rules: [
+ *       { questionId: 'budget', answers: { 'over-10k': 30, '1k-10k': 10 } },
+ *       { questionId: 'teamSize', ranges: [{ min: 50, points: 20 }, { min: 10, max: 49, points: 10 }] }
+ *     ],
+ *     categories: [{ name: 'hot', minScore: 40 }, { name: 'warm', minScore: 15 }, { name: 'cold', minScore: 0 }]
+ *   }
+ */
+export const leadScoringRuleSchema = object({
+  questionId: id(),
+  // Points per answer value; multi-select answers score every selected value
+  answers: record(number()).optional(),
+  // Points for numeric answers; the first matching range wins
+  ranges: array(object({
+    min: number().optional(),
+    max: number().optional(),
+    points: number(),
+  })).optional(),
+});
+
+export const leadScoringConfigSchema = object({
+  rules: array(leadScoringRuleSchema),
+  // The category with the highest minScore not above the lead's score is assigned
+  categories: array(object({ name: id(), minScore: number() })).optional(),
+});
+
+export const userItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('USER#'),
+  SK: literal('PROFILE'),
+  GSI1PK: prefixed('EMAIL#'),
+  GSI1SK: literal('USER'),
+  entityType: literal('USER'),
+  clerkId: id(),
+  email: id(),
+  subscriptionTier: id(),
+  preferences: object({
+    defaultModels: record(string()),
+    debugMode: boolean(),
+    notifications: boolean(),
+  }),
+});
+
+export const toolItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('USER#'),
+  SK: prefixed('TOOL#'),
+  GSI1PK: prefixed('TOOL#'),
+  GSI1SK: prefixed('STATUS#'),
+  GSI2PK: prefixed('TYPE#'),
+  GSI2SK: timeKey('CREATED#'),
+  entityType: literal('TOOL'),
+  toolId: id(),
+  userId: id(),
+  name: string(),
+  type: oneOf(['calculator', 'quiz', 'assessment'] as const),
+  status: oneOf(['draft', 'published', 'archived'] as const),
+  // The tool definition the builder saves; only the parts read here are checked
+  configuration: object({
+    leadScoring: leadScoringConfigSchema.optional(),
+  }),
+  styling: json(),
+  analytics: object({
+    totalViews: number({ integer: true, min: 0 }),
+    totalCompletions: number({ integer: true, min: 0 }),
+    totalLeads: number({ integer: true, min: 0 }),
+    conversionRate: number({ min: 0 }),
+    lastActivity: timestamp(),
+  }),
+});
+
+export const aiSessionItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('SESSION#'),
+  SK: literal('METADATA'),
+  GSI1PK: prefixed('USER#'),
+  GSI1SK: timeKey('SESSION#'),
+  entityType: literal('SESSION'),
+  sessionId: id(),
+  userId: id(),
+  toolId: id().optional(),
+  currentStep: string(),
+  status: oneOf(['active', 'completed', 'failed', 'abandoned'] as const),
+  sessionData: object({
+    currentAgent: string(),
+    progress: number({ min: 0 }),
+    totalSteps: number({ integer: true, min: 0 }),
+    modelUsage: record(number({ min: 0 })),
+    totalCost: number({ min: 0 }),
+  }),
+  lastActivity: timestamp().optional(),
+});
+
+export const conversationMessageItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('SESSION#'),
+  SK: timeIdKey('MESSAGE#'),
+  entityType: literal('MESSAGE'),
+  sessionId: id(),
+  messageId: id(),
+  role: oneOf(['user', 'assistant', 'system'] as const),
+  content: string(),
+  timestamp: timestamp(),
+  agent: string().optional(),
+  modelUsed: string().optional(),
+  tokenCount: number({ integer: true, min: 0 }).optional(),
+  cost: number({ min: 0 }).optional(),
+});
+
+export const leadItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TOOL#'),
+  SK: prefixed('LEAD#'),
+  GSI1PK: prefixed('EMAIL#'),
+  GSI1SK: timeKey('LEAD#'),
+  entityType: literal('LEAD'),
+  leadId: id(),
+  toolId: id(),
+  email: id(),
+  name: string().optional(),
+  company: string().optional(),
+  phone: string().optional(),
+  responses: leadResponsesSchema,
+  score: number().optional(),
+  resultCategory: string().optional(),
+  source: object({
+    referrer: string().optional(),
+    utm: record(string()).optional(),
+    userAgent: string().optional(),
+  }),
+  // Repeat submissions from the same email update the existing lead
+  submissionCount: number({ integer: true, min: 1 }).optional(),
+  lastSubmittedAt: timestamp().optional(),
+  // SQS message that last wrote the lead, so replays are not counted again
+  lastMessageId: id().optional(),
+  ownerEmailQueuedAt: timestamp().optional(),
+  // Set once the owner email and webhooks are queued
+  ownerNotifiedAt: timestamp().optional(),
+});
+
+export const LEAD_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+// An export too large to return inline, built by the lead export worker
+export const leadExportItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TOOL#'),
+  SK: prefixed('EXPORT#'),
+  entityType: literal('LEAD_EXPORT'),
+  exportId: id(),
+  toolId: id(),
+  userId: id(),
+  format: oneOf(LEAD_EXPORT_FORMATS),
+  // The request's filters, applied by the worker
+  filters: object({
+    from: timestamp().optional(),
+    to: timestamp().optional(),
+    minScore: number().optional(),
+    maxScore: number().optional(),
+    resultCategory: string().optional(),
+  }),
+  status: oneOf(['pending', 'completed', 'failed'] as const),
+  fileName: id(),
+  // Set once completed
+  objectKey: prefixed('exports/leads/').optional(),
+  rowCount: number({ integer: true, min: 0 }).optional(),
+  completedAt: timestamp().optional(),
+  error: string().optional(),
+  // Goes with the file, which the bucket expires
+  ttl: ttl(),
+});
+
+export const toolInteractionItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TOOL#'),
+  SK: timeIdKey('INTERACTION#'),
+  GSI1PK: prefixed('ANALYTICS#'),
+  GSI1SK: template<`${string}#${number}`>(/^.+#\d+$/),
+  entityType: literal('INTERACTION'),
+  toolId: id(),
+  interactionId: id(),
+  sessionId: string().optional(),
+  interactionType: oneOf(INTERACTION_TYPES),
+  interactionData: object({
+    stepCompleted: number({ integer: true, min: 0 }).optional(),
+    totalSteps: number({ integer: true, min: 0 }).optional(),
+    timeSpent: number({ min: 0 }).optional(),
+    userAgent: string().optional(),
+    referrer: string().optional(),
+  }).optional(),
+});
+
+export const aiMetricItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('METRIC#'),
+  SK: timeIdKey('REQUEST#'),
+  GSI1PK: prefixed('PROCESS#'),
+  GSI1SK: timeKey(''),
+  GSI2PK: prefixed('PROVIDER#'),
+  GSI2SK: timeKey(''),
+  entityType: literal('METRIC'),
+  requestId: id(),
+  userId: id(),
+  process: id(),
+  provider: id(),
+  model: string(),
+  inputTokens: number({ integer: true, min: 0 }),
+  outputTokens: number({ integer: true, min: 0 }),
+  cost: number({ min: 0 }),
+  latency: number({ min: 0 }),
+  success: boolean(),
+  error: string().optional(),
+  // Of the queue message that asked for the call
+  correlationId: id().optional(),
+  timestamp: timestamp(),
+  ttl: ttl(),
+});
+
+export const alertItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('ALERT#'),
+  SK: literal('ALERT'),
+  GSI1PK: prefixed('ALERT_TYPE#'),
+  GSI1SK: template<`${string}#${number}`>(/^.+#\d+$/),
+  entityType: literal('ALERT'),
+  alertId: id(),
+  type: oneOf(['cost', 'performance', 'error'] as const),
+  severity: oneOf(['low', 'medium', 'high'] as const),
+  message: string(),
+  timestamp: timestamp(),
+  resolved: boolean(),
+  resolvedAt: timestamp().optional(),
+  resolvedBy: string().optional(),
+  data: record(json()).optional(),
+  ttl: ttl(),
+});
+
+export const webSocketConnectionItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('CONNECTION#'),
+  SK: literal('METADATA'),
+  GSI1PK: prefixed('USER#'),
+  GSI1SK: timeKey('CONNECTION#'),
+  // Only set when the client watches a job
+  GSI2PK: prefixed('JOB#').optional(),
+  GSI2SK: timeKey('CONNECTION#').optional(),
+  GSI3PK: literal('CONNECTION'),
+  GSI3SK: timeKey('ACTIVITY#'),
+  entityType: literal('CONNECTION'),
+  connectionId: id(),
+  userId: id(),
+  jobId: id().optional(),
+  sessionId: id().optional(),
+  connectedAt: timestamp(),
+  lastActivity: timestamp(),
+  ttl: ttl(),
+});
+
+// Hourly / daily rollup of a tool's interactions. Counters are flat attributes
+// so they can be ADDed without first creating a map; step drop-off is stored as
+// `dropOffStep{n}` (abandons after completing step n), which the type adds.
+export const analyticsAggregateItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TOOL#'),
+  SK: template<`AGG#HOUR#${string}` | `AGG#DAY#${string}`>(/^AGG#(HOUR|DAY)#.+$/),
+  entityType: literal('ANALYTICS_AGGREGATE'),
+  toolId: id(),
+  granularity: oneOf(['hour', 'day'] as const),
+  bucket: id(),
+  views: number({ integer: true, min: 0 }).optional(),
+  starts: number({ integer: true, min: 0 }).optional(),
+  completions: number({ integer: true, min: 0 }).optional(),
+  leads: number({ integer: true, min: 0 }).optional(),
+  abandons: number({ integer: true, min: 0 }).optional(),
+  shares: number({ integer: true, min: 0 }).optional(),
+  timeSpentTotal: number({ min: 0 }).optional(),
+  timeSpentCount: number({ integer: true, min: 0 }).optional(),
+  // Hourly buckets only
+  ttl: ttl().optional(),
+});
+
+// One per (channel, connection); see ChannelSubscriptionStore
+export const channelSubscriptionItemSchema = object({
+  ...tableItemFields,
+  PK: channelKey(),
+  SK: prefixed('CONNECTION#'),
+  GSI1PK: prefixed('CONNECTION#'),
+  GSI1SK: channelKey(),
+  entityType: literal('CHANNEL_SUBSCRIPTION'),
+  channel: webSocketChannelSchema,
+  connectionId: id(),
+  userId: id(),
+  // Expires with the connection
+  ttl: ttl(),
+});
+
+// Monthly AI spend of a user, `USAGE#{YYYY-MM}`; see AIBudgetGuard
+export const usageCounterItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('USER#'),
+  SK: prefixed('USAGE#'),
+  entityType: literal('USAGE'),
+  userId: id(),
+  period: id(),
+  totalCost: number({ min: 0 }),
+  requestCount: number({ integer: true, min: 0 }),
+});
+
+// Overrides of the built-in email templates, written outside this repo so copy
+// can change without a deploy; read by the email processor's TemplateStore
+export const emailTemplateItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TEMPLATE#'),
+  SK: prefixed('VERSION#'),
+  entityType: literal('EMAIL_TEMPLATE'),
+  templateId: id(),
+  templateVersion: number({ integer: true, min: 1 }),
+  subject: string(),
+  html: string(),
+  text: string(),
+  requiredData: array(string()).optional(),
+});
+
+export const emailSendAttemptItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('EMAIL_SEND#'),
+  SK: timeKey('ATTEMPT#'),
+  GSI1PK: prefixed('USER#'),
+  GSI1SK: timeKey('EMAIL#'),
+  GSI2PK: prefixed('TEMPLATE#'),
+  GSI2SK: timeKey(''),
+  entityType: literal('EMAIL_SEND'),
+  messageId: id(),
+  userId: id(),
+  templateId: id(),
+  templateVersion: number({ integer: true, min: 1 }).optional(),
+  recipient: string().optional(),
+  transport: id(),
+  status: oneOf(['sent', 'failed', 'suppressed'] as const),
+  providerMessageId: string().optional(),
+  error: string().optional(),
+  receiveCount: number({ integer: true, min: 1 }),
+  timestamp: timestamp(),
+  ttl: ttl(),
+});
+
+export const EMAIL_SUPPRESSION_REASONS = ['unsubscribe', 'bounce', 'complaint', 'manual'] as const;
+
+export const emailSuppressionItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('SUPPRESSION#'),
+  SK: literal('SUPPRESSION'),
+  GSI1PK: prefixed('EMAIL#'),
+  GSI1SK: literal('SUPPRESSION'),
+  entityType: literal('SUPPRESSION'),
+  email: id(),
+  reason: oneOf(EMAIL_SUPPRESSION_REASONS),
+  source: id(),
+  details: record(json()).optional(),
+  suppressedAt: timestamp(),
+});
+
+export const webhookSubscriptionItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('TOOL#'),
+  SK: prefixed('WEBHOOK#'),
+  entityType: literal('WEBHOOK_SUBSCRIPTION'),
+  subscriptionId: id(),
+  toolId: id(),
+  url: id(),
+  events: array(webhookEventSchema),
+  // HMAC-SHA256 signing secret shared with the subscriber
+  secret: id(),
+  active: boolean(),
+  description: string().optional(),
+});
+
+export const webhookDeliveryAttemptItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('WEBHOOK_DELIVERY#'),
+  SK: template<`ATTEMPT#${number}#${number}`>(/^ATTEMPT#\d+#\d+$/),
+  GSI1PK: prefixed('WEBHOOK#'),
+  GSI1SK: timeKey('DELIVERY#'),
+  entityType: literal('WEBHOOK_DELIVERY'),
+  deliveryId: id(),
+  subscriptionId: id(),
+  toolId: id(),
+  event: webhookEventSchema,
+  attempt: number({ integer: true, min: 1 }),
+  status: oneOf(['delivered', 'retrying', 'failed'] as const),
+  statusCode: number({ integer: true }).optional(),
+  durationMs: number({ min: 0 }),
+  error: string().optional(),
+  // Set when a retry was scheduled
+  nextAttemptAt: timestamp().optional(),
+  ttl: ttl(),
+});
+
+// A token stream frame kept for `resume`, `STREAM#{streamId}` / `FRAME#{sequence}`
+export const streamFrameItemSchema = object({
+  ...tableItemFields,
+  PK: prefixed('STREAM#'),
+  SK: prefixed('FRAME#'),
+  entityType: literal('STREAM_FRAME'),
+  streamId: id(),
+  userId: id(),
+  sequence: number({ integer: true, min: 1 }),
+  frame: tokenStreamFrameSchema,
+  ttl: ttl(),
+});
@@ -0,0 +1,109 @@
+import { randomUUID } from 'crypto';
+import { Schema, SchemaValidationError, id, number, object, parseMessage, timestamp } from './schema';
+import { MessageEnvelope } from './types';
+
+/**
+ * Version of the queue message format. Bump it and append an upcaster when a
+ * message changes in a way older bodies do not satisfy.
+ */
+export const MESSAGE_SCHEMA_VERSION = 2;
+
+// Stamped on every queue message by SQSHelper
+export const messageEnvelopeSchema = object({
+  messageId: id(),
+  schemaVersion: number({ integer: true, min: 1 }),
+  // Shared by every message (and log line, metric and frame) from one request
+  correlationId: id(),
+  // messageId of the message being handled when this one was produced
+  causationId: id().optional(),
+  // The user (tenant) the work is for
+  userId: id().optional(),
+  producedAt: timestamp(),
+});
+
+/**
+ * What a producer knows about the work it is part of. Without a correlationId
+ * the message starts a new correlation.
+ */
+export interface MessageContext {
+  correlationId?: string;
+  causationId?: string;
+  userId?: string;
+}
+
+type Upcaster = (message: Record<string, any>, sqsMessageId: string) => Record<string, any>;
+
+// UPCASTERS[n - 1] turns a version n body into version n + 1
+const UPCASTERS: Upcaster[] = [
+  // Version 1 bodies predate the envelope; the SQS message id stands in for
+  // the ids they lack
+  (message, sqsMessageId) => ({
+    ...message,
+    envelope: {
+      messageId: sqsMessageId,
+      schemaVersion: 2,
+      correlationId: sqsMessageId,
+      userId: typeof message.userId === 'string' && message.userId ? message.userId : undefined,
+      producedAt: typeof message.timestamp === 'number' ? message.timestamp : Date.now(),
+    },
+  }),
+];
+
+/**
+ * A new envelope within `context`. `userId` is the user the message itself is
+ * for, when it names one; otherwise the context's user is kept.
+ */
+export function createEnvelope(context: MessageContext = {}, userId?: string): MessageEnvelope {
+  return {
+    messageId: randomUUID(),
+    schemaVersion: MESSAGE_SCHEMA_VERSION,
+    correlationId: context.correlationId || randomUUID(),
+    causationId: context.causationId,
+    userId: userId || context.userId,
+    producedAt: Date.now(),
+  };
+}
+
+/**
+ * Context for the messages produced while handling one, so they share its
+ * correlation and name it as their cause
+ */
+export function causedBy(envelope: MessageEnvelope): MessageContext {
+  return {
+    correlationId: envelope.correlationId,
+    causationId: envelope.messageId,
+    userId: envelope.userId,
+  };
+}
+
+/**
+ * Parse a queue record's body, upcasting older schema versions, against
+ * `schema`. Throws SchemaValidationError for malformed bodies and for versions
+ * newer than this code understands.
+ */
+export function readMessage<T>(record: { body: string; messageId: string }, schema: Schema<T>, name: string): T {
+  return parseMessage(record.body, schema, name, value => upcast(value, record.messageId, name));
+}
+
+function upcast(value: unknown, sqsMessageId: string, name: string): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  let message = value as Record<string, any>;
+  let version = message.envelope?.schemaVersion ?? 1;
+  // The schema reports a malformed version
+  if (!Number.isInteger(version) || version < 1) {
+    return message;
+  }
+  if (version > MESSAGE_SCHEMA_VERSION) {
+    throw new SchemaValidationError(name, [
+      { path: 'envelope.schemaVersion', message: `is newer than the supported version ${MESSAGE_SCHEMA_VERSION}` },
+    ]);
+  }
+
+  for (; version < MESSAGE_SCHEMA_VERSION; version++) {
+    message = UPCASTERS[version - 1](message, sqsMessageId);
+  }
+  return message;
+}
@@ -0,0 +1,183 @@
+import { messageEnvelopeSchema } from './message-envelope';
+import { array, id, json, literal, number, object, oneOf, record, string, template, timestamp, union } from './schema';
+import { WebSocketChannel } from './types';
+import { validateEmail } from './utils';
+
+// Runtime schemas for every queue message. The message types in types.ts are
+// inferred from these, and consumers parse bodies with `readMessage`. Each
+// carries the `envelope` SQSHelper stamps on it.
+
+export const AI_PROCESS_NAMES = ['magicSpark', 'logicArchitect', 'contentCrafter', 'styleMaster'] as const;
+
+export const AI_PROVIDER_NAMES = ['openai', 'anthropic'] as const;
+
+export const INTERACTION_TYPES = ['view', 'start', 'complete', 'abandon', 'lead_capture', 'share'] as const;
+
+export const WEBHOOK_EVENTS = ['lead.created', 'tool.completed'] as const;
+
+/**
+ * Answers to a tool's questions, as `{ [questionId]: answer }` or as
+ * `[{ questionId, answer }]` depending on the tool type. Answers are whatever
+ * the question collects: a string, a number, or an array for multi-select.
+ */
+export const leadResponsesSchema = union(
+  record(json()),
+  array(object({
+    questionId: id(),
+    answer: json().optional(),
+    // Older embeds send `value` instead of `answer`
+    value: json().optional(),
+  }))
+);
+
+// Where a lead came from, as reported by the embed
+export const leadSourceSchema = object({
+  referrer: string().optional(),
+  // Landing page URL; UTM parameters are read from it
+  url: string().optional(),
+  utm: record(string()).optional(),
+  userAgent: string().optional(),
+});
+
+export const aiProcessingMessageSchema = object({
+  messageType: literal('AI_PROCESSING'),
+  envelope: messageEnvelopeSchema,
+  sessionId: id(),
+  userId: id(),
+  process: oneOf(AI_PROCESS_NAMES),
+  // A prompt, or an object sent to the model as JSON unless it carries a `prompt`
+  input: union(
+    string({ min: 1 }),
+    object({ prompt: string({ min: 1 }).optional() })
+  ),
+  priority: oneOf(['high', 'normal', 'low'] as const),
+  timestamp: timestamp(),
+});
+
+export const analyticsProcessingMessageSchema = object({
+  messageType: literal('ANALYTICS_PROCESSING'),
+  envelope: messageEnvelopeSchema,
+  toolId: id(),
+  interactionType: oneOf(INTERACTION_TYPES),
+  data: object({
+    sessionId: string().optional(),
+    stepCompleted: number({ integer: true, min: 0 }).optional(),
+    totalSteps: number({ integer: true, min: 0 }).optional(),
+    timeSpent: number({ min: 0 }).optional(),
+    userAgent: string().optional(),
+    referrer: string().optional(),
+    // lead_capture submissions. LeadIngestion checks the email itself, so a bad
+    // one is rejected as a LeadValidationError without retrying
+    email: json().optional(),
+    name: string().optional(),
+    company: string().optional(),
+    phone: string().optional(),
+    responses: leadResponsesSchema.optional(),
+    source: leadSourceSchema.optional(),
+  }).optional(),
+  timestamp: timestamp(),
+});
+
+export const emailNotificationMessageSchema = object({
+  messageType: literal('EMAIL_NOTIFICATION'),
+  envelope: messageEnvelopeSchema,
+  userId: id(),
+  // `{templateId}` for the latest version or `{templateId}@{version}` to pin one
+  templateId: id(),
+  // Recipient override; defaults to the user's email
+  to: string().refine(validateEmail, 'must be an email address').optional(),
+  data: record(json()),
+  priority: oneOf(['high', 'normal'] as const),
+  timestamp: timestamp(),
+});
+
+export const webhookEventSchema = oneOf(WEBHOOK_EVENTS);
+
+// JSON body POSTed to the subscriber
+export const webhookPayloadSchema = object({
+  id: id(),
+  event: webhookEventSchema,
+  toolId: id(),
+  createdAt: timestamp(),
+  data: record(json()),
+});
+
+export const webhookDeliveryMessageSchema = object({
+  messageType: literal('WEBHOOK_DELIVERY'),
+  envelope: messageEnvelopeSchema,
+  // Derived from the source event, so re-publishing the same event is deduplicated
+  deliveryId: id(),
+  toolId: id(),
+  subscriptionId: id(),
+  event: webhookEventSchema,
+  payload: webhookPayloadSchema,
+  // 1 for the first attempt
+  attempt: number({ integer: true, min: 1 }),
+  timestamp: timestamp(),
+});
+
+// Asks the lead export worker to build an export; the filters are on the item
+export const leadExportMessageSchema = object({
+  messageType: literal('LEAD_EXPORT'),
+  envelope: messageEnvelopeSchema,
+  exportId: id(),
+  toolId: id(),
+  timestamp: timestamp(),
+});
+
+// Same rule as parseChannel in websocket-channels.ts
+export const webSocketChannelSchema = template<WebSocketChannel>(/^(job|session|tool):[A-Za-z0-9_-]{1,128}$/);
+
+// Queued for the WebSocket fan-out function; ordered per channel
+export const webSocketBroadcastMessageSchema = object({
+  messageType: literal('WEBSOCKET_BROADCAST'),
+  envelope: messageEnvelopeSchema,
+  channel: webSocketChannelSchema,
+  // Only this user's subscribers receive the payload
+  userId: id().optional(),
+  // A server frame; built by our own code, so only its type is checked
+  payload: object({ type: id() }),
+  timestamp: timestamp(),
+});
+
+export const webSocketMessageSchema = object({
+  action: oneOf(['connect', 'disconnect', 'message'] as const),
+  connectionId: id(),
+  userId: id().optional(),
+  sessionId: id().optional(),
+  data: json().optional(),
+});
+
+// Token stream frames, pushed to subscribers of `session:{sessionId}` and
+// stored for `resume` (see token-stream.ts)
+const tokenStreamFrameFields = {
+  streamId: id(),
+  sessionId: id(),
+  process: oneOf(AI_PROCESS_NAMES),
+  sequence: number({ integer: true, min: 1 }),
+  timestamp: timestamp(),
+  // Frames produced for queued work carry its correlation id (see MessageEnvelope)
+  correlationId: id().optional(),
+};
+
+export const tokenDeltaFrameSchema = object({
+  type: literal('token_delta'),
+  ...tokenStreamFrameFields,
+  delta: string(),
+});
+
+export const completionFrameSchema = object({
+  type: literal('completion'),
+  ...tokenStreamFrameFields,
+  status: oneOf(['completed', 'failed'] as const),
+  content: string().optional(),
+  provider: oneOf(AI_PROVIDER_NAMES).optional(),
+  model: string().optional(),
+  usage: object({
+    inputTokens: number({ integer: true, min: 0 }),
+    outputTokens: number({ integer: true, min: 0 }),
+  }).optional(),
+  error: string().optional(),
+});
+
+export const tokenStreamFrameSchema = union(tokenDeltaFrameSchema, completionFrameSchema);
@@ -0,0 +1,688 @@
+import {
+  AIMetricItem,
+  AISessionItem,
+  AlertItem,
+  ConversationMessageItem,
+  KeyvexTableItem,
+  LeadExportItem,
+  LeadItem,
+  StreamFrameItem,
+  ToolInteractionItem,
+  ToolItem,
+  UserItem,
+  WebSocketConnectionItem,
+} from './types';
+import { DynamoDBHelper, QueryOptions, QueryPage, SortKeyCondition, TransactionBuilder } from './utils';
+import {
+  aiMetricItemSchema,
+  aiSessionItemSchema,
+  alertItemSchema,
+  conversationMessageItemSchema,
+  leadExportItemSchema,
+  leadItemSchema,
+  toolInteractionItemSchema,
+  toolItemSchema,
+  userItemSchema,
+} from './entity-schemas';
+import { Schema } from './schema';
+
+// The attributes an item declares, without KeyvexTableItem's catch-all index
+// signature (which would otherwise swallow every other key in Omit/Partial)
+type DeclaredFields<T> = { [K in keyof T as string extends K ? never : K]: T[K] };
+
+// Written by the repositories, never by callers
+type ManagedField =
+  | 'PK'
+  | 'SK'
+  | 'GSI1PK'
+  | 'GSI1SK'
+  | 'GSI2PK'
+  | 'GSI2SK'
+  | 'GSI3PK'
+  | 'GSI3SK'
+  | 'entityType'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'version'
+  | 'metadata';
+
+export type ItemKey<T extends KeyvexTableItem> = Pick<T, 'PK' | 'SK'>;
+
+/**
+ * Attributes needed to create an entity; keys, index keys and bookkeeping
+ * attributes are derived by its repository
+ */
+export type EntityInput<T extends KeyvexTableItem> = Omit<DeclaredFields<T>, ManagedField> & {
+  metadata?: Record<string, any>;
+};
+
+/**
+ * Attributes that may be changed after creation. `Identity` names the
+ * attributes the item's keys are built from, which would orphan the item.
+ */
+export type EntityUpdate<T extends KeyvexTableItem, Identity extends keyof T = never> = Partial<
+  Omit<DeclaredFields<T>, ManagedField | Identity>
+>;
+
+// Zero-padded so frames sort by sequence
+export function streamFrameSortKey(sequence: number): `FRAME#${string}` {
+  return `FRAME#${String(sequence).padStart(10, '0')}`;
+}
+
+/**
+ * Primary keys of every entity, built from the template literal types in
+ * types.ts so a key cannot drift from the shape its item declares
+ */
+export const keys = {
+  user: (userId: string): ItemKey<UserItem> => ({ PK: `USER#${userId}`, SK: 'PROFILE' }),
+  tool: (userId: string, toolId: string): ItemKey<ToolItem> => ({ PK: `USER#${userId}`, SK: `TOOL#${toolId}` }),
+  session: (sessionId: string): ItemKey<AISessionItem> => ({ PK: `SESSION#${sessionId}`, SK: 'METADATA' }),
+  message: (sessionId: string, timestamp: number, messageId: string): ItemKey<ConversationMessageItem> => ({
+    PK: `SESSION#${sessionId}`,
+    SK: `MESSAGE#${timestamp}#${messageId}`,
+  }),
+  lead: (toolId: string, leadId: string): ItemKey<LeadItem> => ({ PK: `TOOL#${toolId}`, SK: `LEAD#${leadId}` }),
+  leadExport: (toolId: string, exportId: string): ItemKey<LeadExportItem> => ({
+    PK: `TOOL#${toolId}`,
+    SK: `EXPORT#${exportId}`,
+  }),
+  interaction: (toolId: string, timestamp: number, interactionId: string): ItemKey<ToolInteractionItem> => ({
+    PK: `TOOL#${toolId}`,
+    SK: `INTERACTION#${timestamp}#${interactionId}`,
+  }),
+  // Metrics are partitioned by UTC day
+  metric: (timestamp: number, requestId: string): ItemKey<AIMetricItem> => ({
+    PK: `METRIC#${new Date(timestamp).toISOString().slice(0, 10)}`,
+    SK: `REQUEST#${timestamp}#${requestId}`,
+  }),
+  alert: (alertId: string): ItemKey<AlertItem> => ({ PK: `ALERT#${alertId}`, SK: 'ALERT' }),
+  // Connections have no repository here: ConnectionRegistry in
+  // websocket-connections.ts is theirs
+  connection: (connectionId: string): ItemKey<WebSocketConnectionItem> => ({
+    PK: `CONNECTION#${connectionId}`,
+    SK: 'METADATA',
+  }),
+  // Token stream frames are written by TokenStreamPublisher and replayed on `resume`
+  streamFrame: (streamId: string, sequence: number): ItemKey<StreamFrameItem> => ({
+    PK: `STREAM#${streamId}`,
+    SK: streamFrameSortKey(sequence),
+  }),
+};
+
+export interface ListOptions {
+  limit?: number;
+  // From the previous page, to continue listing
+  cursor?: string;
+}
+
+/**
+ * For lists sorted by time: only items from `from` to `to` (epoch
+ * milliseconds, both inclusive)
+ */
+export interface TimeWindowOptions extends ListOptions {
+  from?: number;
+  to?: number;
+}
+
+// Lists are newest first
+function newestFirst(options: ListOptions): QueryOptions {
+  return { order: 'desc', limit: options.limit, cursor: options.cursor };
+}
+
+/**
+ * Sort key condition for keys of the form `{prefix}{timestamp}` or
+ * `{prefix}{timestamp}#{id}`. Millisecond timestamps have 13 digits, so they
+ * compare correctly as strings.
+ */
+function timeWindow(prefix: string, options: TimeWindowOptions): SortKeyCondition | undefined {
+  if (options.from === undefined && options.to === undefined) {
+    return prefix ? { beginsWith: prefix } : undefined;
+  }
+  // '\uffff' sorts after any `#{id}` suffix
+  return { between: [`${prefix}${options.from ?? ''}`, `${prefix}${options.to ?? ''}\uffff`] };
+}
+
+/**
+ * `item`, once it has passed its schema; otherwise throws a
+ * SchemaValidationError listing every bad field, and nothing is written
+ */
+function validated<T>(schema: Schema<unknown>, item: T, name: string): T {
+  schema.parse(item, name);
+  return item;
+}
+
+function isConditionalCheckFailure(error: any): boolean {
+  return error?.name === 'ConditionalCheckFailedException';
+}
+
+/**
+ * Users, `USER#{userId}` / `PROFILE`, found by email on GSI1
+ * (`EMAIL#{email}` / `USER`). The user id is the Clerk user id.
+ */
+export class UserRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async get(userId: string): Promise<UserItem | null> {
+    const { PK, SK } = keys.user(userId);
+    return this.dynamoHelper.getItem<UserItem>(PK, SK);
+  }
+
+  async getByEmail(email: string): Promise<UserItem | null> {
+    const [user] = await this.dynamoHelper.queryGSI<UserItem>('GSI1', `EMAIL#${email}`, 'USER', 1);
+    return user || null;
+  }
+
+  async create(userId: string, input: EntityInput<UserItem>): Promise<UserItem> {
+    const now = Date.now();
+    const user: UserItem = {
+      ...input,
+      ...keys.user(userId),
+      GSI1PK: `EMAIL#${input.email}`,
+      GSI1SK: 'USER',
+      entityType: 'USER',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(validated(userItemSchema, user, 'UserItem'), 'attribute_not_exists(PK)');
+    return user;
+  }
+
+  async update(userId: string, updates: EntityUpdate<UserItem>): Promise<void> {
+    const { PK, SK } = keys.user(userId);
+    const fields: Partial<UserItem> = { ...updates };
+    if (updates.email) {
+      fields.GSI1PK = `EMAIL#${updates.email}`;
+    }
+    await this.dynamoHelper.updateItem<UserItem>(PK, SK, fields, 'attribute_exists(PK)');
+  }
+}
+
+/**
+ * Tools, `USER#{userId}` / `TOOL#{toolId}`, found by id on GSI1
+ * (`TOOL#{toolId}` / `STATUS#{status}`) and by type on GSI2
+ * (`TYPE#{type}` / `CREATED#{createdAt}`)
+ */
+export class ToolRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  /**
+   * Look a tool up by id alone, e.g. for public interactions that do not know its owner
+   */
+  async get(toolId: string): Promise<ToolItem | null> {
+    const [tool] = await this.dynamoHelper.queryGSI<ToolItem>('GSI1', `TOOL#${toolId}`, 'STATUS#', 1);
+    return tool || null;
+  }
+
+  async getForUser(userId: string, toolId: string): Promise<ToolItem | null> {
+    const { PK, SK } = keys.tool(userId, toolId);
+    return this.dynamoHelper.getItem<ToolItem>(PK, SK);
+  }
+
+  async listByUser(userId: string, options: ListOptions = {}): Promise<QueryPage<ToolItem>> {
+    return this.dynamoHelper.queryPage<ToolItem>(`USER#${userId}`, {
+      ...newestFirst(options),
+      sortKey: { beginsWith: 'TOOL#' },
+    });
+  }
+
+  async listByType(type: ToolItem['type'], options: TimeWindowOptions = {}): Promise<QueryPage<ToolItem>> {
+    return this.dynamoHelper.queryPage<ToolItem>(`TYPE#${type}`, {
+      ...newestFirst(options),
+      indexName: 'GSI2',
+      sortKey: timeWindow('CREATED#', options),
+    });
+  }
+
+  async create(input: EntityInput<ToolItem>): Promise<ToolItem> {
+    const now = Date.now();
+    const tool: ToolItem = {
+      ...input,
+      ...keys.tool(input.userId, input.toolId),
+      GSI1PK: `TOOL#${input.toolId}`,
+      GSI1SK: `STATUS#${input.status}`,
+      GSI2PK: `TYPE#${input.type}`,
+      GSI2SK: `CREATED#${now}`,
+      entityType: 'TOOL',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(validated(toolItemSchema, tool, 'ToolItem'), 'attribute_not_exists(PK)');
+    return tool;
+  }
+
+  async update(
+    tool: Pick<ToolItem, 'userId' | 'toolId'>,
+    updates: EntityUpdate<ToolItem, 'userId' | 'toolId'>
+  ): Promise<void> {
+    const { PK, SK } = keys.tool(tool.userId, tool.toolId);
+    await this.dynamoHelper.updateItem<ToolItem>(PK, SK, withToolIndexKeys(updates), 'attribute_exists(PK)');
+  }
+
+  /**
+   * Update computed from the tool's current state, retried against a fresh
+   * read if the tool is written concurrently (see `DynamoDBHelper.updateWithRetry`).
+   * `mutate` returns null to leave the tool as it is.
+   */
+  async modify(
+    tool: Pick<ToolItem, 'userId' | 'toolId'>,
+    mutate: (current: ToolItem) => EntityUpdate<ToolItem, 'userId' | 'toolId'> | null
+  ): Promise<ToolItem | null> {
+    const { PK, SK } = keys.tool(tool.userId, tool.toolId);
+    return this.dynamoHelper.updateWithRetry<ToolItem>(PK, SK, current => {
+      const updates = mutate(current);
+      return updates && withToolIndexKeys(updates);
+    });
+  }
+}
+
+// Index keys follow the attributes they are derived from
+function withToolIndexKeys(updates: EntityUpdate<ToolItem, 'userId' | 'toolId'>): Partial<ToolItem> {
+  const fields: Partial<ToolItem> = { ...updates };
+  if (updates.status) {
+    fields.GSI1SK = `STATUS#${updates.status}`;
+  }
+  if (updates.type) {
+    fields.GSI2PK = `TYPE#${updates.type}`;
+  }
+  return fields;
+}
+
+/**
+ * AI sessions, `SESSION#{sessionId}` / `METADATA`, listed per user on GSI1
+ * (`USER#{userId}` / `SESSION#{createdAt}`). The session's messages share its partition.
+ */
+export class SessionRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async get(sessionId: string): Promise<AISessionItem | null> {
+    const { PK, SK } = keys.session(sessionId);
+    return this.dynamoHelper.getItem<AISessionItem>(PK, SK);
+  }
+
+  async listByUser(userId: string, options: TimeWindowOptions = {}): Promise<QueryPage<AISessionItem>> {
+    return this.dynamoHelper.queryPage<AISessionItem>(`USER#${userId}`, {
+      ...newestFirst(options),
+      indexName: 'GSI1',
+      sortKey: timeWindow('SESSION#', options),
+    });
+  }
+
+  async create(input: EntityInput<AISessionItem>): Promise<AISessionItem> {
+    const now = Date.now();
+    const session: AISessionItem = {
+      ...input,
+      ...keys.session(input.sessionId),
+      GSI1PK: `USER#${input.userId}`,
+      GSI1SK: `SESSION#${now}`,
+      entityType: 'SESSION',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(validated(aiSessionItemSchema, session, 'AISessionItem'), 'attribute_not_exists(PK)');
+    return session;
+  }
+
+  /**
+   * Returns false when the session does not exist; it is not created
+   */
+  async update(sessionId: string, updates: EntityUpdate<AISessionItem, 'sessionId' | 'userId'>): Promise<boolean> {
+    const { PK, SK } = keys.session(sessionId);
+    try {
+      await this.dynamoHelper.updateItem<AISessionItem>(PK, SK, { ...updates }, 'attribute_exists(PK)');
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update computed from the session's current state, retried against a
+   * fresh read if the session is written concurrently. Returns null when the
+   * session does not exist; `mutate` returns null to leave it as it is.
+   * `alsoWrite` adds writes committed atomically with the update.
+   */
+  async modify(
+    sessionId: string,
+    mutate: (current: AISessionItem) => EntityUpdate<AISessionItem, 'sessionId' | 'userId'> | null,
+    alsoWrite?: (transaction: TransactionBuilder, current: AISessionItem) => void
+  ): Promise<AISessionItem | null> {
+    const { PK, SK } = keys.session(sessionId);
+    return this.dynamoHelper.updateWithRetry<AISessionItem>(PK, SK, mutate, { alsoWrite });
+  }
+}
+
+/**
+ * Conversation messages, `SESSION#{sessionId}` / `MESSAGE#{timestamp}#{messageId}`
+ */
+export class MessageRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  /**
+   * The item `create` would write, for callers that write it in a transaction
+   */
+  build(input: EntityInput<ConversationMessageItem>): ConversationMessageItem {
+    const now = Date.now();
+    const message: ConversationMessageItem = {
+      ...input,
+      ...keys.message(input.sessionId, input.timestamp, input.messageId),
+      entityType: 'MESSAGE',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+    return validated(conversationMessageItemSchema, message, 'ConversationMessageItem');
+  }
+
+  async create(input: EntityInput<ConversationMessageItem>): Promise<ConversationMessageItem> {
+    const message = this.build(input);
+    await this.dynamoHelper.putItem(message);
+    return message;
+  }
+
+  async listBySession(sessionId: string, options: TimeWindowOptions = {}): Promise<QueryPage<ConversationMessageItem>> {
+    return this.dynamoHelper.queryPage<ConversationMessageItem>(`SESSION#${sessionId}`, {
+      ...newestFirst(options),
+      sortKey: timeWindow('MESSAGE#', options),
+    });
+  }
+}
+
+/**
+ * Leads, `TOOL#{toolId}` / `LEAD#{leadId}`, found by email on GSI1
+ * (`EMAIL#{email}` / `LEAD#{createdAt}`)
+ */
+export class LeadRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async get(toolId: string, leadId: string): Promise<LeadItem | null> {
+    const { PK, SK } = keys.lead(toolId, leadId);
+    return this.dynamoHelper.getItem<LeadItem>(PK, SK);
+  }
+
+  /**
+   * A tool's leads a page at a time, in lead id order
+   */
+  pagesByTool(toolId: string, pageSize?: number): AsyncGenerator<LeadItem[]> {
+    return this.dynamoHelper.queryPages<LeadItem>(`TOOL#${toolId}`, 'LEAD#', pageSize);
+  }
+
+  // Across all tools; the window is on submission time
+  async listByEmail(email: string, options: TimeWindowOptions = {}): Promise<QueryPage<LeadItem>> {
+    return this.dynamoHelper.queryPage<LeadItem>(`EMAIL#${email}`, {
+      ...newestFirst(options),
+      indexName: 'GSI1',
+      sortKey: timeWindow('LEAD#', options),
+    });
+  }
+
+  async findByEmail(toolId: string, email: string): Promise<LeadItem | null> {
+    const leads = this.dynamoHelper.queryItems<LeadItem>(`EMAIL#${email}`, {
+      indexName: 'GSI1',
+      order: 'desc',
+      sortKey: { beginsWith: 'LEAD#' },
+      filter: {
+        FilterExpression: '#toolId = :toolId',
+        ExpressionAttributeNames: { '#toolId': 'toolId' },
+        ExpressionAttributeValues: { ':toolId': toolId },
+      },
+    });
+    for await (const lead of leads) {
+      return lead;
+    }
+    return null;
+  }
+
+  // `submittedAt` orders the lead among the email's leads, defaulting to now
+  async create(input: EntityInput<LeadItem>, submittedAt: number = Date.now()): Promise<LeadItem> {
+    const now = Date.now();
+    const lead: LeadItem = {
+      ...input,
+      ...keys.lead(input.toolId, input.leadId),
+      GSI1PK: `EMAIL#${input.email}`,
+      GSI1SK: `LEAD#${submittedAt}`,
+      entityType: 'LEAD',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(validated(leadItemSchema, lead, 'LeadItem'), 'attribute_not_exists(PK)');
+    return lead;
+  }
+
+  async update(toolId: string, leadId: string, updates: EntityUpdate<LeadItem, 'toolId' | 'leadId'>): Promise<void> {
+    const { PK, SK } = keys.lead(toolId, leadId);
+    const fields: Partial<LeadItem> = { ...updates };
+    if (updates.email) {
+      fields.GSI1PK = `EMAIL#${updates.email}`;
+    }
+    await this.dynamoHelper.updateItem<LeadItem>(PK, SK, fields, 'attribute_exists(PK)');
+  }
+}
+
+/**
+ * Lead exports built in the background, `TOOL#{toolId}` / `EXPORT#{exportId}`
+ */
+export class LeadExportRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async get(toolId: string, exportId: string): Promise<LeadExportItem | null> {
+    const { PK, SK } = keys.leadExport(toolId, exportId);
+    return this.dynamoHelper.getItem<LeadExportItem>(PK, SK);
+  }
+
+  async create(input: EntityInput<LeadExportItem>): Promise<LeadExportItem> {
+    const now = Date.now();
+    const leadExport: LeadExportItem = {
+      ...input,
+      ...keys.leadExport(input.toolId, input.exportId),
+      entityType: 'LEAD_EXPORT',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(
+      validated(leadExportItemSchema, leadExport, 'LeadExportItem'),
+      'attribute_not_exists(PK)'
+    );
+    return leadExport;
+  }
+
+  async update(
+    toolId: string,
+    exportId: string,
+    updates: EntityUpdate<LeadExportItem, 'toolId' | 'exportId'>
+  ): Promise<void> {
+    const { PK, SK } = keys.leadExport(toolId, exportId);
+    await this.dynamoHelper.updateItem<LeadExportItem>(PK, SK, updates, 'attribute_exists(PK)');
+  }
+}
+
+/**
+ * Tool interactions, `TOOL#{toolId}` / `INTERACTION#{timestamp}#{interactionId}`,
+ * found by type on GSI1 (`ANALYTICS#{toolId}` / `{interactionType}#{timestamp}`)
+ */
+export class InteractionRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  /**
+   * The item `create` would write, for callers that write it in a transaction
+   */
+  build(input: EntityInput<ToolInteractionItem>, timestamp: number): ToolInteractionItem {
+    const now = Date.now();
+    const interaction: ToolInteractionItem = {
+      ...input,
+      ...keys.interaction(input.toolId, timestamp, input.interactionId),
+      GSI1PK: `ANALYTICS#${input.toolId}`,
+      GSI1SK: `${input.interactionType}#${timestamp}`,
+      entityType: 'INTERACTION',
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+    return validated(toolInteractionItemSchema, interaction, 'ToolInteractionItem');
+  }
+
+  async create(input: EntityInput<ToolInteractionItem>, timestamp: number = Date.now()): Promise<ToolInteractionItem> {
+    const interaction = this.build(input, timestamp);
+    await this.dynamoHelper.putItem(interaction, 'attribute_not_exists(PK)');
+    return interaction;
+  }
+
+  async listByTool(toolId: string, options: TimeWindowOptions = {}): Promise<QueryPage<ToolInteractionItem>> {
+    return this.dynamoHelper.queryPage<ToolInteractionItem>(`TOOL#${toolId}`, {
+      ...newestFirst(options),
+      sortKey: timeWindow('INTERACTION#', options),
+    });
+  }
+
+  async listByType(
+    toolId: string,
+    interactionType: ToolInteractionItem['interactionType'],
+    options: TimeWindowOptions = {}
+  ): Promise<QueryPage<ToolInteractionItem>> {
+    return this.dynamoHelper.queryPage<ToolInteractionItem>(`ANALYTICS#${toolId}`, {
+      ...newestFirst(options),
+      indexName: 'GSI1',
+      sortKey: timeWindow(`${interactionType}#`, options),
+    });
+  }
+}
+
+/**
+ * AI call metrics, `METRIC#{YYYY-MM-DD}` / `REQUEST#{timestamp}#{requestId}`,
+ * found by process on GSI1 (`PROCESS#{process}`) and by provider on GSI2
+ * (`PROVIDER#{provider}`), both sorted by timestamp
+ */
+export class MetricRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async create(input: EntityInput<AIMetricItem>): Promise<AIMetricItem> {
+    const metric: AIMetricItem = {
+      ...input,
+      ...keys.metric(input.timestamp, input.requestId),
+      GSI1PK: `PROCESS#${input.process}`,
+      GSI1SK: `${input.timestamp}`,
+      GSI2PK: `PROVIDER#${input.provider}`,
+      GSI2SK: `${input.timestamp}`,
+      entityType: 'METRIC',
+      createdAt: input.timestamp,
+      updatedAt: input.timestamp,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    await this.dynamoHelper.putItem(validated(aiMetricItemSchema, metric, 'AIMetricItem'));
+    return metric;
+  }
+
+  // `day` is a UTC date, YYYY-MM-DD
+  async listByDay(day: string, options: TimeWindowOptions = {}): Promise<QueryPage<AIMetricItem>> {
+    return this.dynamoHelper.queryPage<AIMetricItem>(`METRIC#${day}`, {
+      ...newestFirst(options),
+      sortKey: timeWindow('REQUEST#', options),
+    });
+  }
+
+  async listByProcess(process: string, options: TimeWindowOptions = {}): Promise<QueryPage<AIMetricItem>> {
+    return this.dynamoHelper.queryPage<AIMetricItem>(`PROCESS#${process}`, {
+      ...newestFirst(options),
+      indexName: 'GSI1',
+      sortKey: timeWindow('', options),
+    });
+  }
+
+  async listByProvider(provider: string, options: TimeWindowOptions = {}): Promise<QueryPage<AIMetricItem>> {
+    return this.dynamoHelper.queryPage<AIMetricItem>(`PROVIDER#${provider}`, {
+      ...newestFirst(options),
+      indexName: 'GSI2',
+      sortKey: timeWindow('', options),
+    });
+  }
+}
+
+/**
+ * Operational alerts, `ALERT#{alertId}` / `ALERT`, found by type on GSI1
+ * (`ALERT_TYPE#{type}` / `{severity}#{timestamp}`)
+ */
+export class AlertRepository {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async get(alertId: string): Promise<AlertItem | null> {
+    const { PK, SK } = keys.alert(alertId);
+    return this.dynamoHelper.getItem<AlertItem>(PK, SK);
+  }
+
+  /**
+   * Returns false, writing nothing, when an alert with this id already exists,
+   * so deterministic ids raise each alert once
+   */
+  async create(input: EntityInput<AlertItem>): Promise<boolean> {
+    const alert: AlertItem = {
+      ...input,
+      ...keys.alert(input.alertId),
+      GSI1PK: `ALERT_TYPE#${input.type}`,
+      GSI1SK: `${input.severity}#${input.timestamp}`,
+      entityType: 'ALERT',
+      createdAt: input.timestamp,
+      updatedAt: input.timestamp,
+      version: 0,
+      metadata: input.metadata || {},
+    };
+
+    try {
+      await this.dynamoHelper.putItem(validated(alertItemSchema, alert, 'AlertItem'), 'attribute_not_exists(PK)');
+      return true;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Alerts are sorted by severity first, so a time window needs a severity
+   */
+  async listByType(
+    type: AlertItem['type'],
+    severity?: AlertItem['severity'],
+    options: TimeWindowOptions = {}
+  ): Promise<QueryPage<AlertItem>> {
+    if (!severity && (options.from !== undefined || options.to !== undefined)) {
+      throw new Error('Listing alerts by time requires a severity');
+    }
+    return this.dynamoHelper.queryPage<AlertItem>(`ALERT_TYPE#${type}`, {
+      ...newestFirst(options),
+      indexName: 'GSI1',
+      sortKey: severity ? timeWindow(`${severity}#`, options) : undefined,
+    });
+  }
+
+  async resolve(alertId: string, resolvedBy: string): Promise<void> {
+    const { PK, SK } = keys.alert(alertId);
+    await this.dynamoHelper.updateItem<AlertItem>(
+      PK,
+      SK,
+      { resolved: true, resolvedAt: Date.now(), resolvedBy },
+      'attribute_exists(PK)'
+    );
+  }
+}
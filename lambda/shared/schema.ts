@@ -0,0 +1,292 @@
+// Runtime schemas for queue messages and table items. Each schema validates a
+// value and carries its TypeScript type (`Infer<typeof schema>`), so the two
+// cannot drift apart.
+
+export interface SchemaIssue {
+  // Dotted path to the offending field, e.g. `data.source.referrer` or `items[2]`
+  path: string;
+  message: string;
+}
+
+export class SchemaValidationError extends Error {
+  constructor(
+    public schemaName: string,
+    public issues: SchemaIssue[]
+  ) {
+    super(`Invalid ${schemaName}: ${issues.map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+type Check<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+export class Schema<T> {
+  constructor(readonly check: Check<T>) {}
+
+  /**
+   * The value, typed, or a SchemaValidationError listing every problem.
+   * `name` identifies the schema in the error message.
+   */
+  parse(value: unknown, name: string = 'value'): T {
+    const issues: SchemaIssue[] = [];
+    const result = this.check(value, '', issues);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(name, issues);
+    }
+    return result;
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema<T>((value, path, issues) => value === undefined ? undefined : this.check(value, path, issues));
+  }
+
+  // An extra rule the type cannot express
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema<T>((value, path, issues) => {
+      const before = issues.length;
+      const result = this.check(value, path, issues);
+      if (issues.length === before && !predicate(result)) {
+        issues.push({ path, message });
+      }
+      return result;
+    });
+  }
+}
+
+// Marks an object key as optional in the inferred type
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectType<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function typed<T>(expected: string, isType: (value: unknown) => boolean): Schema<T> {
+  return new Schema<T>((value, path, issues) => {
+    if (!isType(value)) {
+      issues.push({ path, message: value === undefined ? 'is required' : `must be ${expected}, got ${describe(value)}` });
+    }
+    return value as T;
+  });
+}
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+  return typed<string>('a string', value => typeof value === 'string').refine(
+    value => value.length >= (options.min ?? 0)
+      && value.length <= (options.max ?? Infinity)
+      && (!options.pattern || options.pattern.test(value)),
+    options.pattern ? `must match ${options.pattern}` : lengthRule(options.min ?? 0, options.max)
+  );
+}
+
+function lengthRule(min: number, max?: number): string {
+  if (max === undefined) {
+    return min === 1 ? 'must not be empty' : `must be at least ${min} characters`;
+  }
+  return `must be ${min} to ${max} characters`;
+}
+
+// A non-empty string, such as an id
+export function id(): Schema<string> {
+  return string({ min: 1 });
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return typed<number>('a number', value => typeof value === 'number' && Number.isFinite(value)).refine(
+    value => (!options.integer || Number.isInteger(value))
+      && value >= (options.min ?? -Infinity)
+      && value <= (options.max ?? Infinity),
+    `must be ${options.integer ? 'an integer' : 'a number'}${options.min !== undefined ? ` >= ${options.min}` : ''}${options.max !== undefined ? ` <= ${options.max}` : ''}`
+  );
+}
+
+// Epoch milliseconds
+export function timestamp(): Schema<number> {
+  return number({ integer: true, min: 0 });
+}
+
+export function boolean(): Schema<boolean> {
+  return typed<boolean>('a boolean', value => typeof value === 'boolean');
+}
+
+export function literal<V extends string | number | boolean>(expected: V): Schema<V> {
+  return new Schema<V>((value, path, issues) => {
+    if (value !== expected) {
+      issues.push({ path, message: `must be ${JSON.stringify(expected)}` });
+    }
+    return value as V;
+  });
+}
+
+export function oneOf<V extends string>(values: readonly V[]): Schema<V> {
+  return new Schema<V>((value, path, issues) => {
+    if (!values.includes(value as V)) {
+      issues.push({ path, message: `must be one of ${values.join(', ')}` });
+    }
+    return value as V;
+  });
+}
+
+/**
+ * A string matching `pattern`, typed as the template literal `T`. The pattern
+ * is what is checked at runtime, so it must describe `T`.
+ */
+export function template<T extends string>(pattern: RegExp): Schema<T> {
+  return string({ pattern }) as Schema<string> as Schema<T>;
+}
+
+export function prefixed<P extends string>(prefix: P): Schema<`${P}${string}`> {
+  return typed<`${P}${string}`>(`a string starting with ${prefix}`, value => typeof value === 'string' && value.startsWith(prefix));
+}
+
+export function array<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+  return new Schema<T[]>((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: value === undefined ? 'is required' : `must be an array, got ${describe(value)}` });
+      return value as T[];
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      issues.push({ path, message: `must have at most ${options.max} items` });
+    }
+    return value.map((element, index) => item.check(element, childPath(path, index), issues));
+  });
+}
+
+/**
+ * A value matching any of `schemas`, tried in order. When none matches, the
+ * problems reported are those of the closest alternative: one the value's
+ * type matched, then the one with the fewest problems.
+ */
+export function union<T extends Schema<any>[]>(...schemas: T): Schema<Infer<T[number]>> {
+  return new Schema<Infer<T[number]>>((value, path, issues) => {
+    // Problems with the value itself (its type) outweigh any number inside it
+    const distance = (attempt: SchemaIssue[]) =>
+      attempt.length + (attempt.some(issue => issue.path === path) ? Number.MAX_SAFE_INTEGER / 2 : 0);
+
+    let closest: SchemaIssue[] = [];
+    for (const schema of schemas) {
+      const attempt: SchemaIssue[] = [];
+      schema.check(value, path, attempt);
+      if (attempt.length === 0) {
+        return value as Infer<T[number]>;
+      }
+      if (closest.length === 0 || distance(attempt) < distance(closest)) {
+        closest = attempt;
+      }
+    }
+    issues.push(...closest);
+    return value as Infer<T[number]>;
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+  return new Schema<Record<string, T>>((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: value === undefined ? 'is required' : `must be an object, got ${describe(value)}` });
+      return value as Record<string, T>;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      // Dropped when serialized, like json()'s undefined members
+      if (element !== undefined) {
+        valueSchema.check(element, childPath(path, key), issues);
+      }
+    }
+    return value as Record<string, T>;
+  });
+}
+
+/**
+ * An object with the given fields. Other fields are kept as they are, so
+ * items and messages written by newer code still validate.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+  return new Schema<ObjectType<S>>((value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: value === undefined ? 'is required' : `must be an object, got ${describe(value)}` });
+      return value as ObjectType<S>;
+    }
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      fieldSchema.check(value[key], childPath(path, key), issues);
+    }
+    return value as ObjectType<S>;
+  });
+}
+
+/**
+ * Any JSON value, for free-form payloads such as AI process input or template
+ * data. Typed `any`: readers narrow these themselves. Undefined
+ * object members are allowed, since they are dropped when serialized.
+ */
+export function json(): Schema<any> {
+  const check: Check<any> = (value, path, issues) => {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((element, index) => check(element, childPath(path, index), issues));
+      return value;
+    }
+    if (isPlainObject(value)) {
+      for (const [key, element] of Object.entries(value)) {
+        if (element !== undefined) {
+          check(element, childPath(path, key), issues);
+        }
+      }
+      return value;
+    }
+    issues.push({ path, message: value === undefined ? 'is required' : `must be JSON, got ${describe(value)}` });
+    return value;
+  };
+  return new Schema(check);
+}
+
+/**
+ * Parse a queue message body. Malformed JSON is reported as a
+ * SchemaValidationError too, since retrying cannot fix either. `upcast`
+ * rewrites the parsed body before it is checked.
+ */
+export function parseMessage<T>(
+  body: string,
+  schema: Schema<T>,
+  name: string,
+  upcast: (value: unknown) => unknown = value => value
+): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch (error) {
+    throw new SchemaValidationError(name, [{ path: '', message: `is not valid JSON (${error instanceof Error ? error.message : error})` }]);
+  }
+  return schema.parse(upcast(value), name);
+}
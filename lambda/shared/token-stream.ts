@@ -0,0 +1,164 @@
+import {
+  AICompletionResult,
+  AIProcessName,
+  StreamFrameItem,
+  TokenStreamFrame,
+} from './types';
+import {
+  DynamoDBHelper,
+  SQSHelper,
+  generateId,
+  getEnvironment,
+  getTTL,
+} from './utils';
+import { keys } from './repositories';
+import { streamFrameItemSchema } from './entity-schemas';
+import { queueBroadcast } from './websocket-channels';
+
+// Deltas are coalesced so we neither queue nor persist a frame per token
+const FLUSH_INTERVAL_MS = 150;
+const FLUSH_MAX_CHARS = 200;
+// Frames are kept long enough for a client to reconnect and resume
+const FRAME_TTL_DAYS = 1;
+
+export interface TokenStreamOptions {
+  userId: string;
+  sessionId: string;
+  process: AIProcessName;
+  streamId?: string;
+  // Copied onto every frame
+  correlationId?: string;
+}
+
+/**
+ * Streams partial completions to the user's connections subscribed to
+ * `session:{sessionId}` as sequenced `token_delta` frames followed by a single
+ * `completion` frame. Frames are queued for the fan-out function, which
+ * reads the current subscribers, so clients that reconnect mid-stream are
+ * picked up.
+ * Each frame is also stored under `STREAM#{streamId}` so a client can resume
+ * from its last seen sequence number after reconnecting.
+ */
+export class TokenStreamPublisher {
+  readonly streamId: string;
+  private sequence = 0;
+  private buffer = '';
+  private lastFlush = Date.now();
+  private dynamoHelper: DynamoDBHelper;
+  private sqsHelper: SQSHelper;
+
+  constructor(private options: TokenStreamOptions, dynamoHelper?: DynamoDBHelper, sqsHelper?: SQSHelper) {
+    this.streamId = options.streamId || generateId();
+    this.dynamoHelper = dynamoHelper || new DynamoDBHelper();
+    this.sqsHelper = sqsHelper || new SQSHelper();
+  }
+
+  get enabled(): boolean {
+    return Boolean(getEnvironment().WEBSOCKET_BROADCAST_QUEUE_URL);
+  }
+
+  /**
+   * Buffer a text fragment, flushing a frame once enough text or time has accumulated
+   */
+  async push(delta: string): Promise<void> {
+    if (!this.enabled) return;
+
+    this.buffer += delta;
+    if (this.buffer.length >= FLUSH_MAX_CHARS || Date.now() - this.lastFlush >= FLUSH_INTERVAL_MS) {
+      await this.flush();
+    }
+  }
+
+  async complete(result: AICompletionResult): Promise<void> {
+    if (!this.enabled) return;
+
+    await this.flush();
+    await this.publish({
+      type: 'completion',
+      streamId: this.streamId,
+      sessionId: this.options.sessionId,
+      process: this.options.process,
+      sequence: this.nextSequence(),
+      status: 'completed',
+      content: result.content,
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+      timestamp: Date.now(),
+      correlationId: this.options.correlationId,
+    });
+  }
+
+  async fail(error: unknown): Promise<void> {
+    if (!this.enabled) return;
+
+    await this.flush();
+    await this.publish({
+      type: 'completion',
+      streamId: this.streamId,
+      sessionId: this.options.sessionId,
+      process: this.options.process,
+      sequence: this.nextSequence(),
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: Date.now(),
+      correlationId: this.options.correlationId,
+    });
+  }
+
+  private async flush(): Promise<void> {
+    this.lastFlush = Date.now();
+    if (!this.buffer) return;
+
+    const delta = this.buffer;
+    this.buffer = '';
+
+    await this.publish({
+      type: 'token_delta',
+      streamId: this.streamId,
+      sessionId: this.options.sessionId,
+      process: this.options.process,
+      sequence: this.nextSequence(),
+      delta,
+      timestamp: Date.now(),
+      correlationId: this.options.correlationId,
+    });
+  }
+
+  private nextSequence(): number {
+    this.sequence += 1;
+    return this.sequence;
+  }
+
+  private async publish(frame: TokenStreamFrame): Promise<void> {
+    const frameItem: StreamFrameItem = {
+      ...keys.streamFrame(this.streamId, frame.sequence),
+      entityType: 'STREAM_FRAME',
+      streamId: this.streamId,
+      userId: this.options.userId,
+      sequence: frame.sequence,
+      frame,
+      createdAt: frame.timestamp,
+      updatedAt: frame.timestamp,
+      version: 0,
+      metadata: {},
+      ttl: getTTL(FRAME_TTL_DAYS),
+    };
+
+    try {
+      streamFrameItemSchema.parse(frameItem, 'StreamFrameItem');
+      // Persist before queueing so a resume never misses a frame the client saw
+      await this.dynamoHelper.putItem(frameItem);
+      await queueBroadcast(`session:${this.options.sessionId}`, frame, this.options.userId, this.sqsHelper, {
+        correlationId: this.options.correlationId,
+      });
+    } catch (error) {
+      // Streaming is best-effort; the final result is still stored on the session
+      console.error('Failed to publish stream frame:', {
+        streamId: this.streamId,
+        sequence: frame.sequence,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
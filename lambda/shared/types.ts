@@ -1,41 +1,74 @@
 // Shared types for Lambda functions
 
-export interface AIProcessingMessage {
-  messageType: 'AI_PROCESSING';
-  sessionId: string;
-  userId: string;
-  process: 'magicSpark' | 'logicArchitect' | 'contentCrafter' | 'styleMaster';
-  input: any;
-  priority: 'high' | 'normal' | 'low';
-  timestamp: number;
-}
+import {
+  EMAIL_SUPPRESSION_REASONS,
+  aiMetricItemSchema,
+  aiSessionItemSchema,
+  alertItemSchema,
+  analyticsAggregateItemSchema,
+  channelSubscriptionItemSchema,
+  conversationMessageItemSchema,
+  emailSendAttemptItemSchema,
+  emailSuppressionItemSchema,
+  emailTemplateItemSchema,
+  leadExportItemSchema,
+  leadItemSchema,
+  leadScoringConfigSchema,
+  leadScoringRuleSchema,
+  streamFrameItemSchema,
+  toolInteractionItemSchema,
+  toolItemSchema,
+  usageCounterItemSchema,
+  userItemSchema,
+  webhookDeliveryAttemptItemSchema,
+  webhookSubscriptionItemSchema,
+  webSocketConnectionItemSchema,
+} from './entity-schemas';
+import {
+  AI_PROVIDER_NAMES,
+  aiProcessingMessageSchema,
+  analyticsProcessingMessageSchema,
+  completionFrameSchema,
+  emailNotificationMessageSchema,
+  leadExportMessageSchema,
+  leadSourceSchema,
+  tokenDeltaFrameSchema,
+  webhookDeliveryMessageSchema,
+  webhookEventSchema,
+  webhookPayloadSchema,
+  webSocketBroadcastMessageSchema,
+  webSocketMessageSchema,
+} from './message-schemas';
+import { messageEnvelopeSchema } from './message-envelope';
+import { Infer } from './schema';
 
-export interface AnalyticsProcessingMessage {
-  messageType: 'ANALYTICS_PROCESSING';
-  toolId: string;
-  interactionType: string;
-  data: any;
-  timestamp: number;
-}
+// Queue messages, inferred from the schemas consumers validate them with
+export type MessageEnvelope = Infer<typeof messageEnvelopeSchema>;
 
-export interface EmailNotificationMessage {
-  messageType: 'EMAIL_NOTIFICATION';
-  userId: string;
-  templateId: string;
-  data: any;
-  priority: 'high' | 'normal';
-  timestamp: number;
-}
+// A message as producers hand it to SQSHelper, which adds the envelope
+export type OutgoingMessage<T extends { envelope: MessageEnvelope }> = Omit<T, 'envelope'>;
 
-export interface WebSocketMessage {
-  action: 'connect' | 'disconnect' | 'message';
-  connectionId: string;
-  userId?: string;
-  sessionId?: string;
-  data?: any;
-}
+export type AIProcessingMessage = Infer<typeof aiProcessingMessageSchema>;
+
+export type AnalyticsProcessingMessage = Infer<typeof analyticsProcessingMessageSchema>;
 
-// DynamoDB Entity Types
+export type EmailNotificationMessage = Infer<typeof emailNotificationMessageSchema>;
+
+export type WebhookEvent = Infer<typeof webhookEventSchema>;
+
+export type WebhookDeliveryMessage = Infer<typeof webhookDeliveryMessageSchema>;
+
+export type LeadExportMessage = Infer<typeof leadExportMessageSchema>;
+
+// JSON body POSTed to the subscriber
+export type WebhookPayload = Infer<typeof webhookPayloadSchema>;
+
+// Queued for the WebSocket fan-out function; ordered per channel
+export type WebSocketBroadcastMessage = Infer<typeof webSocketBroadcastMessageSchema>;
+
+export type WebSocketMessage = Infer<typeof webSocketMessageSchema>;
+
+// DynamoDB Entity Types, inferred from the schemas in entity-schemas.ts
 export interface KeyvexTableItem {
   PK: string;
   SK: string;
@@ -43,6 +76,8 @@ export interface KeyvexTableItem {
   GSI1SK?: string;
   GSI2PK?: string;
   GSI2SK?: string;
+  GSI3PK?: string;
+  GSI3SK?: string;
   entityType: string;
   createdAt: number;
   updatedAt: number;
@@ -52,177 +87,217 @@ export interface KeyvexTableItem {
   [key: string]: any;
 }
 
-export interface UserItem extends KeyvexTableItem {
-  PK: `USER#${string}`;
-  SK: 'PROFILE';
-  GSI1PK: `EMAIL#${string}`;
-  GSI1SK: 'USER';
-  entityType: 'USER';
-  clerkId: string;
-  email: string;
-  subscriptionTier: string;
-  preferences: {
-    defaultModels: Record<string, string>;
-    debugMode: boolean;
-    notifications: boolean;
-  };
-}
+export type UserItem = KeyvexTableItem & Infer<typeof userItemSchema>;
 
-export interface ToolItem extends KeyvexTableItem {
-  PK: `USER#${string}`;
-  SK: `TOOL#${string}`;
-  GSI1PK: `TOOL#${string}`;
-  GSI1SK: `STATUS#${string}`;
-  GSI2PK: `TYPE#${string}`;
-  GSI2SK: `CREATED#${number}`;
-  entityType: 'TOOL';
-  toolId: string;
-  userId: string;
-  name: string;
-  type: 'calculator' | 'quiz' | 'assessment';
-  status: 'draft' | 'published' | 'archived';
-  configuration: any;
-  styling: any;
-  analytics: {
-    totalViews: number;
-    totalCompletions: number;
-    totalLeads: number;
-    conversionRate: number;
-    lastActivity: number;
-  };
+export type ToolItem = KeyvexTableItem & Infer<typeof toolItemSchema>;
+
+export type LeadScoringRule = Infer<typeof leadScoringRuleSchema>;
+
+export type LeadScoringConfig = Infer<typeof leadScoringConfigSchema>;
+
+// The latest outcome of each AI process run for a session, e.g. `magicSparkResult`
+export type AIProcessResults = Partial<Record<`${AIProcessName}Result`, any>>;
+
+// The stream of each AI process's current run, e.g. `magicSparkStreamId`; clients resume it with `resume`
+export type AIProcessStreams = Partial<Record<`${AIProcessName}StreamId`, string>>;
+
+export type AISessionItem = KeyvexTableItem & AIProcessResults & AIProcessStreams & Infer<typeof aiSessionItemSchema>;
+
+export type ConversationMessageItem = KeyvexTableItem & Infer<typeof conversationMessageItemSchema>;
+
+export type LeadItem = KeyvexTableItem & Infer<typeof leadItemSchema>;
+
+// Where a lead came from, as the embed reports it (lead_capture `data.source`)
+export type LeadSource = Infer<typeof leadSourceSchema>;
+
+export type LeadExportItem = KeyvexTableItem & Infer<typeof leadExportItemSchema>;
+
+export type ToolInteractionItem = KeyvexTableItem & Infer<typeof toolInteractionItemSchema>;
+
+// `dropOffStep{n}` counters are named at runtime, so the schema cannot declare them
+export type AnalyticsAggregateItem = KeyvexTableItem & Infer<typeof analyticsAggregateItemSchema> & {
+  [dropOffStep: `dropOffStep${number}`]: number | undefined;
+};
+
+export type AIMetricItem = KeyvexTableItem & Infer<typeof aiMetricItemSchema>;
+
+export type AlertItem = KeyvexTableItem & Infer<typeof alertItemSchema>;
+
+export type WebSocketConnectionItem = KeyvexTableItem & Infer<typeof webSocketConnectionItemSchema>;
+
+export type ChannelSubscriptionItem = KeyvexTableItem & Infer<typeof channelSubscriptionItemSchema>;
+
+export type UsageCounterItem = KeyvexTableItem & Infer<typeof usageCounterItemSchema>;
+
+export type EmailTemplateItem = KeyvexTableItem & Infer<typeof emailTemplateItemSchema>;
+
+export type EmailSendAttemptItem = KeyvexTableItem & Infer<typeof emailSendAttemptItemSchema>;
+
+export type EmailSuppressionReason = (typeof EMAIL_SUPPRESSION_REASONS)[number];
+
+export type EmailSuppressionItem = KeyvexTableItem & Infer<typeof emailSuppressionItemSchema>;
+
+export type WebhookSubscriptionItem = KeyvexTableItem & Infer<typeof webhookSubscriptionItemSchema>;
+
+export type WebhookDeliveryAttemptItem = KeyvexTableItem & Infer<typeof webhookDeliveryAttemptItemSchema>;
+
+// AI provider types
+export type AIProcessName = AIProcessingMessage['process'];
+
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface AIChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
-export interface AISessionItem extends KeyvexTableItem {
-  PK: `SESSION#${string}`;
-  SK: 'METADATA';
-  GSI1PK: `USER#${string}`;
-  GSI1SK: `SESSION#${number}`;
-  entityType: 'SESSION';
-  sessionId: string;
-  userId: string;
-  toolId?: string;
-  currentStep: string;
-  status: 'active' | 'completed' | 'abandoned';
-  sessionData: {
-    currentAgent: string;
-    progress: number;
-    totalSteps: number;
-    modelUsage: Record<string, number>;
-    totalCost: number;
-  };
+export interface AICompletionRequest {
+  model: string;
+  system?: string;
+  messages: AIChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
 }
 
-export interface ConversationMessageItem extends KeyvexTableItem {
-  PK: `SESSION#${string}`;
-  SK: `MESSAGE#${number}#${string}`;
-  entityType: 'MESSAGE';
-  sessionId: string;
-  messageId: string;
-  role: 'user' | 'assistant' | 'system';
+export interface AICompletionResult {
+  provider: AIProviderName;
+  model: string;
   content: string;
-  timestamp: number;
-  agent?: string;
-  modelUsed?: string;
-  tokenCount?: number;
-  cost?: number;
-}
-
-export interface LeadItem extends KeyvexTableItem {
-  PK: `TOOL#${string}`;
-  SK: `LEAD#${string}`;
-  GSI1PK: `EMAIL#${string}`;
-  GSI1SK: `LEAD#${number}`;
-  entityType: 'LEAD';
-  leadId: string;
-  toolId: string;
-  email: string;
-  name?: string;
-  company?: string;
-  phone?: string;
-  responses: any;
-  score?: number;
-  resultCategory?: string;
-  source: {
-    referrer?: string;
-    utm?: Record<string, string>;
-    userAgent?: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
   };
+  finishReason?: string;
+  latency: number;
 }
 
-export interface ToolInteractionItem extends KeyvexTableItem {
-  PK: `TOOL#${string}`;
-  SK: `INTERACTION#${number}#${string}`;
-  GSI1PK: `ANALYTICS#${string}`;
-  GSI1SK: `${string}#${number}`;
-  entityType: 'INTERACTION';
-  toolId: string;
-  interactionId: string;
-  sessionId?: string;
-  interactionType: 'view' | 'start' | 'complete' | 'abandon' | 'lead_capture' | 'share';
-  interactionData?: {
-    stepCompleted?: number;
-    totalSteps?: number;
-    timeSpent?: number;
-    userAgent?: string;
-    referrer?: string;
-  };
+// Token streaming frames pushed to WebSocket clients
+export type TokenDeltaFrame = Infer<typeof tokenDeltaFrameSchema>;
+
+export type CompletionFrame = Infer<typeof completionFrameSchema>;
+
+export type TokenStreamFrame = TokenDeltaFrame | CompletionFrame;
+
+// WebSocket client protocol. Clients send JSON messages with an `action` on
+// the $default route and receive frames with a `type`.
+export type WebSocketChannelType = 'job' | 'session' | 'tool';
+export type WebSocketChannel = `${WebSocketChannelType}:${string}`;
+
+export interface SubscribeMessage {
+  action: 'subscribe';
+  channel: WebSocketChannel;
+  // Echoed back on the reply so clients can match it to the request
+  requestId?: string;
 }
 
-export interface AIMetricItem extends KeyvexTableItem {
-  PK: `METRIC#${string}`;
-  SK: `REQUEST#${number}#${string}`;
-  GSI1PK: `PROCESS#${string}`;
-  GSI1SK: `${number}`;
-  GSI2PK: `PROVIDER#${string}`;
-  GSI2SK: `${number}`;
-  entityType: 'METRIC';
-  requestId: string;
-  userId: string;
-  process: string;
-  provider: string;
-  model: string;
-  inputTokens: number;
-  outputTokens: number;
-  cost: number;
-  latency: number;
-  success: boolean;
-  error?: string;
+export interface UnsubscribeMessage {
+  action: 'unsubscribe';
+  channel: WebSocketChannel;
+  requestId?: string;
+}
+
+export interface PingMessage {
+  action: 'ping';
+  requestId?: string;
+}
+
+export interface ResumeMessage {
+  action: 'resume';
+  streamId: string;
+  afterSequence: number;
+  requestId?: string;
+}
+
+export type WebSocketClientMessage = SubscribeMessage | UnsubscribeMessage | PingMessage | ResumeMessage;
+
+export type WebSocketErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_ACTION'
+  | 'INVALID_CHANNEL'
+  | 'FORBIDDEN'
+  | 'BUDGET_EXCEEDED'
+  | 'INTERNAL_ERROR';
+
+export interface SubscriptionFrame {
+  type: 'subscribed' | 'unsubscribed';
+  channel: WebSocketChannel;
+  requestId?: string;
+  timestamp: number;
+}
+
+export interface PongFrame {
+  type: 'pong';
+  requestId?: string;
   timestamp: number;
-  ttl: number;
-}
-
-export interface AlertItem extends KeyvexTableItem {
-  PK: `ALERT#${string}`;
-  SK: 'ALERT';
-  GSI1PK: `ALERT_TYPE#${string}`;
-  GSI1SK: `${string}#${number}`;
-  entityType: 'ALERT';
-  alertId: string;
-  type: 'cost' | 'performance' | 'error';
-  severity: 'low' | 'medium' | 'high';
+}
+
+export interface ErrorFrame {
+  type: 'error';
+  code: WebSocketErrorCode;
   message: string;
+  requestId?: string;
   timestamp: number;
-  resolved: boolean;
-  resolvedAt?: number;
-  resolvedBy?: string;
-  data?: Record<string, any>;
-  ttl: number;
-}
-
-export interface WebSocketConnectionItem extends KeyvexTableItem {
-  PK: `CONNECTION#${string}`;
-  SK: 'METADATA';
-  GSI1PK: `USER#${string}`;
-  GSI1SK: `CONNECTION#${number}`;
-  entityType: 'CONNECTION';
-  connectionId: string;
-  userId: string;
+  correlationId?: string;
+}
+
+// Sent to subscribers of `session:{sessionId}` when an AI request is refused
+export interface BudgetExceededFrame extends ErrorFrame {
+  code: 'BUDGET_EXCEEDED';
+  sessionId: string;
+  process: AIProcessName;
+  tier: string;
+  limit: number;
+  monthlySpend: number;
+}
+
+// Sent to subscribers of `job:{jobId}`
+export interface StepProgressFrame {
+  type: 'step_progress';
+  channel: WebSocketChannel;
+  jobId: string;
+  stepName: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  data?: any;
+  timestamp: string;
+  correlationId?: string;
+}
+
+// Sent to subscribers of `tool:{toolId}` for each recorded interaction
+export interface AnalyticsEventFrame {
+  type: 'analytics_event';
+  channel: WebSocketChannel;
+  toolId: string;
+  interactionType: ToolInteractionItem['interactionType'];
   sessionId?: string;
-  connectedAt: number;
-  lastActivity: number;
-  ttl: number;
+  timestamp: number;
+  correlationId?: string;
 }
 
+// Sent in place of a frame too large for API Gateway; the client fetches the
+// original frame from `url`
+export interface PayloadPointerFrame {
+  type: 'payload_pointer';
+  channel: WebSocketChannel;
+  frameType: string;
+  url: string;
+  size: number;
+  expiresAt: number;
+  timestamp: number;
+  correlationId?: string;
+}
+
+// Token stream frames are sent to subscribers of `session:{sessionId}`
+export type WebSocketServerFrame =
+  | SubscriptionFrame
+  | PongFrame
+  | ErrorFrame
+  | StepProgressFrame
+  | AnalyticsEventFrame
+  | PayloadPointerFrame
+  | TokenStreamFrame;
+
+export type StreamFrameItem = KeyvexTableItem & Infer<typeof streamFrameItemSchema>;
+
 // Environment variables interface
 export interface LambdaEnvironment {
   ENVIRONMENT: string;
@@ -234,8 +309,33 @@ export interface LambdaEnvironment {
   DATABASE_SECRETS_ARN: string;
   AWS_REGION: string;
   AI_PROCESSING_QUEUE_URL?: string;
+  AI_PROCESSING_HIGH_PRIORITY_QUEUE_URL?: string;
+  AI_PROCESSING_LOW_PRIORITY_QUEUE_URL?: string;
   ANALYTICS_QUEUE_URL?: string;
   EMAIL_QUEUE_URL?: string;
+  EMAIL_HIGH_PRIORITY_QUEUE_URL?: string;
+  OPENAI_BASE_URL?: string;
+  ANTHROPIC_BASE_URL?: string;
+  WEBSOCKET_DOMAIN?: string;
+  WEBSOCKET_STAGE?: string;
+  EMAIL_TRANSPORT?: string;
+  EMAIL_FROM_ADDRESS?: string;
+  EMAIL_FROM_NAME?: string;
+  EMAIL_OUTPUT_DIR?: string;
+  SENDGRID_BASE_URL?: string;
+  UNSUBSCRIBE_BASE_URL?: string;
+  TOOL_ASSETS_BUCKET_NAME?: string;
+  WEBHOOK_DELIVERY_QUEUE_URL?: string;
+  WEBHOOK_DELIVERY_DLQ_URL?: string;
+  LEAD_EXPORT_QUEUE_URL?: string;
+  CLERK_ISSUER?: string;
+  CLERK_JWKS_URL?: string;
+  CLERK_JWKS_FILE?: string;
+  CLERK_AUTHORIZED_PARTIES?: string;
+  CONNECTION_IDLE_MINUTES?: string;
+  WEBSOCKET_BROADCAST_QUEUE_URL?: string;
+  // JSON array of { queueArn, deadLetterQueueUrl } for the queues a consumer reads
+  DEAD_LETTER_QUEUE_URLS?: string;
 }
 
 // Response types
@@ -1,13 +1,29 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, BatchWriteCommand, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand, QueryCommandInput, ScanCommand, TransactWriteCommand, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
-import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
-import { LambdaEnvironment, KeyvexTableItem, LambdaResponse } from './types';
+import { ApiGatewayManagementApiClient } from '@aws-sdk/client-apigatewaymanagementapi';
+import { SQSRecord } from 'aws-lambda';
+import {
+  AIProcessingMessage,
+  AnalyticsProcessingMessage,
+  EmailNotificationMessage,
+  LambdaEnvironment,
+  KeyvexTableItem,
+  LambdaResponse,
+  LeadExportMessage,
+  OutgoingMessage,
+  WebhookDeliveryMessage,
+  WebSocketBroadcastMessage,
+} from './types';
+import { MessageContext, createEnvelope } from './message-envelope';
 
 // Initialize AWS clients
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
+// Optional attributes are often left undefined; drop them instead of failing the write
+const docClient = DynamoDBDocumentClient.from(dynamoClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
 const secretsClient = new SecretsManagerClient({ region: process.env.AWS_REGION });
 const sqsClient = new SQSClient({ region: process.env.AWS_REGION });
 
@@ -19,16 +35,383 @@ export function getEnvironment(): LambdaEnvironment {
     REDIS_ENDPOINT: process.env.REDIS_ENDPOINT || '',
     REDIS_PORT: process.env.REDIS_PORT || '6379',
     AI_SECRETS_ARN: process.env.AI_SECRETS_ARN || '',
-    INTEGRATIONS_SECRETS_ARN: process.env.INTEGRATIONS_SECRETS_ARN || '',
+    // ComputeStack sets INTEGRATION_SECRETS_ARN
+    INTEGRATIONS_SECRETS_ARN: process.env.INTEGRATIONS_SECRETS_ARN || process.env.INTEGRATION_SECRETS_ARN || '',
     DATABASE_SECRETS_ARN: process.env.DATABASE_SECRETS_ARN || '',
     AWS_REGION: process.env.AWS_REGION || 'us-east-1',
     AI_PROCESSING_QUEUE_URL: process.env.AI_PROCESSING_QUEUE_URL,
+    AI_PROCESSING_HIGH_PRIORITY_QUEUE_URL: process.env.AI_PROCESSING_HIGH_PRIORITY_QUEUE_URL,
+    AI_PROCESSING_LOW_PRIORITY_QUEUE_URL: process.env.AI_PROCESSING_LOW_PRIORITY_QUEUE_URL,
     ANALYTICS_QUEUE_URL: process.env.ANALYTICS_QUEUE_URL,
     EMAIL_QUEUE_URL: process.env.EMAIL_QUEUE_URL,
+    EMAIL_HIGH_PRIORITY_QUEUE_URL: process.env.EMAIL_HIGH_PRIORITY_QUEUE_URL,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL,
+    WEBSOCKET_DOMAIN: process.env.WEBSOCKET_DOMAIN,
+    WEBSOCKET_STAGE: process.env.WEBSOCKET_STAGE,
+    EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+    EMAIL_FROM_ADDRESS: process.env.EMAIL_FROM_ADDRESS,
+    EMAIL_FROM_NAME: process.env.EMAIL_FROM_NAME,
+    EMAIL_OUTPUT_DIR: process.env.EMAIL_OUTPUT_DIR,
+    SENDGRID_BASE_URL: process.env.SENDGRID_BASE_URL,
+    UNSUBSCRIBE_BASE_URL: process.env.UNSUBSCRIBE_BASE_URL,
+    TOOL_ASSETS_BUCKET_NAME: process.env.TOOL_ASSETS_BUCKET_NAME,
+    WEBHOOK_DELIVERY_QUEUE_URL: process.env.WEBHOOK_DELIVERY_QUEUE_URL,
+    WEBHOOK_DELIVERY_DLQ_URL: process.env.WEBHOOK_DELIVERY_DLQ_URL,
+    LEAD_EXPORT_QUEUE_URL: process.env.LEAD_EXPORT_QUEUE_URL,
+    CLERK_ISSUER: process.env.CLERK_ISSUER,
+    CLERK_JWKS_URL: process.env.CLERK_JWKS_URL,
+    CLERK_JWKS_FILE: process.env.CLERK_JWKS_FILE,
+    CLERK_AUTHORIZED_PARTIES: process.env.CLERK_AUTHORIZED_PARTIES,
+    CONNECTION_IDLE_MINUTES: process.env.CONNECTION_IDLE_MINUTES,
+    WEBSOCKET_BROADCAST_QUEUE_URL: process.env.WEBSOCKET_BROADCAST_QUEUE_URL,
+    DEAD_LETTER_QUEUE_URLS: process.env.DEAD_LETTER_QUEUE_URLS,
   };
 }
 
 // DynamoDB helpers
+type TransactWriteItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+// A TransactWriteItems entry whose TableName defaults to the helper's table
+export type TransactWriteEntry = {
+  [K in keyof TransactWriteItem]?: Omit<NonNullable<TransactWriteItem[K]>, 'TableName'> & { TableName?: string };
+};
+
+export interface UpdateExpressionParts {
+  UpdateExpression: string;
+  ExpressionAttributeNames: Record<string, string>;
+  ExpressionAttributeValues: Record<string, any>;
+}
+
+export interface ConditionExpressionParts {
+  ConditionExpression: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, any>;
+}
+
+// A condition on a write: a bare expression, or one with its own placeholders
+export type WriteCondition = string | ConditionExpressionParts;
+
+export interface TableKey {
+  PK: string;
+  SK: string;
+}
+
+export type BatchWriteRequest = { put: KeyvexTableItem } | { delete: TableKey };
+
+export interface UpdateWithRetryOptions<T> {
+  maxAttempts?: number;
+  // Writes to commit atomically with the update; called again on every attempt
+  alsoWrite?: (transaction: TransactionBuilder, current: T) => void;
+}
+
+export interface FilterExpressionParts {
+  FilterExpression: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues: Record<string, any>;
+}
+
+export type KeyValue = string | number;
+
+/**
+ * Condition on the sort key of the table or index being queried
+ */
+export type SortKeyCondition =
+  | { beginsWith: string }
+  | { equals: KeyValue }
+  | { between: [KeyValue, KeyValue] }
+  | { lessThan: KeyValue }
+  | { lessThanOrEqual: KeyValue }
+  | { greaterThan: KeyValue }
+  | { greaterThanOrEqual: KeyValue };
+
+export interface QueryOptions {
+  // GSI1, GSI2 or GSI3; their key attributes are named after the index (GSI1PK / GSI1SK)
+  indexName?: string;
+  sortKey?: SortKeyCondition;
+  // Applied after items are read, so it does not reduce read capacity
+  filter?: FilterExpressionParts;
+  // Attributes to return; items hold only these
+  projection?: string[];
+  // Sort key order, ascending by default
+  order?: 'asc' | 'desc';
+  // Items read per request; with a filter, pages can hold fewer
+  limit?: number;
+  // Continue after the page that returned this cursor
+  cursor?: string;
+  consistentRead?: boolean;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  // Absent on the last page
+  cursor?: string;
+}
+
+/**
+ * A versioned write found the item at a different version than expected,
+ * because someone else wrote it since it was read (or it no longer exists)
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public PK: string,
+    public SK: string,
+    public expectedVersion: number
+  ) {
+    super(`${PK} / ${SK} is no longer at version ${expectedVersion}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export interface TransactionCancellationReason {
+  // 'None' for writes that did not cause the cancellation
+  code: string;
+  message?: string;
+}
+
+/**
+ * A transaction was cancelled. `reasons` has one entry per write, in the
+ * order the writes were given.
+ */
+export class TransactionCanceledError extends Error {
+  constructor(public reasons: TransactionCancellationReason[]) {
+    super(`Transaction cancelled: ${reasons.filter(reason => reason.code !== 'None').map(reason => reason.code).join(', ') || 'unknown reason'}`);
+    this.name = 'TransactionCanceledError';
+  }
+
+  conditionFailed(index: number): boolean {
+    return this.reasons[index]?.code === 'ConditionalCheckFailed';
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Re-reads are cheap; a hot item that keeps conflicting should fail rather than spin
+const VERSION_CONFLICT_MAX_ATTEMPTS = 5;
+const VERSION_CONFLICT_BASE_DELAY_MS = 25;
+
+// Set by the helper (keys are immutable, version is incremented), never by updates
+const UPDATE_EXCLUDED_ATTRIBUTES = new Set(['PK', 'SK', 'version']);
+
+// Request limits of BatchWriteItem, BatchGetItem and TransactWriteItems
+const BATCH_WRITE_MAX_ITEMS = 25;
+const BATCH_GET_MAX_KEYS = 100;
+const TRANSACT_WRITE_MAX_ITEMS = 100;
+
+// Unprocessed batch items are retried with exponential backoff, as DynamoDB asks
+const BATCH_MAX_ATTEMPTS = 6;
+const BATCH_BASE_DELAY_MS = 50;
+
+interface WriteExpressionParams {
+  ConditionExpression?: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, any>;
+}
+
+// Jittered, so writers that collided do not collide again
+function backoff(attempt: number, baseDelayMs: number): Promise<void> {
+  const delayMs = baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random());
+  return new Promise(resolve => setTimeout(resolve, delayMs));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+function keyId(key: TableKey): string {
+  return `${key.PK}\u0000${key.SK}`;
+}
+
+function mergePlaceholders(
+  names: Record<string, string>,
+  values: Record<string, any>,
+  parts: { ExpressionAttributeNames?: Record<string, string>; ExpressionAttributeValues?: Record<string, any> },
+  source: string
+): void {
+  const placeholders = [...Object.keys(parts.ExpressionAttributeNames || {}), ...Object.keys(parts.ExpressionAttributeValues || {})];
+  for (const placeholder of placeholders) {
+    if (placeholder in names || placeholder in values) {
+      throw new Error(`${source} placeholder ${placeholder} is already used by the key condition, projection or update`);
+    }
+  }
+  Object.assign(names, parts.ExpressionAttributeNames);
+  Object.assign(values, parts.ExpressionAttributeValues);
+}
+
+/**
+ * Items written before versioning have no version attribute; they count as version 0
+ */
+function versionCondition(expectedVersion: number): string {
+  return expectedVersion === 0
+    ? '(attribute_not_exists(#version) OR #version = :expectedVersion)'
+    : '#version = :expectedVersion';
+}
+
+/**
+ * The condition of a write: the caller's, plus the version check when
+ * `expectedVersion` is given. `names` / `values` hold the placeholders the
+ * write already uses.
+ */
+function writeExpression(
+  condition: WriteCondition | undefined,
+  expectedVersion: number | undefined,
+  names: Record<string, string> = {},
+  values: Record<string, any> = {},
+  requireExisting = false
+): WriteExpressionParams {
+  const conditions: string[] = [];
+
+  if (typeof condition === 'string') {
+    conditions.push(condition);
+  } else if (condition) {
+    mergePlaceholders(names, values, condition, 'Condition');
+    conditions.push(condition.ConditionExpression);
+  }
+
+  if (expectedVersion !== undefined) {
+    names['#version'] = 'version';
+    values[':expectedVersion'] = expectedVersion;
+    conditions.push(requireExisting ? `attribute_exists(PK) AND ${versionCondition(expectedVersion)}` : versionCondition(expectedVersion));
+  }
+
+  return {
+    ConditionExpression: conditions.length > 1 ? conditions.map(part => `(${part})`).join(' AND ') : conditions[0],
+    ExpressionAttributeNames: Object.keys(names).length > 0 ? names : undefined,
+    ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined,
+  };
+}
+
+// Whole-item writes are stamped with timestamps and the next version
+function putParams<T extends KeyvexTableItem>(item: T, condition?: WriteCondition, expectedVersion?: number) {
+  const now = Date.now();
+  return {
+    Item: {
+      ...item,
+      createdAt: item.createdAt || now,
+      updatedAt: now,
+      version: (expectedVersion ?? (item.version || 0)) + 1,
+    },
+    ...writeExpression(condition, expectedVersion),
+  };
+}
+
+function updateParams<T extends KeyvexTableItem>(
+  PK: string,
+  SK: string,
+  updates: Partial<T>,
+  condition?: WriteCondition,
+  expectedVersion?: number
+) {
+  const names: Record<string, string> = { '#version': 'version' };
+  const values: Record<string, any> = { ':one': 1 };
+
+  const assignments = Object.entries({ ...updates, updatedAt: Date.now() })
+    .filter(([key]) => !UPDATE_EXCLUDED_ATTRIBUTES.has(key))
+    .map(([key, value], index) => {
+      names[`#attr${index}`] = key;
+      values[`:val${index}`] = value;
+      return `#attr${index} = :val${index}`;
+    });
+
+  return {
+    Key: { PK, SK },
+    UpdateExpression: `SET ${assignments.join(', ')} ADD #version :one`,
+    ...writeExpression(condition, expectedVersion, names, values, expectedVersion !== undefined),
+  };
+}
+
+const SORT_KEY_OPERATORS = {
+  equals: '=',
+  lessThan: '<',
+  lessThanOrEqual: '<=',
+  greaterThan: '>',
+  greaterThanOrEqual: '>=',
+} as const;
+
+// Cursors are the query's LastEvaluatedKey; clients pass them back untouched
+function encodeCursor(lastEvaluatedKey: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Record<string, any> {
+  let key: any;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const isKeyValue = (value: unknown) => typeof value === 'string' || typeof value === 'number';
+  if (!key || typeof key !== 'object' || Array.isArray(key) || !Object.values(key).every(isKeyValue)) {
+    throw new InvalidCursorError();
+  }
+  return key;
+}
+
+function sortKeyExpression(condition: SortKeyCondition, values: Record<string, any>): string {
+  if ('beginsWith' in condition) {
+    values[':sk'] = condition.beginsWith;
+    return 'begins_with(#sk, :sk)';
+  }
+  if ('between' in condition) {
+    [values[':sk'], values[':skEnd']] = condition.between;
+    return '#sk BETWEEN :sk AND :skEnd';
+  }
+
+  const [operator, value] = Object.entries(condition)[0] as [keyof typeof SORT_KEY_OPERATORS, KeyValue];
+  values[':sk'] = value;
+  return `#sk ${SORT_KEY_OPERATORS[operator]} :sk`;
+}
+
+/**
+ * Build the update expression used by `DynamoDBHelper.incrementItem`, so the
+ * same atomic counter update can also be part of a `transactWrite`.
+ */
+export function buildIncrementExpression(
+  increments: Record<string, number>,
+  setIfMissing: Record<string, any> = {}
+): UpdateExpressionParts {
+  const now = Date.now();
+  const addExpressions: string[] = [];
+  const setExpressions: string[] = ['#updatedAt = :now', '#createdAt = if_not_exists(#createdAt, :now)'];
+  const expressionAttributeNames: Record<string, string> = {
+    '#updatedAt': 'updatedAt',
+    '#createdAt': 'createdAt',
+  };
+  const expressionAttributeValues: Record<string, any> = { ':now': now };
+
+  Object.entries(increments).forEach(([key, value], index) => {
+    const path = key.split('.').map((segment, segmentIndex) => {
+      const nameKey = `#inc${index}_${segmentIndex}`;
+      expressionAttributeNames[nameKey] = segment;
+      return nameKey;
+    });
+    addExpressions.push(`${path.join('.')} :inc${index}`);
+    expressionAttributeValues[`:inc${index}`] = value;
+  });
+
+  Object.entries(setIfMissing).forEach(([key, value], index) => {
+    setExpressions.push(`#init${index} = if_not_exists(#init${index}, :init${index})`);
+    expressionAttributeNames[`#init${index}`] = key;
+    expressionAttributeValues[`:init${index}`] = value;
+  });
+
+  return {
+    UpdateExpression: `SET ${setExpressions.join(', ')} ADD ${addExpressions.join(', ')}`,
+    ExpressionAttributeNames: expressionAttributeNames,
+    ExpressionAttributeValues: expressionAttributeValues,
+  };
+}
+
 export class DynamoDBHelper {
   private tableName: string;
 
@@ -36,11 +419,12 @@ export class DynamoDBHelper {
     this.tableName = tableName || getEnvironment().DYNAMODB_TABLE_NAME;
   }
 
-  async getItem<T extends KeyvexTableItem>(PK: string, SK: string): Promise<T | null> {
+  async getItem<T extends KeyvexTableItem>(PK: string, SK: string, consistentRead = false): Promise<T | null> {
     try {
       const command = new GetCommand({
         TableName: this.tableName,
         Key: { PK, SK },
+        ConsistentRead: consistentRead,
       });
 
       const result = await docClient.send(command);
@@ -51,64 +435,275 @@ export class DynamoDBHelper {
     }
   }
 
-  async putItem<T extends KeyvexTableItem>(item: T): Promise<void> {
+  /**
+   * Write a whole item as the next version after `item.version`. With
+   * `expectedVersion`, only if the stored item is still at that version;
+   * otherwise throws `VersionConflictError`.
+   */
+  async putItem<T extends KeyvexTableItem>(item: T, conditionExpression?: WriteCondition, expectedVersion?: number): Promise<void> {
     try {
-      const now = Date.now();
-      const itemWithTimestamps = {
-        ...item,
-        createdAt: item.createdAt || now,
-        updatedAt: now,
-        version: (item.version || 0) + 1,
-      };
-
       const command = new PutCommand({
         TableName: this.tableName,
-        Item: itemWithTimestamps,
+        ...putParams(item, conditionExpression, expectedVersion),
       });
 
       await docClient.send(command);
-    } catch (error) {
+    } catch (error: any) {
+      if (expectedVersion !== undefined && error?.name === 'ConditionalCheckFailedException') {
+        throw new VersionConflictError(item.PK, item.SK, expectedVersion);
+      }
       console.error('DynamoDB putItem error:', error);
       throw error;
     }
   }
 
+  /**
+   * SET the given attributes and increment the version. With
+   * `expectedVersion`, only if the item exists at that version; otherwise
+   * throws `VersionConflictError`. Returns the item as it is after the update.
+   */
   async updateItem<T extends KeyvexTableItem>(
     PK: string,
     SK: string,
     updates: Partial<T>,
+    conditionExpression?: WriteCondition,
+    expectedVersion?: number
+  ): Promise<T> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        ...updateParams(PK, SK, updates, conditionExpression, expectedVersion),
+        ReturnValues: 'ALL_NEW',
+      });
+
+      const result = await docClient.send(command);
+      return result.Attributes as T;
+    } catch (error: any) {
+      if (expectedVersion !== undefined && error?.name === 'ConditionalCheckFailedException') {
+        throw new VersionConflictError(PK, SK, expectedVersion);
+      }
+      console.error('DynamoDB updateItem error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write under optimistic locking. Reads the item (strongly
+   * consistent), passes it to `mutate` and writes the returned attributes only
+   * if no one has written the item since; on a conflict it re-reads and calls
+   * `mutate` again, up to `maxAttempts` times before throwing
+   * `VersionConflictError`. `alsoWrite` adds writes that are committed in the
+   * same transaction as the update.
+   *
+   * Returns the updated item, the item unchanged when `mutate` returns null
+   * (nothing is written), or null when the item does not exist.
+   */
+  async updateWithRetry<T extends KeyvexTableItem>(
+    PK: string,
+    SK: string,
+    mutate: (current: T) => Partial<T> | null,
+    options: UpdateWithRetryOptions<T> = {}
+  ): Promise<T | null> {
+    const maxAttempts = options.maxAttempts ?? VERSION_CONFLICT_MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getItem<T>(PK, SK, true);
+      if (!current) {
+        return null;
+      }
+
+      const updates = mutate(current);
+      if (!updates) {
+        return current;
+      }
+
+      const version = current.version || 0;
+      try {
+        if (!options.alsoWrite) {
+          return await this.updateItem<T>(PK, SK, updates, undefined, version);
+        }
+
+        // The update goes first, so a version conflict is the first cancellation reason
+        const transaction = this.transaction().update<T>(PK, SK, updates, undefined, version);
+        options.alsoWrite(transaction, current);
+        await transaction.commit();
+        return { ...current, ...updates, version: version + 1 };
+      } catch (error) {
+        const conflict = error instanceof VersionConflictError
+          || (error instanceof TransactionCanceledError && error.conditionFailed(0));
+        if (!conflict) {
+          throw error;
+        }
+        if (attempt >= maxAttempts) {
+          throw new VersionConflictError(PK, SK, version);
+        }
+        await backoff(attempt, VERSION_CONFLICT_BASE_DELAY_MS);
+      }
+    }
+  }
+
+  /**
+   * Run a hand-written update expression, e.g. a conditional SET combined with ADD.
+   * Returns the item as it is after the update.
+   */
+  async updateWithExpression<T extends KeyvexTableItem>(
+    PK: string,
+    SK: string,
+    expression: UpdateExpressionParts,
     conditionExpression?: string
-  ): Promise<void> {
+  ): Promise<T> {
     try {
-      const updateExpressions: string[] = [];
-      const expressionAttributeNames: Record<string, string> = {};
-      const expressionAttributeValues: Record<string, any> = {};
-
-      // Add updatedAt and increment version
-      updates.updatedAt = Date.now();
-      updates.version = (updates.version || 0) + 1;
-
-      Object.entries(updates).forEach(([key, value], index) => {
-        const nameKey = `#attr${index}`;
-        const valueKey = `:val${index}`;
-        
-        updateExpressions.push(`${nameKey} = ${valueKey}`);
-        expressionAttributeNames[nameKey] = key;
-        expressionAttributeValues[valueKey] = value;
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: { PK, SK },
+        ...expression,
+        ConditionExpression: conditionExpression,
+        ReturnValues: 'ALL_NEW',
       });
 
+      const result = await docClient.send(command);
+      return result.Attributes as T;
+    } catch (error) {
+      console.error('DynamoDB updateWithExpression error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically ADD to numeric attributes, creating the item if needed.
+   * Increment keys may be dotted paths into maps (e.g. `sessionData.totalCost`).
+   * `setIfMissing` attributes are only written when the item is first created.
+   * Returns the item as it is after the update.
+   */
+  async incrementItem<T extends KeyvexTableItem>(
+    PK: string,
+    SK: string,
+    increments: Record<string, number>,
+    setIfMissing: Record<string, any> = {},
+    conditionExpression?: string
+  ): Promise<T> {
+    try {
+      const expression = buildIncrementExpression(increments, setIfMissing);
+
       const command = new UpdateCommand({
         TableName: this.tableName,
         Key: { PK, SK },
-        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-        ExpressionAttributeNames: expressionAttributeNames,
-        ExpressionAttributeValues: expressionAttributeValues,
+        ...expression,
         ConditionExpression: conditionExpression,
+        ReturnValues: 'ALL_NEW',
       });
 
+      const result = await docClient.send(command);
+      return result.Attributes as T;
+    } catch (error) {
+      console.error('DynamoDB incrementItem error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write up to 100 items atomically. Entries without a TableName use this helper's table.
+   * A cancelled transaction throws `TransactionCanceledError`, whose reasons are
+   * in the same order as `items`. `transaction()` builds the entries.
+   */
+  async transactWrite(items: TransactWriteEntry[]): Promise<void> {
+    if (items.length > TRANSACT_WRITE_MAX_ITEMS) {
+      throw new Error(`A transaction holds at most ${TRANSACT_WRITE_MAX_ITEMS} writes, got ${items.length}`);
+    }
+
+    try {
+      const transactItems = items.map((item) => {
+        const [operation, params] = Object.entries(item)[0] as [string, any];
+        return { [operation]: { TableName: this.tableName, ...params } } as TransactWriteItem;
+      });
+
+      const command = new TransactWriteCommand({ TransactItems: transactItems });
       await docClient.send(command);
+    } catch (error: any) {
+      // Usually a failed condition, which callers handle; not worth an error log
+      if (error?.name === 'TransactionCanceledException') {
+        const reasons: Array<{ Code?: string; Message?: string }> = error.CancellationReasons || [];
+        throw new TransactionCanceledError(reasons.map(reason => ({ code: reason.Code || 'None', message: reason.Message })));
+      }
+      console.error('DynamoDB transactWrite error:', error);
+      throw error;
+    }
+  }
+
+  transaction(): TransactionBuilder {
+    return new TransactionBuilder(this);
+  }
+
+  /**
+   * Items by key, in the order of `keys` (null where there is none). Reads
+   * 100 keys per request and retries unprocessed keys with backoff.
+   */
+  async batchGet<T extends KeyvexTableItem>(keys: TableKey[], consistentRead = false): Promise<Array<T | null>> {
+    const found = new Map<string, T>();
+    // A request must not name the same key twice
+    const uniqueKeys = Array.from(new Map(keys.map(key => [keyId(key), { PK: key.PK, SK: key.SK }])).values());
+
+    try {
+      for (const keysChunk of chunk(uniqueKeys, BATCH_GET_MAX_KEYS)) {
+        let pending: Record<string, any>[] = keysChunk;
+
+        for (let attempt = 1; pending.length > 0; attempt++) {
+          if (attempt > BATCH_MAX_ATTEMPTS) {
+            throw new Error(`batchGet: ${pending.length} keys still unprocessed after ${BATCH_MAX_ATTEMPTS} attempts`);
+          }
+          if (attempt > 1) {
+            await backoff(attempt - 1, BATCH_BASE_DELAY_MS);
+          }
+
+          const result = await docClient.send(new BatchGetCommand({
+            RequestItems: { [this.tableName]: { Keys: pending, ConsistentRead: consistentRead } },
+          }));
+
+          for (const item of result.Responses?.[this.tableName] || []) {
+            found.set(keyId(item as TableKey), item as T);
+          }
+          pending = result.UnprocessedKeys?.[this.tableName]?.Keys || [];
+        }
+      }
     } catch (error) {
-      console.error('DynamoDB updateItem error:', error);
+      console.error('DynamoDB batchGet error:', error);
+      throw error;
+    }
+
+    return keys.map(key => found.get(keyId(key)) || null);
+  }
+
+  /**
+   * Unconditional puts and deletes, 25 per request, retrying unprocessed items
+   * with backoff. Puts are stamped like `putItem`. Not atomic: use
+   * `transaction()` when the writes must succeed or fail together. Each key may
+   * appear only once.
+   */
+  async batchWrite(requests: BatchWriteRequest[]): Promise<void> {
+    const writeRequests = requests.map(request => 'put' in request
+      ? { PutRequest: { Item: putParams(request.put).Item } }
+      : { DeleteRequest: { Key: { PK: request.delete.PK, SK: request.delete.SK } } });
+
+    try {
+      for (const requestsChunk of chunk(writeRequests, BATCH_WRITE_MAX_ITEMS)) {
+        let pending: Record<string, any>[] = requestsChunk;
+
+        for (let attempt = 1; pending.length > 0; attempt++) {
+          if (attempt > BATCH_MAX_ATTEMPTS) {
+            throw new Error(`batchWrite: ${pending.length} items still unprocessed after ${BATCH_MAX_ATTEMPTS} attempts`);
+          }
+          if (attempt > 1) {
+            await backoff(attempt - 1, BATCH_BASE_DELAY_MS);
+          }
+
+          const result = await docClient.send(new BatchWriteCommand({
+            RequestItems: { [this.tableName]: pending },
+          }));
+          pending = result.UnprocessedItems?.[this.tableName] || [];
+        }
+      }
+    } catch (error) {
+      console.error('DynamoDB batchWrite error:', error);
       throw error;
     }
   }
@@ -127,69 +722,237 @@ export class DynamoDBHelper {
     }
   }
 
+  /**
+   * Items with partition key `PK` whose SK begins with `SKPrefix`, newest
+   * first, following pagination until `limit` items are found
+   */
   async query<T extends KeyvexTableItem>(
     PK: string,
     SKPrefix?: string,
     indexName?: string,
     limit?: number
   ): Promise<T[]> {
-    try {
-      let keyConditionExpression = 'PK = :pk';
-      const expressionAttributeValues: Record<string, any> = { ':pk': PK };
-
-      if (SKPrefix) {
-        keyConditionExpression += ' AND begins_with(SK, :sk)';
-        expressionAttributeValues[':sk'] = SKPrefix;
-      }
-
-      const command = new QueryCommand({
-        TableName: this.tableName,
-        IndexName: indexName,
-        KeyConditionExpression: keyConditionExpression,
-        ExpressionAttributeValues: expressionAttributeValues,
-        Limit: limit,
-        ScanIndexForward: false, // Sort in descending order
-      });
-
-      const result = await docClient.send(command);
-      return result.Items as T[] || [];
-    } catch (error) {
-      console.error('DynamoDB query error:', error);
-      throw error;
-    }
+    return this.collect<T>(PK, {
+      indexName,
+      sortKey: SKPrefix ? { beginsWith: SKPrefix } : undefined,
+      order: 'desc',
+      limit,
+    }, limit);
   }
 
+  /**
+   * Like `query`, on a GSI's own key attributes
+   */
   async queryGSI<T extends KeyvexTableItem>(
     indexName: string,
     GSI_PK: string,
     GSI_SKPrefix?: string,
     limit?: number
   ): Promise<T[]> {
-    try {
-      let keyConditionExpression = 'GSI1PK = :gsi_pk';
-      const expressionAttributeValues: Record<string, any> = { ':gsi_pk': GSI_PK };
+    return this.query<T>(GSI_PK, GSI_SKPrefix, indexName, limit);
+  }
 
-      if (GSI_SKPrefix) {
-        keyConditionExpression += ' AND begins_with(GSI1SK, :gsi_sk)';
-        expressionAttributeValues[':gsi_sk'] = GSI_SKPrefix;
-      }
+  /**
+   * All items with `startSK <= SK <= endSK`, in ascending order, following pagination
+   */
+  async queryBetween<T extends KeyvexTableItem>(PK: string, startSK: string, endSK: string): Promise<T[]> {
+    return this.collect<T>(PK, { sortKey: { between: [startSK, endSK] } });
+  }
 
-      const command = new QueryCommand({
-        TableName: this.tableName,
-        IndexName: indexName,
-        KeyConditionExpression: keyConditionExpression,
-        ExpressionAttributeValues: expressionAttributeValues,
-        Limit: limit,
-        ScanIndexForward: false,
-      });
+  /**
+   * One page of a query, with the cursor of the next page when there is one.
+   * `partitionKey` is matched against the index's partition key when
+   * `options.indexName` is set. Throws `InvalidCursorError` for a malformed cursor.
+   */
+  async queryPage<T extends KeyvexTableItem>(partitionKey: string, options: QueryOptions = {}): Promise<QueryPage<T>> {
+    const input = this.buildQueryInput(partitionKey, options);
 
-      const result = await docClient.send(command);
-      return result.Items as T[] || [];
+    try {
+      const result = await docClient.send(new QueryCommand(input));
+      return {
+        items: result.Items as T[] || [],
+        cursor: result.LastEvaluatedKey && encodeCursor(result.LastEvaluatedKey),
+      };
     } catch (error) {
-      console.error('DynamoDB queryGSI error:', error);
+      console.error('DynamoDB query error:', { indexName: options.indexName, error });
       throw error;
     }
   }
+
+  /**
+   * Every page of a query, starting at `options.cursor`. Each page carries
+   * the cursor to resume after it, so long jobs can checkpoint.
+   */
+  async *paginate<T extends KeyvexTableItem>(partitionKey: string, options: QueryOptions = {}): AsyncGenerator<QueryPage<T>> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.queryPage<T>(partitionKey, { ...options, cursor });
+      yield page;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  /**
+   * Every item of a query, one at a time, fetching pages as they are needed
+   */
+  async *queryItems<T extends KeyvexTableItem>(partitionKey: string, options: QueryOptions = {}): AsyncGenerator<T> {
+    for await (const page of this.paginate<T>(partitionKey, options)) {
+      for (const item of page.items) {
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Every page of items whose SK begins with `SKPrefix`, in ascending order.
+   * Lets callers process large partitions without holding them in memory;
+   * `pageSize` caps the items per page.
+   */
+  async *queryPages<T extends KeyvexTableItem>(PK: string, SKPrefix: string, pageSize?: number): AsyncGenerator<T[]> {
+    for await (const page of this.paginate<T>(PK, { sortKey: { beginsWith: SKPrefix }, limit: pageSize })) {
+      yield page.items;
+    }
+  }
+
+  /**
+   * Every page of a filtered table scan. Pages can be empty when the filter
+   * matches nothing in them. Only for background jobs; scans read the whole table.
+   */
+  async *scanPages<T extends KeyvexTableItem>(filter: FilterExpressionParts): AsyncGenerator<T[]> {
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      let result;
+      try {
+        result = await docClient.send(new ScanCommand({
+          TableName: this.tableName,
+          ...filter,
+          ExclusiveStartKey: exclusiveStartKey,
+        }));
+      } catch (error) {
+        console.error('DynamoDB scanPages error:', error);
+        throw error;
+      }
+
+      yield result.Items as T[] || [];
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  private async collect<T extends KeyvexTableItem>(partitionKey: string, options: QueryOptions, max?: number): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.queryItems<T>(partitionKey, options)) {
+      items.push(item);
+      if (max !== undefined && items.length >= max) {
+        break;
+      }
+    }
+    return items;
+  }
+
+  private buildQueryInput(partitionKey: string, options: QueryOptions): QueryCommandInput {
+    const keyPrefix = options.indexName || '';
+    const names: Record<string, string> = { '#pk': `${keyPrefix}PK` };
+    const values: Record<string, any> = { ':pk': partitionKey };
+
+    let keyConditionExpression = '#pk = :pk';
+    if (options.sortKey) {
+      names['#sk'] = `${keyPrefix}SK`;
+      keyConditionExpression += ` AND ${sortKeyExpression(options.sortKey, values)}`;
+    }
+
+    let projectionExpression: string | undefined;
+    if (options.projection?.length) {
+      projectionExpression = options.projection.map((attribute, index) => {
+        names[`#p${index}`] = attribute;
+        return `#p${index}`;
+      }).join(', ');
+    }
+
+    if (options.filter) {
+      mergePlaceholders(names, values, options.filter, 'Filter');
+    }
+
+    return {
+      TableName: this.tableName,
+      IndexName: options.indexName,
+      KeyConditionExpression: keyConditionExpression,
+      FilterExpression: options.filter?.FilterExpression,
+      ProjectionExpression: projectionExpression,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ScanIndexForward: options.order !== 'desc',
+      Limit: options.limit,
+      ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor) : undefined,
+      ConsistentRead: options.consistentRead,
+    };
+  }
+}
+
+/**
+ * Collects the writes of one transaction, built like the helper's single-item
+ * writes (timestamps, versions, conditions). Reasons in a
+ * `TransactionCanceledError` follow the order the writes were added.
+ */
+export class TransactionBuilder {
+  private entries: TransactWriteEntry[] = [];
+
+  constructor(private dynamoHelper: DynamoDBHelper) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  put<T extends KeyvexTableItem>(item: T, condition?: WriteCondition, expectedVersion?: number): this {
+    this.entries.push({ Put: putParams(item, condition, expectedVersion) });
+    return this;
+  }
+
+  update<T extends KeyvexTableItem>(
+    PK: string,
+    SK: string,
+    updates: Partial<T>,
+    condition?: WriteCondition,
+    expectedVersion?: number
+  ): this {
+    this.entries.push({ Update: updateParams(PK, SK, updates, condition, expectedVersion) });
+    return this;
+  }
+
+  // A hand-written update expression, e.g. ADD to counters
+  updateWithExpression(PK: string, SK: string, expression: UpdateExpressionParts, condition?: WriteCondition): this {
+    this.entries.push({
+      Update: {
+        Key: { PK, SK },
+        UpdateExpression: expression.UpdateExpression,
+        ...writeExpression(condition, undefined, { ...expression.ExpressionAttributeNames }, { ...expression.ExpressionAttributeValues }),
+      },
+    });
+    return this;
+  }
+
+  delete(PK: string, SK: string, condition?: WriteCondition): this {
+    this.entries.push({ Delete: { Key: { PK, SK }, ...writeExpression(condition, undefined) } });
+    return this;
+  }
+
+  // Fails the transaction unless `condition` holds for the item, without writing it
+  conditionCheck(PK: string, SK: string, condition: WriteCondition): this {
+    const { ConditionExpression, ...placeholders } = writeExpression(condition, undefined);
+    this.entries.push({ ConditionCheck: { Key: { PK, SK }, ConditionExpression: ConditionExpression!, ...placeholders } });
+    return this;
+  }
+
+  // Entries built elsewhere, e.g. by buildAggregateUpdates
+  add(...entries: TransactWriteEntry[]): this {
+    this.entries.push(...entries);
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    await this.dynamoHelper.transactWrite(this.entries);
+  }
 }
 
 // Secrets Manager helper
@@ -237,6 +1000,31 @@ export class SecretsHelper {
 }
 
 // SQS helper
+type QueueUrlVariable = {
+  [K in keyof LambdaEnvironment]-?: K extends `${string}_QUEUE_URL` ? K : never;
+}[keyof LambdaEnvironment];
+
+// Each priority has its own queue (lane) so bulk work cannot delay urgent work
+const AI_PROCESSING_QUEUE_LANES: Record<AIProcessingMessage['priority'], QueueUrlVariable> = {
+  high: 'AI_PROCESSING_HIGH_PRIORITY_QUEUE_URL',
+  normal: 'AI_PROCESSING_QUEUE_URL',
+  low: 'AI_PROCESSING_LOW_PRIORITY_QUEUE_URL',
+};
+
+const EMAIL_QUEUE_LANES: Record<EmailNotificationMessage['priority'], QueueUrlVariable> = {
+  high: 'EMAIL_HIGH_PRIORITY_QUEUE_URL',
+  normal: 'EMAIL_QUEUE_URL',
+};
+
+// Reasons are schema errors listing every bad field; keep the attribute readable
+const MAX_FAILURE_REASON_LENGTH = 1024;
+
+function findDeadLetterQueueUrl(queueArn: string): string | undefined {
+  const mappings: Array<{ queueArn: string; deadLetterQueueUrl: string }> =
+    parseJSON(getEnvironment().DEAD_LETTER_QUEUE_URLS || '[]', []) || [];
+  return mappings.find(mapping => mapping.queueArn === queueArn)?.deadLetterQueueUrl;
+}
+
 export class SQSHelper {
   async sendMessage(queueUrl: string, message: any, delaySeconds?: number): Promise<void> {
     try {
@@ -253,28 +1041,121 @@ export class SQSHelper {
     }
   }
 
-  async sendAIProcessingMessage(message: any): Promise<void> {
-    const env = getEnvironment();
-    if (!env.AI_PROCESSING_QUEUE_URL) {
-      throw new Error('AI_PROCESSING_QUEUE_URL not configured');
-    }
-    await this.sendMessage(env.AI_PROCESSING_QUEUE_URL, message);
+  // The send* methods below stamp a new envelope on the message; pass the
+  // `context` of the work being handled (see causedBy) to keep its correlation
+
+  async sendAIProcessingMessage(message: OutgoingMessage<AIProcessingMessage>, context?: MessageContext): Promise<void> {
+    await this.sendToPriorityLane(AI_PROCESSING_QUEUE_LANES[message.priority || 'normal'], {
+      ...message,
+      envelope: createEnvelope(context, message.userId),
+    });
   }
 
-  async sendAnalyticsMessage(message: any): Promise<void> {
+  async sendAnalyticsMessage(message: OutgoingMessage<AnalyticsProcessingMessage>, context?: MessageContext): Promise<void> {
     const env = getEnvironment();
     if (!env.ANALYTICS_QUEUE_URL) {
       throw new Error('ANALYTICS_QUEUE_URL not configured');
     }
-    await this.sendMessage(env.ANALYTICS_QUEUE_URL, message);
+    await this.sendMessage(env.ANALYTICS_QUEUE_URL, { ...message, envelope: createEnvelope(context) });
+  }
+
+  async sendEmailMessage(message: OutgoingMessage<EmailNotificationMessage>, context?: MessageContext): Promise<void> {
+    await this.sendToPriorityLane(EMAIL_QUEUE_LANES[message.priority || 'normal'], {
+      ...message,
+      envelope: createEnvelope(context, message.userId),
+    });
+  }
+
+  async sendWebhookDeliveryMessage(
+    message: OutgoingMessage<WebhookDeliveryMessage>,
+    context?: MessageContext,
+    delaySeconds?: number
+  ): Promise<void> {
+    const env = getEnvironment();
+    if (!env.WEBHOOK_DELIVERY_QUEUE_URL) {
+      throw new Error('WEBHOOK_DELIVERY_QUEUE_URL not configured');
+    }
+    await this.sendMessage(env.WEBHOOK_DELIVERY_QUEUE_URL, { ...message, envelope: createEnvelope(context) }, delaySeconds);
   }
 
-  async sendEmailMessage(message: any): Promise<void> {
+  async sendLeadExportMessage(message: OutgoingMessage<LeadExportMessage>, context?: MessageContext): Promise<void> {
     const env = getEnvironment();
-    if (!env.EMAIL_QUEUE_URL) {
-      throw new Error('EMAIL_QUEUE_URL not configured');
+    if (!env.LEAD_EXPORT_QUEUE_URL) {
+      throw new Error('LEAD_EXPORT_QUEUE_URL not configured');
     }
-    await this.sendMessage(env.EMAIL_QUEUE_URL, message);
+    await this.sendMessage(env.LEAD_EXPORT_QUEUE_URL, { ...message, envelope: createEnvelope(context) });
+  }
+
+  /**
+   * The broadcast queue is FIFO, grouped by channel, so frames reach a
+   * channel's subscribers in the order they were queued
+   */
+  async sendWebSocketBroadcastMessage(
+    message: OutgoingMessage<WebSocketBroadcastMessage>,
+    context?: MessageContext
+  ): Promise<void> {
+    const env = getEnvironment();
+    if (!env.WEBSOCKET_BROADCAST_QUEUE_URL) {
+      throw new Error('WEBSOCKET_BROADCAST_QUEUE_URL not configured');
+    }
+
+    const body: WebSocketBroadcastMessage = { ...message, envelope: createEnvelope(context, message.userId) };
+    try {
+      await sqsClient.send(new SendMessageCommand({
+        QueueUrl: env.WEBSOCKET_BROADCAST_QUEUE_URL,
+        MessageBody: JSON.stringify(body),
+        MessageGroupId: message.channel,
+      }));
+    } catch (error) {
+      console.error('SQS sendWebSocketBroadcastMessage error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a record that can never be processed, such as a message failing its
+   * schema, straight to its queue's DLQ instead of retrying it until
+   * maxReceiveCount. The body is unchanged; the reason, source queue and
+   * original message id are attached as message attributes. Returns false
+   * when the queue has no DLQ configured or the send fails, so the caller can
+   * fail the record as usual.
+   */
+  async sendToDeadLetterQueue(record: SQSRecord, reason: string): Promise<boolean> {
+    const deadLetterQueueUrl = findDeadLetterQueueUrl(record.eventSourceARN);
+    if (!deadLetterQueueUrl) {
+      console.warn('No DLQ configured for queue:', record.eventSourceARN);
+      return false;
+    }
+
+    // FIFO DLQs need a group; keeping the original one preserves its order
+    const fifo = deadLetterQueueUrl.endsWith('.fifo');
+    try {
+      await sqsClient.send(new SendMessageCommand({
+        QueueUrl: deadLetterQueueUrl,
+        MessageBody: record.body,
+        MessageAttributes: {
+          failureReason: { DataType: 'String', StringValue: reason.slice(0, MAX_FAILURE_REASON_LENGTH) },
+          sourceQueue: { DataType: 'String', StringValue: record.eventSourceARN },
+          originalMessageId: { DataType: 'String', StringValue: record.messageId },
+        },
+        MessageGroupId: fifo ? record.attributes.MessageGroupId || 'dead-letter' : undefined,
+        MessageDeduplicationId: fifo ? record.messageId : undefined,
+      }));
+    } catch (error) {
+      console.error('SQS sendToDeadLetterQueue error:', error);
+      return false;
+    }
+
+    console.warn('Message sent to DLQ:', { messageId: record.messageId, reason });
+    return true;
+  }
+
+  private async sendToPriorityLane(queueUrlVariable: QueueUrlVariable, message: any): Promise<void> {
+    const queueUrl = getEnvironment()[queueUrlVariable];
+    if (!queueUrl) {
+      throw new Error(`${queueUrlVariable} not configured`);
+    }
+    await this.sendMessage(queueUrl, message);
   }
 }
 
@@ -359,71 +1240,16 @@ export const sqsHelper = new SQSHelper();
 
 // WebSocket helpers
 /**
- * Emit step progress updates to WebSocket connections for a specific user
- * This function can be called from any Lambda function in the V2 orchestration system
+ * Create an API Gateway management client for the configured WebSocket stage,
+ * or null when the WebSocket environment variables are not set
  */
-export async function emitStepProgress(
-  userId: string,
-  jobId: string,
-  stepName: string,
-  status: 'pending' | 'running' | 'completed' | 'failed',
-  data?: any
-): Promise<void> {
+export function createWebSocketClient(): ApiGatewayManagementApiClient | null {
   const env = getEnvironment();
-  const webSocketDomain = process.env.WEBSOCKET_DOMAIN;
-  const webSocketStage = process.env.WEBSOCKET_STAGE;
-
-  if (!env.DYNAMODB_TABLE_NAME || !webSocketDomain || !webSocketStage) {
-    console.warn('WebSocket environment variables not configured, skipping progress emission');
-    return;
+  if (!env.WEBSOCKET_DOMAIN || !env.WEBSOCKET_STAGE) {
+    return null;
   }
 
-  try {
-    const dynamoHelper = new DynamoDBHelper();
-    
-    // Find active connections for this user using GSI1
-    const connections = await dynamoHelper.queryGSI(
-      'GSI1',
-      `USER#${userId}`,
-      'CONNECTION#'
-    );
-
-    if (!connections || connections.length === 0) {
-      console.log(`No active WebSocket connections found for user ${userId}`);
-      return;
-    }
-
-    const callbackUrl = `https://${webSocketDomain}/${webSocketStage}`;
-    const apiGwClient = new ApiGatewayManagementApiClient({
-      endpoint: callbackUrl,
-    });
-
-    const progressMessage = {
-      type: 'step_progress',
-      jobId,
-      stepName,
-      status,
-      data,
-      timestamp: new Date().toISOString(),
-    };
-
-    // Send to all active connections for this user
-    const sendPromises = connections.map(async (connection: any) => {
-      try {
-        await apiGwClient.send(new PostToConnectionCommand({
-          ConnectionId: connection.connectionId,
-          Data: JSON.stringify(progressMessage),
-        }));
-        console.log(`Progress sent to connection ${connection.connectionId} for step: ${stepName}`);
-      } catch (error) {
-        console.error(`Failed to send to connection ${connection.connectionId}:`, error);
-        // Could add logic here to remove stale connections
-      }
-    });
-
-    await Promise.allSettled(sendPromises);
-    console.log(`Step progress emitted: ${stepName} - ${status} for user ${userId}`);
-  } catch (error) {
-    console.error('Error emitting step progress:', error);
-  }
-} 
\ No newline at end of file
+  return new ApiGatewayManagementApiClient({
+    endpoint: `https://${env.WEBSOCKET_DOMAIN}/${env.WEBSOCKET_STAGE}`,
+  });
+}
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Only depends on `crypto`, so scripts/webhook-receiver.js can load it without the AWS SDK
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Keyvex-Signature';
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * `t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}`. The timestamp is
+ * signed too, so a captured request cannot be replayed later.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a `X-Keyvex-Signature` header against the raw request body.
+ * This is what subscribers (and the local test receiver) run.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1]);
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'crypto';
+import { OutgoingMessage, WebhookDeliveryMessage, WebhookEvent, WebhookPayload, WebhookSubscriptionItem } from './types';
+import { DynamoDBHelper, SQSHelper, generateId, getEnvironment } from './utils';
+import { WEBHOOK_EVENTS } from './message-schemas';
+import { webhookSubscriptionItemSchema } from './entity-schemas';
+import { MessageContext } from './message-envelope';
+
+export { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload, verifyWebhookSignature } from './webhook-signatures';
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Subscriber URLs must be HTTPS. Outside production, plain HTTP to localhost is
+ * allowed so deliveries can be tested against a local receiver.
+ * Returns a reason when the URL is not allowed.
+ */
+export function validateWebhookUrl(url: string, environment: string = getEnvironment().ENVIRONMENT): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid absolute URL';
+  }
+
+  const isLocal = LOCAL_HOSTS.includes(parsed.hostname);
+  if (environment === 'production' && isLocal) {
+    return 'Webhook URL must not point at localhost';
+  }
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocal)) {
+    return 'Webhook URL must use https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+  return null;
+}
+
+function stableId(prefix: string, ...parts: string[]): string {
+  return `${prefix}_${createHash('sha256').update(parts.join(':')).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * Per-tool webhook subscriptions, stored as `TOOL#{toolId}` / `WEBHOOK#{subscriptionId}`
+ */
+export class WebhookSubscriptionStore {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  /**
+   * Create a subscription. The returned item holds the signing secret, which
+   * should be shown to the customer once.
+   */
+  async create(
+    toolId: string,
+    url: string,
+    events: WebhookEvent[],
+    description?: string
+  ): Promise<WebhookSubscriptionItem> {
+    const urlError = validateWebhookUrl(url);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+    const unknownEvents = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+    if (events.length === 0 || unknownEvents.length > 0) {
+      throw new Error(`Webhook events must be one or more of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+
+    const subscriptionId = generateId();
+    const now = Date.now();
+    const subscription: WebhookSubscriptionItem = {
+      PK: `TOOL#${toolId}`,
+      SK: `WEBHOOK#${subscriptionId}`,
+      entityType: 'WEBHOOK_SUBSCRIPTION',
+      subscriptionId,
+      toolId,
+      url,
+      events,
+      secret: generateWebhookSecret(),
+      active: true,
+      description,
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: {},
+    };
+
+    webhookSubscriptionItemSchema.parse(subscription, 'WebhookSubscriptionItem');
+    await this.dynamoHelper.putItem(subscription);
+    return subscription;
+  }
+
+  async get(toolId: string, subscriptionId: string): Promise<WebhookSubscriptionItem | null> {
+    return this.dynamoHelper.getItem<WebhookSubscriptionItem>(`TOOL#${toolId}`, `WEBHOOK#${subscriptionId}`);
+  }
+
+  async list(toolId: string): Promise<WebhookSubscriptionItem[]> {
+    return this.dynamoHelper.query<WebhookSubscriptionItem>(`TOOL#${toolId}`, 'WEBHOOK#');
+  }
+
+  async setActive(toolId: string, subscriptionId: string, active: boolean): Promise<void> {
+    await this.dynamoHelper.updateWithExpression(
+      `TOOL#${toolId}`,
+      `WEBHOOK#${subscriptionId}`,
+      {
+        UpdateExpression: 'SET #active = :active, #updatedAt = :now',
+        ExpressionAttributeNames: { '#active': 'active', '#updatedAt': 'updatedAt' },
+        ExpressionAttributeValues: { ':active': active, ':now': Date.now() },
+      },
+      'attribute_exists(PK)'
+    );
+  }
+
+  async delete(toolId: string, subscriptionId: string): Promise<void> {
+    await this.dynamoHelper.deleteItem(`TOOL#${toolId}`, `WEBHOOK#${subscriptionId}`);
+  }
+}
+
+/**
+ * Queues one delivery per active subscription of a tool that wants the event.
+ * Delivery ids are derived from `sourceId` (e.g. the lead id), so publishing
+ * the same event twice does not deliver it twice.
+ */
+export class WebhookPublisher {
+  constructor(
+    private subscriptions: WebhookSubscriptionStore,
+    private sqsHelper: SQSHelper
+  ) {}
+
+  async publish(
+    toolId: string,
+    event: WebhookEvent,
+    sourceId: string,
+    data: Record<string, any>,
+    context?: MessageContext
+  ): Promise<number> {
+    const subscriptions = (await this.subscriptions.list(toolId))
+      .filter(subscription => subscription.active && subscription.events.includes(event));
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const payload: WebhookPayload = {
+      id: stableId('evt', event, sourceId),
+      event,
+      toolId,
+      createdAt: now,
+      data,
+    };
+
+    for (const subscription of subscriptions) {
+      const message: OutgoingMessage<WebhookDeliveryMessage> = {
+        messageType: 'WEBHOOK_DELIVERY',
+        deliveryId: stableId('whd', event, sourceId, subscription.subscriptionId),
+        toolId,
+        subscriptionId: subscription.subscriptionId,
+        event,
+        payload,
+        attempt: 1,
+        timestamp: now,
+      };
+      await this.sqsHelper.sendWebhookDeliveryMessage(message, context);
+    }
+
+    return subscriptions.length;
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  ErrorFrame,
+  StepProgressFrame,
+  WebSocketChannel,
+  WebSocketChannelType,
+  WebSocketClientMessage,
+  WebSocketErrorCode,
+  WebSocketServerFrame,
+} from './types';
+import { SQSHelper, getEnvironment } from './utils';
+import { MessageContext } from './message-envelope';
+
+export const CHANNEL_TYPES: WebSocketChannelType[] = ['job', 'session', 'tool'];
+
+// Ids are generated by us (generateId / UUIDs), so anything else is rejected early
+const CHANNEL_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Client messages are small; anything bigger is not part of the protocol
+const MAX_MESSAGE_LENGTH = 4 * 1024;
+
+export class WebSocketProtocolError extends Error {
+  constructor(
+    public code: WebSocketErrorCode,
+    message: string,
+    public requestId?: string
+  ) {
+    super(message);
+    this.name = 'WebSocketProtocolError';
+  }
+}
+
+export function parseChannel(value: unknown): { type: WebSocketChannelType; id: string; channel: WebSocketChannel } | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const separator = value.indexOf(':');
+  const type = value.slice(0, separator) as WebSocketChannelType;
+  const id = value.slice(separator + 1);
+
+  if (separator < 0 || !CHANNEL_TYPES.includes(type) || !CHANNEL_ID_PATTERN.test(id)) {
+    return null;
+  }
+  return { type, id, channel: `${type}:${id}` };
+}
+
+/**
+ * Parse and validate a message sent on the $default route. Throws a
+ * WebSocketProtocolError describing the problem, to be sent back as an error frame.
+ */
+export function parseClientMessage(body: string | null | undefined): WebSocketClientMessage {
+  if (!body || body.length > MAX_MESSAGE_LENGTH) {
+    throw new WebSocketProtocolError('INVALID_MESSAGE', `Messages must be JSON objects of at most ${MAX_MESSAGE_LENGTH} bytes`);
+  }
+
+  let message: any;
+  try {
+    message = JSON.parse(body);
+  } catch {
+    throw new WebSocketProtocolError('INVALID_MESSAGE', 'Message is not valid JSON');
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    throw new WebSocketProtocolError('INVALID_MESSAGE', 'Message must be a JSON object');
+  }
+
+  const requestId = typeof message.requestId === 'string' ? message.requestId.slice(0, 128) : undefined;
+
+  switch (message.action) {
+    case 'subscribe':
+    case 'unsubscribe': {
+      const parsed = parseChannel(message.channel);
+      if (!parsed) {
+        throw new WebSocketProtocolError(
+          'INVALID_CHANNEL',
+          `channel must be one of ${CHANNEL_TYPES.map(type => `${type}:{id}`).join(', ')}`,
+          requestId
+        );
+      }
+      return { action: message.action, channel: parsed.channel, requestId };
+    }
+
+    case 'ping':
+      return { action: 'ping', requestId };
+
+    case 'resume': {
+      const afterSequence = Number(message.afterSequence ?? 0);
+      if (typeof message.streamId !== 'string' || !message.streamId || !Number.isInteger(afterSequence) || afterSequence < 0) {
+        throw new WebSocketProtocolError('INVALID_MESSAGE', 'resume requires streamId and a non-negative afterSequence', requestId);
+      }
+      return { action: 'resume', streamId: message.streamId, afterSequence, requestId };
+    }
+
+    default:
+      throw new WebSocketProtocolError('UNKNOWN_ACTION', `Unknown action "${message.action}"`, requestId);
+  }
+}
+
+export function errorFrame(code: WebSocketErrorCode, message: string, requestId?: string): ErrorFrame {
+  return { type: 'error', code, message, requestId, timestamp: Date.now() };
+}
+
+/**
+ * Queue a frame for the WebSocket fan-out function, which posts it to the
+ * channel's subscribers. Use this from processors so a large audience does
+ * not hold up (or time out) the caller.
+ */
+export async function queueBroadcast(
+  channel: WebSocketChannel,
+  payload: WebSocketServerFrame,
+  userId?: string,
+  sqsHelper: SQSHelper = new SQSHelper(),
+  context?: MessageContext
+): Promise<void> {
+  await sqsHelper.sendWebSocketBroadcastMessage({
+    messageType: 'WEBSOCKET_BROADCAST',
+    channel,
+    userId,
+    payload,
+    timestamp: Date.now(),
+  }, context);
+}
+
+export function stepProgressFrame(
+  jobId: string,
+  stepName: string,
+  status: StepProgressFrame['status'],
+  data?: any
+): StepProgressFrame {
+  return {
+    type: 'step_progress',
+    channel: `job:${jobId}`,
+    jobId,
+    stepName,
+    status,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Queue a step progress update for the user's subscribers of `job:{jobId}`
+ * This function can be called from any Lambda function in the V2 orchestration system
+ */
+export async function emitStepProgress(
+  userId: string,
+  jobId: string,
+  stepName: string,
+  status: StepProgressFrame['status'],
+  data?: any,
+  sqsHelper: SQSHelper = new SQSHelper(),
+  context?: MessageContext
+): Promise<void> {
+  if (!getEnvironment().WEBSOCKET_BROADCAST_QUEUE_URL) {
+    console.warn('WEBSOCKET_BROADCAST_QUEUE_URL not configured, skipping progress emission');
+    return;
+  }
+
+  try {
+    const frame = { ...stepProgressFrame(jobId, stepName, status, data), correlationId: context?.correlationId };
+    await queueBroadcast(`job:${jobId}`, frame, userId, sqsHelper, context);
+    console.log(`Step progress queued: ${stepName} - ${status} for user ${userId}`);
+  } catch (error) {
+    console.error('Error emitting step progress:', error);
+  }
+}
@@ -0,0 +1,300 @@
+import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { ChannelSubscriptionItem, WebSocketChannel, WebSocketConnectionItem } from './types';
+import { DynamoDBHelper, createWebSocketClient } from './utils';
+import { keys } from './repositories';
+import { channelSubscriptionItemSchema, webSocketConnectionItemSchema } from './entity-schemas';
+
+// API Gateway closes WebSocket connections after two hours regardless of activity
+const CONNECTION_TTL_SECONDS = 2 * 60 * 60;
+
+// Posts in flight at once per broadcast
+const MAX_CONCURRENT_POSTS = 20;
+
+// Throttled posts are retried after 100ms, 200ms and 400ms (plus jitter)
+const MAX_THROTTLE_RETRIES = 3;
+const THROTTLE_BASE_DELAY_MS = 100;
+
+const THROTTLING_ERRORS = ['ThrottlingException', 'TooManyRequestsException', 'LimitExceededException'];
+
+export interface RegisterConnectionOptions {
+  connectionId: string;
+  userId: string;
+  // Generation job (or AI session) the client is watching
+  jobId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Channel subscriptions, one `CHANNEL#{channel}` / `CONNECTION#{connectionId}`
+ * item each, also indexed by connection on GSI1 (`CONNECTION#{connectionId}` /
+ * `CHANNEL#{channel}`) so they can be dropped with the connection.
+ */
+export class ChannelSubscriptionStore {
+  constructor(private dynamoHelper: DynamoDBHelper = new DynamoDBHelper()) {}
+
+  async subscribe(connection: WebSocketConnectionItem, channel: WebSocketChannel): Promise<void> {
+    const now = Date.now();
+    const subscription: ChannelSubscriptionItem = {
+      PK: `CHANNEL#${channel}`,
+      SK: `CONNECTION#${connection.connectionId}`,
+      GSI1PK: `CONNECTION#${connection.connectionId}`,
+      GSI1SK: `CHANNEL#${channel}`,
+      entityType: 'CHANNEL_SUBSCRIPTION',
+      channel,
+      connectionId: connection.connectionId,
+      userId: connection.userId,
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: {},
+      ttl: connection.ttl,
+    };
+
+    channelSubscriptionItemSchema.parse(subscription, 'ChannelSubscriptionItem');
+    await this.dynamoHelper.putItem(subscription);
+  }
+
+  async unsubscribe(connectionId: string, channel: WebSocketChannel): Promise<void> {
+    await this.dynamoHelper.deleteItem(`CHANNEL#${channel}`, `CONNECTION#${connectionId}`);
+  }
+
+  async listSubscribers(channel: WebSocketChannel): Promise<ChannelSubscriptionItem[]> {
+    return this.dynamoHelper.query<ChannelSubscriptionItem>(`CHANNEL#${channel}`, 'CONNECTION#');
+  }
+
+  /**
+   * Subscribers of a channel, `pageSize` at a time, for channels too large to
+   * hold in memory at once
+   */
+  subscriberPages(channel: WebSocketChannel, pageSize: number): AsyncGenerator<ChannelSubscriptionItem[]> {
+    return this.dynamoHelper.queryPages<ChannelSubscriptionItem>(`CHANNEL#${channel}`, 'CONNECTION#', pageSize);
+  }
+
+  async listChannels(connectionId: string): Promise<ChannelSubscriptionItem[]> {
+    return this.dynamoHelper.queryGSI<ChannelSubscriptionItem>('GSI1', `CONNECTION#${connectionId}`, 'CHANNEL#');
+  }
+
+  async removeConnection(connectionId: string): Promise<void> {
+    const subscriptions = await this.listChannels(connectionId);
+    await this.dynamoHelper.batchWrite(subscriptions.map(subscription => ({
+      delete: { PK: subscription.PK, SK: subscription.SK },
+    })));
+  }
+}
+
+/**
+ * WebSocket connections, one `CONNECTION#{connectionId}` / `METADATA` item each.
+ * Indexed by user on GSI1 (`USER#{userId}` / `CONNECTION#{connectedAt}`), by
+ * last activity on GSI3 (`CONNECTION` / `ACTIVITY#{lastActivity}`) and, when
+ * the client watches a job, by job on GSI2 (`JOB#{jobId}` / `CONNECTION#{connectedAt}`).
+ * This is the repository for connections; repositories.ts only builds their key.
+ */
+export class ConnectionRegistry {
+  constructor(
+    private dynamoHelper: DynamoDBHelper = new DynamoDBHelper(),
+    private subscriptions: ChannelSubscriptionStore = new ChannelSubscriptionStore(dynamoHelper)
+  ) {}
+
+  async register(options: RegisterConnectionOptions): Promise<WebSocketConnectionItem> {
+    const now = Date.now();
+    const connection: WebSocketConnectionItem = {
+      ...keys.connection(options.connectionId),
+      GSI1PK: `USER#${options.userId}`,
+      GSI1SK: `CONNECTION#${now}`,
+      GSI3PK: 'CONNECTION',
+      GSI3SK: `ACTIVITY#${now}`,
+      entityType: 'CONNECTION',
+      connectionId: options.connectionId,
+      userId: options.userId,
+      sessionId: options.sessionId,
+      connectedAt: now,
+      lastActivity: now,
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+      metadata: {},
+      ttl: Math.floor(now / 1000) + CONNECTION_TTL_SECONDS,
+    };
+
+    if (options.jobId) {
+      connection.jobId = options.jobId;
+      connection.GSI2PK = `JOB#${options.jobId}`;
+      connection.GSI2SK = `CONNECTION#${now}`;
+    }
+
+    webSocketConnectionItemSchema.parse(connection, 'WebSocketConnectionItem');
+    await this.dynamoHelper.putItem(connection);
+    return connection;
+  }
+
+  async get(connectionId: string): Promise<WebSocketConnectionItem | null> {
+    const { PK, SK } = keys.connection(connectionId);
+    return this.dynamoHelper.getItem<WebSocketConnectionItem>(PK, SK);
+  }
+
+  /**
+   * Record activity on a connection. Returns false if the connection is not
+   * registered (e.g. it already expired), without creating it.
+   */
+  async touch(connectionId: string): Promise<boolean> {
+    const now = Date.now();
+    const { PK, SK } = keys.connection(connectionId);
+    try {
+      await this.dynamoHelper.updateWithExpression(
+        PK,
+        SK,
+        {
+          UpdateExpression: 'SET #lastActivity = :now, #updatedAt = :now, #activityKey = :activityKey',
+          ExpressionAttributeNames: { '#lastActivity': 'lastActivity', '#updatedAt': 'updatedAt', '#activityKey': 'GSI3SK' },
+          ExpressionAttributeValues: { ':now': now, ':activityKey': `ACTIVITY#${now}` },
+        },
+        'attribute_exists(PK)'
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a connection and its channel subscriptions
+   */
+  async remove(connectionId: string): Promise<void> {
+    const { PK, SK } = keys.connection(connectionId);
+    await this.subscriptions.removeConnection(connectionId);
+    await this.dynamoHelper.deleteItem(PK, SK);
+  }
+
+  async listByUser(userId: string): Promise<WebSocketConnectionItem[]> {
+    return this.dynamoHelper.queryGSI<WebSocketConnectionItem>('GSI1', `USER#${userId}`, 'CONNECTION#');
+  }
+
+  async listByJob(jobId: string): Promise<WebSocketConnectionItem[]> {
+    return this.dynamoHelper.queryGSI<WebSocketConnectionItem>('GSI2', `JOB#${jobId}`, 'CONNECTION#');
+  }
+
+  /**
+   * Connections with no activity since `cutoff` (epoch ms), least recently
+   * active first, a page at a time
+   */
+  async *idlePages(cutoff: number, pageSize?: number): AsyncGenerator<WebSocketConnectionItem[]> {
+    const pages = this.dynamoHelper.paginate<WebSocketConnectionItem>('CONNECTION', {
+      indexName: 'GSI3',
+      sortKey: { lessThan: `ACTIVITY#${cutoff}` },
+      limit: pageSize,
+    });
+    for await (const page of pages) {
+      yield page.items;
+    }
+  }
+}
+
+export interface BroadcastResult {
+  recipients: number;
+  delivered: number;
+  // API Gateway answered 410: the client is gone and the connection was removed
+  gone: number;
+  // Failed for another reason, or still throttled after the last retry
+  failed: number;
+  // Posts retried after throttling
+  retries: number;
+}
+
+export function emptyBroadcastResult(): BroadcastResult {
+  return { recipients: 0, delivered: 0, gone: 0, failed: 0, retries: 0 };
+}
+
+function isGoneError(error: any): boolean {
+  return error?.name === 'GoneException' || error?.$metadata?.httpStatusCode === 410;
+}
+
+function isThrottlingError(error: any): boolean {
+  return THROTTLING_ERRORS.includes(error?.name) || error?.$metadata?.httpStatusCode === 429;
+}
+
+function throttleDelayMs(retry: number): number {
+  const delay = THROTTLE_BASE_DELAY_MS * 2 ** retry;
+  return delay + Math.floor(delay * Math.random());
+}
+
+/**
+ * Post a payload to each connection with bounded concurrency. This is the
+ * only place that posts to connections:
+ * - 410 GoneException is definitive, so the connection (and its channel
+ *   subscriptions) is removed from the registry
+ * - Throttled posts are retried with exponential backoff
+ * - Anything else is logged and counted; the connection is kept
+ * Never throws for individual connections.
+ */
+export async function broadcast(
+  client: ApiGatewayManagementApiClient,
+  connections: Array<Pick<WebSocketConnectionItem, 'connectionId'>>,
+  payload: any,
+  registry: ConnectionRegistry = new ConnectionRegistry()
+): Promise<BroadcastResult> {
+  const data = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  const result: BroadcastResult = { ...emptyBroadcastResult(), recipients: connections.length };
+  const pending = connections.map(connection => connection.connectionId);
+
+  const post = async (connectionId: string): Promise<void> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        await client.send(new PostToConnectionCommand({ ConnectionId: connectionId, Data: data }));
+        result.delivered++;
+        return;
+      } catch (error) {
+        if (isGoneError(error)) {
+          result.gone++;
+          await registry.remove(connectionId).catch((removeError) => {
+            console.error(`Failed to remove stale connection ${connectionId}:`, removeError);
+          });
+          return;
+        }
+        if (isThrottlingError(error) && retry < MAX_THROTTLE_RETRIES) {
+          result.retries++;
+          await new Promise(resolve => setTimeout(resolve, throttleDelayMs(retry)));
+          continue;
+        }
+        result.failed++;
+        console.error(`Failed to send to connection ${connectionId}:`, error);
+        return;
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    for (let connectionId = pending.shift(); connectionId; connectionId = pending.shift()) {
+      await post(connectionId);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_POSTS, pending.length) }, worker));
+  return result;
+}
+
+/**
+ * Send a payload to every active WebSocket connection of a user
+ */
+export async function notifyUser(
+  userId: string,
+  payload: any,
+  registry: ConnectionRegistry = new ConnectionRegistry()
+): Promise<BroadcastResult> {
+  const apiGwClient = createWebSocketClient();
+
+  if (!apiGwClient) {
+    console.warn('WebSocket environment variables not configured, skipping user notification');
+    return emptyBroadcastResult();
+  }
+
+  try {
+    const connections = await registry.listByUser(userId);
+    return await broadcast(apiGwClient, connections, payload, registry);
+  } catch (error) {
+    console.error('Error notifying user:', error);
+    return emptyBroadcastResult();
+  }
+}
@@ -0,0 +1,80 @@
+import { WebhookDeliveryMessage } from '../shared/types';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../shared/webhooks';
+
+// Receivers get this long to respond before the attempt counts as failed
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Only the start of a failing receiver's response is kept in the attempt log
+const MAX_ERROR_BODY_LENGTH = 500;
+
+export interface WebhookDeliveryResult {
+  delivered: boolean;
+  // False when retrying cannot help, e.g. the receiver rejected the request with a 4xx
+  retryable: boolean;
+  statusCode?: number;
+  durationMs: number;
+  error?: string;
+}
+
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * POST a signed webhook payload. Works against any HTTP(S) receiver, including
+ * `scripts/webhook-receiver.js` running locally.
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  message: WebhookDeliveryMessage,
+  timeoutMs: number = DELIVERY_TIMEOUT_MS
+): Promise<WebhookDeliveryResult> {
+  const body = JSON.stringify(message.payload);
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Keyvex-Webhooks/1.0',
+        'X-Keyvex-Event': message.event,
+        'X-Keyvex-Delivery': message.deliveryId,
+        'X-Keyvex-Attempt': String(message.attempt),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+      },
+      body,
+      signal: controller.signal,
+      // A redirect would re-send the payload to a URL the customer did not register
+      redirect: 'manual',
+    });
+    const durationMs = Date.now() - startedAt;
+
+    if (response.status >= 200 && response.status < 300) {
+      return { delivered: true, retryable: false, statusCode: response.status, durationMs };
+    }
+
+    const text = await response.text().catch(() => '');
+    return {
+      delivered: false,
+      retryable: isRetryableStatus(response.status),
+      statusCode: response.status,
+      durationMs,
+      error: `Receiver responded with ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}` : ''}`,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      retryable: true,
+      durationMs: Date.now() - startedAt,
+      error: controller.signal.aborted
+        ? `Receiver did not respond within ${timeoutMs}ms`
+        : `Request failed: ${error instanceof Error ? error.message : error}`,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,169 @@
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
+import { DynamoDBHelper, SQSHelper, getEnvironment, getTTL } from '../shared/utils';
+import { WebhookDeliveryAttemptItem, WebhookDeliveryMessage } from '../shared/types';
+import { SchemaValidationError } from '../shared/schema';
+import { webhookDeliveryMessageSchema } from '../shared/message-schemas';
+import { webhookDeliveryAttemptItemSchema } from '../shared/entity-schemas';
+import { causedBy, readMessage } from '../shared/message-envelope';
+import { WebhookSubscriptionStore, validateWebhookUrl } from '../shared/webhooks';
+import { WebhookDeliveryResult, deliverWebhook } from './delivery';
+
+// Attempts before a delivery is parked in the DLQ (about 45 minutes of retries)
+const MAX_DELIVERY_ATTEMPTS = 8;
+
+// SQS caps DelaySeconds at 15 minutes
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+const BASE_RETRY_DELAY_SECONDS = 30;
+
+const DELIVERY_ATTEMPT_TTL_DAYS = 30;
+
+type DeliveryStatus = 'delivered' | 'retrying' | 'failed' | 'skipped';
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const sqsHelper = new SQSHelper();
+const subscriptions = new WebhookSubscriptionStore(dynamoHelper);
+
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  console.log('Webhook Dispatcher started', {
+    requestId: context.awsRequestId,
+    messageCount: event.Records.length
+  });
+
+  const results = [];
+  // Delivery failures are retried by re-sending the message with a delay, so
+  // only infrastructure errors are reported back to SQS
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      const status = await processDeliveryMessage(record);
+      results.push({ messageId: record.messageId, status });
+    } catch (error) {
+      // Retrying cannot fix a malformed message
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
+      console.error('Failed to process webhook delivery:', {
+        messageId: record.messageId,
+        error: error instanceof Error ? error.message : error
+      });
+      results.push({
+        messageId: record.messageId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  console.log('Webhook Dispatcher completed', {
+    requestId: context.awsRequestId,
+    results
+  });
+
+  return { batchItemFailures };
+};
+
+async function processDeliveryMessage(record: SQSRecord): Promise<DeliveryStatus> {
+  const message = readMessage(record, webhookDeliveryMessageSchema, 'WebhookDeliveryMessage');
+  console.log('Delivering webhook:', {
+    deliveryId: message.deliveryId,
+    attempt: message.attempt,
+    correlationId: message.envelope.correlationId
+  });
+
+  if (await alreadyDelivered(message.deliveryId)) {
+    console.log('Webhook already delivered:', message.deliveryId);
+    return 'skipped';
+  }
+
+  const subscription = await subscriptions.get(message.toolId, message.subscriptionId);
+  if (!subscription?.active) {
+    console.log('Webhook subscription removed or inactive:', message.subscriptionId);
+    return 'skipped';
+  }
+
+  // Subscriptions can be written outside WebhookSubscriptionStore, so check again
+  const urlError = validateWebhookUrl(subscription.url);
+  const result: WebhookDeliveryResult = urlError
+    ? { delivered: false, retryable: false, durationMs: 0, error: urlError }
+    : await deliverWebhook(subscription.url, subscription.secret, message);
+
+  if (result.delivered) {
+    await recordAttempt(message, 'delivered', result);
+    return 'delivered';
+  }
+
+  if (result.retryable && message.attempt < MAX_DELIVERY_ATTEMPTS) {
+    const delaySeconds = retryDelaySeconds(message.attempt);
+    await recordAttempt(message, 'retrying', result, Date.now() + delaySeconds * 1000);
+    await sqsHelper.sendWebhookDeliveryMessage({ ...message, attempt: message.attempt + 1 }, causedBy(message.envelope), delaySeconds);
+    return 'retrying';
+  }
+
+  await recordAttempt(message, 'failed', result);
+  await parkInDlq(message);
+  return 'failed';
+}
+
+/**
+ * 30s, 1m, 2m, 4m, 8m, then 15m, with up to 20% jitter so retries from an
+ * outage do not all arrive at once
+ */
+function retryDelaySeconds(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_SECONDS, BASE_RETRY_DELAY_SECONDS * 2 ** (attempt - 1));
+  const jitter = Math.floor(delay * 0.2 * Math.random());
+  return Math.min(MAX_RETRY_DELAY_SECONDS, delay + jitter);
+}
+
+async function alreadyDelivered(deliveryId: string): Promise<boolean> {
+  const attempts = await dynamoHelper.query<WebhookDeliveryAttemptItem>(`WEBHOOK_DELIVERY#${deliveryId}`, 'ATTEMPT#');
+  return attempts.some(attempt => attempt.status === 'delivered');
+}
+
+/**
+ * Every attempt is logged under the delivery, and under the subscription
+ * through GSI1 so customers can see recent deliveries for an endpoint
+ */
+async function recordAttempt(
+  message: WebhookDeliveryMessage,
+  status: WebhookDeliveryAttemptItem['status'],
+  result: WebhookDeliveryResult,
+  nextAttemptAt?: number
+): Promise<void> {
+  const now = Date.now();
+  const attempt: WebhookDeliveryAttemptItem = {
+    PK: `WEBHOOK_DELIVERY#${message.deliveryId}`,
+    SK: `ATTEMPT#${message.attempt}#${now}`,
+    GSI1PK: `WEBHOOK#${message.subscriptionId}`,
+    GSI1SK: `DELIVERY#${now}`,
+    entityType: 'WEBHOOK_DELIVERY',
+    deliveryId: message.deliveryId,
+    subscriptionId: message.subscriptionId,
+    toolId: message.toolId,
+    event: message.event,
+    attempt: message.attempt,
+    status,
+    statusCode: result.statusCode,
+    durationMs: result.durationMs,
+    error: result.error,
+    nextAttemptAt,
+    createdAt: now,
+    updatedAt: now,
+    version: 0,
+    metadata: {},
+    ttl: getTTL(DELIVERY_ATTEMPT_TTL_DAYS),
+  };
+
+  webhookDeliveryAttemptItemSchema.parse(attempt, 'WebhookDeliveryAttemptItem');
+  await dynamoHelper.putItem(attempt);
+}
+
+async function parkInDlq(message: WebhookDeliveryMessage): Promise<void> {
+  if (!env.WEBHOOK_DELIVERY_DLQ_URL) {
+    throw new Error('WEBHOOK_DELIVERY_DLQ_URL not configured');
+  }
+  await sqsHelper.sendMessage(env.WEBHOOK_DELIVERY_DLQ_URL, message);
+}
@@ -0,0 +1,163 @@
+import { JsonWebKey, KeyObject, createPublicKey, verify } from 'crypto';
+import { readFileSync } from 'fs';
+
+// Keys are refetched after this long, or sooner when a token names an unknown key
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Stops a flood of tokens with made-up key ids from hammering the JWKS endpoint
+const JWKS_MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+const JWKS_FETCH_TIMEOUT_MS = 5 * 1000;
+
+// Tolerated clock drift between Clerk and Lambda when checking exp/nbf
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface ClerkVerifierConfig {
+  // Frontend API URL of the Clerk instance, e.g. https://clerk.keyvex.com
+  issuer: string;
+  // Defaults to `{issuer}/.well-known/jwks.json`
+  jwksUrl?: string;
+  // Read keys from a local JWKS file instead of fetching them (offline testing)
+  jwksFile?: string;
+  // Origins allowed in the `azp` claim. Empty allows any.
+  authorizedParties?: string[];
+}
+
+export interface ClerkTokenClaims {
+  sub: string;
+  iss: string;
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  azp?: string;
+  sid?: string;
+  [claim: string]: unknown;
+}
+
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+interface JwksDocument {
+  keys: Array<JsonWebKey & { kid?: string; use?: string }>;
+}
+
+/**
+ * Clerk signing keys by `kid`, kept for the life of the Lambda container
+ */
+export class JwksCache {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+
+  constructor(private source: { url?: string; file?: string }) {
+    if (!source.url && !source.file) {
+      throw new Error('JwksCache needs a JWKS URL or file');
+    }
+  }
+
+  async getKey(kid: string, now: number = Date.now()): Promise<KeyObject> {
+    const expired = now - this.fetchedAt > JWKS_CACHE_TTL_MS;
+    const canRefresh = now - this.fetchedAt > JWKS_MIN_REFRESH_INTERVAL_MS;
+
+    if (expired || (!this.keys.has(kid) && canRefresh)) {
+      await this.refresh(now);
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new TokenVerificationError(`No signing key found for kid "${kid}"`);
+    }
+    return key;
+  }
+
+  private async refresh(now: number): Promise<void> {
+    const document = this.source.file ? this.readFile(this.source.file) : await this.fetch(this.source.url!);
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of document.keys || []) {
+      if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) {
+        continue;
+      }
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    this.keys = keys;
+    this.fetchedAt = now;
+  }
+
+  private readFile(file: string): JwksDocument {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  }
+
+  private async fetch(url: string): Promise<JwksDocument> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`JWKS request to ${url} failed with ${response.status}`);
+    }
+    return response.json() as Promise<JwksDocument>;
+  }
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new TokenVerificationError('Token is not a valid JWT');
+  }
+}
+
+/**
+ * Verify a Clerk session token (RS256 JWT) and return its claims
+ */
+export async function verifyClerkToken(
+  token: string,
+  config: ClerkVerifierConfig,
+  jwks: JwksCache,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<ClerkTokenClaims> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new TokenVerificationError('Token is not a valid JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload) as ClerkTokenClaims;
+
+  // Clerk only signs with RS256; accepting anything else invites alg confusion
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw new TokenVerificationError(`Unsupported token algorithm "${header.alg}"`);
+  }
+
+  const key = await jwks.getKey(header.kid);
+  const signatureValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) {
+    throw new TokenVerificationError('Token signature is invalid');
+  }
+
+  if (claims.iss !== config.issuer) {
+    throw new TokenVerificationError(`Token issuer "${claims.iss}" is not trusted`);
+  }
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new TokenVerificationError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+    throw new TokenVerificationError('Token is not valid yet');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new TokenVerificationError('Token has no subject');
+  }
+  if (config.authorizedParties?.length && (!claims.azp || !config.authorizedParties.includes(claims.azp))) {
+    throw new TokenVerificationError(`Token authorized party "${claims.azp}" is not allowed`);
+  }
+
+  return claims;
+}
@@ -0,0 +1,91 @@
+import { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent, Context } from 'aws-lambda';
+import { getEnvironment } from '../shared/utils';
+import { ClerkVerifierConfig, JwksCache, TokenVerificationError, verifyClerkToken } from './clerk';
+
+const env = getEnvironment();
+
+// Browsers cannot set headers on a WebSocket handshake, so the session token
+// comes in the query string: wss://.../prod?token=<Clerk session JWT>
+const TOKEN_QUERY_PARAMETER = 'token';
+
+function loadConfig(): ClerkVerifierConfig {
+  if (!env.CLERK_ISSUER) {
+    throw new Error('CLERK_ISSUER not configured');
+  }
+  if (env.CLERK_JWKS_FILE && env.ENVIRONMENT === 'production') {
+    throw new Error('CLERK_JWKS_FILE is only for offline testing and cannot be used in production');
+  }
+
+  return {
+    issuer: env.CLERK_ISSUER,
+    jwksUrl: env.CLERK_JWKS_URL || `${env.CLERK_ISSUER}/.well-known/jwks.json`,
+    jwksFile: env.CLERK_JWKS_FILE,
+    authorizedParties: env.CLERK_AUTHORIZED_PARTIES
+      ?.split(',')
+      .map(party => party.trim())
+      .filter(Boolean),
+  };
+}
+
+// Built on first use so a misconfigured function denies connections instead of failing to load
+let verifier: { config: ClerkVerifierConfig; jwks: JwksCache } | undefined;
+
+function getVerifier() {
+  if (!verifier) {
+    const config = loadConfig();
+    verifier = {
+      config,
+      jwks: new JwksCache(config.jwksFile ? { file: config.jwksFile } : { url: config.jwksUrl }),
+    };
+  }
+  return verifier;
+}
+
+/**
+ * REQUEST authorizer for the WebSocket `$connect` route. Verifies the Clerk
+ * session token and hands the user id to the WebSocket handler through the
+ * authorizer context, so clients can no longer claim any userId they like.
+ */
+export const handler = async (
+  event: APIGatewayRequestAuthorizerEvent,
+  context: Context
+): Promise<APIGatewayAuthorizerResult> => {
+  const token = event.queryStringParameters?.[TOKEN_QUERY_PARAMETER];
+
+  if (!token) {
+    console.warn('WebSocket connection rejected: no token', { requestId: context.awsRequestId });
+    // API Gateway turns this exact message into a 401
+    throw new Error('Unauthorized');
+  }
+
+  try {
+    const { config, jwks } = getVerifier();
+    const claims = await verifyClerkToken(token, config, jwks);
+
+    console.log('WebSocket connection authorized', { requestId: context.awsRequestId, userId: claims.sub });
+
+    return {
+      principalId: claims.sub,
+      policyDocument: {
+        Version: '2012-10-17',
+        Statement: [{
+          Action: 'execute-api:Invoke',
+          Effect: 'Allow',
+          Resource: event.methodArn,
+        }],
+      },
+      // Clerk user ids are Keyvex user ids (UserItem.clerkId)
+      context: {
+        userId: claims.sub,
+        clerkId: claims.sub,
+      },
+    };
+  } catch (error) {
+    if (error instanceof TokenVerificationError) {
+      console.warn('WebSocket connection rejected:', { requestId: context.awsRequestId, reason: error.message });
+    } else {
+      console.error('WebSocket authorizer error:', error);
+    }
+    throw new Error('Unauthorized');
+  }
+};
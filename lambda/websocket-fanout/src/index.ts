@@ -0,0 +1,154 @@
+import { SQSHandler, SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
+import { ApiGatewayManagementApiClient } from '@aws-sdk/client-apigatewaymanagementapi';
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { PayloadPointerFrame, WebSocketBroadcastMessage } from '../shared/types';
+import { DynamoDBHelper, SQSHelper, createWebSocketClient, generateId, getEnvironment } from '../shared/utils';
+import { SchemaValidationError } from '../shared/schema';
+import { webSocketBroadcastMessageSchema } from '../shared/message-schemas';
+import { readMessage } from '../shared/message-envelope';
+import {
+  BroadcastResult,
+  ChannelSubscriptionStore,
+  ConnectionRegistry,
+  broadcast,
+  emptyBroadcastResult,
+} from '../shared/websocket-connections';
+
+// Subscribers loaded and posted to at a time, so a channel of any size fits in memory
+const RECIPIENT_CHUNK_SIZE = 100;
+
+// API Gateway rejects WebSocket frames over 32 KB
+const MAX_FRAME_BYTES = 32 * 1024;
+
+// Pointer URLs outlive any reasonable fetch; the objects expire after a day
+const POINTER_URL_EXPIRY_SECONDS = 60 * 60;
+
+const env = getEnvironment();
+const dynamoHelper = new DynamoDBHelper(env.DYNAMODB_TABLE_NAME);
+const subscriptions = new ChannelSubscriptionStore(dynamoHelper);
+const connections = new ConnectionRegistry(dynamoHelper, subscriptions);
+const s3Client = new S3Client({ region: env.AWS_REGION });
+const sqsHelper = new SQSHelper();
+
+export const handler: SQSHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  console.log('WebSocket Fan-out started', {
+    requestId: context.awsRequestId,
+    messageCount: event.Records.length
+  });
+
+  const client = createWebSocketClient();
+  if (!client) {
+    // Nothing can be delivered. Failing the records keeps the frames: they
+    // reach the DLQ, whose alarm flags the misconfiguration, instead of being
+    // acknowledged and lost
+    console.error('WebSocket environment variables not configured, failing broadcasts', {
+      requestId: context.awsRequestId
+    });
+    return { batchItemFailures: event.Records.map(record => ({ itemIdentifier: record.messageId })) };
+  }
+
+  const results = [];
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  // The queue is FIFO: once a record fails, the records after it are failed
+  // too so a channel's frames are never delivered out of order
+  for (const record of event.Records) {
+    if (batchItemFailures.length > 0) {
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+      continue;
+    }
+
+    try {
+      const result = await processBroadcastMessage(record, client);
+      results.push({ messageId: record.messageId, ...result });
+    } catch (error) {
+      // Retrying cannot fix a malformed message, and dead-lettering it keeps
+      // the records after it moving
+      if (error instanceof SchemaValidationError && await sqsHelper.sendToDeadLetterQueue(record, error.message)) {
+        results.push({ messageId: record.messageId, status: 'invalid', error: error.message });
+        continue;
+      }
+      console.error('Failed to fan out WebSocket broadcast:', {
+        messageId: record.messageId,
+        error: error instanceof Error ? error.message : error
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+    }
+  }
+
+  console.log('WebSocket Fan-out completed', {
+    requestId: context.awsRequestId,
+    results,
+    failed: batchItemFailures.length
+  });
+
+  return { batchItemFailures };
+};
+
+async function processBroadcastMessage(
+  record: SQSRecord,
+  client: ApiGatewayManagementApiClient
+): Promise<BroadcastResult & { channel: string; correlationId: string; pointer: boolean }> {
+  const message = readMessage(record, webSocketBroadcastMessageSchema, 'WebSocketBroadcastMessage');
+
+  let data = JSON.stringify(message.payload);
+  const pointer = Buffer.byteLength(data) > MAX_FRAME_BYTES;
+  if (pointer) {
+    data = JSON.stringify(await uploadPayload(message, data));
+  }
+
+  // Individual connections never fail the message; only reading subscribers
+  // or uploading the payload does, and those are worth retrying
+  const result = emptyBroadcastResult();
+  for await (const page of subscriptions.subscriberPages(message.channel, RECIPIENT_CHUNK_SIZE)) {
+    const recipients = page.filter(subscriber => !message.userId || subscriber.userId === message.userId);
+    if (recipients.length === 0) {
+      continue;
+    }
+
+    const chunk = await broadcast(client, recipients, data, connections);
+    result.recipients += chunk.recipients;
+    result.delivered += chunk.delivered;
+    result.gone += chunk.gone;
+    result.failed += chunk.failed;
+    result.retries += chunk.retries;
+  }
+
+  return { channel: message.channel, correlationId: message.envelope.correlationId, pointer, ...result };
+}
+
+/**
+ * Store a frame too large for API Gateway in S3 and describe where to fetch it
+ */
+async function uploadPayload(message: WebSocketBroadcastMessage, data: string): Promise<PayloadPointerFrame> {
+  if (!env.TOOL_ASSETS_BUCKET_NAME) {
+    throw new Error('TOOL_ASSETS_BUCKET_NAME not configured');
+  }
+
+  // Objects under broadcasts/ expire via a bucket lifecycle rule
+  const key = `broadcasts/${generateId()}.json`;
+  await s3Client.send(new PutObjectCommand({
+    Bucket: env.TOOL_ASSETS_BUCKET_NAME,
+    Key: key,
+    Body: data,
+    ContentType: 'application/json',
+  }));
+
+  const url = await getSignedUrl(
+    s3Client,
+    new GetObjectCommand({ Bucket: env.TOOL_ASSETS_BUCKET_NAME, Key: key }),
+    { expiresIn: POINTER_URL_EXPIRY_SECONDS }
+  );
+
+  return {
+    type: 'payload_pointer',
+    channel: message.channel,
+    frameType: message.payload.type,
+    url,
+    size: Buffer.byteLength(data),
+    expiresAt: Date.now() + POINTER_URL_EXPIRY_SECONDS * 1000,
+    timestamp: Date.now(),
+    correlationId: message.envelope.correlationId,
+  };
+}
@@ -1,31 +1,52 @@
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
-
-// Initialize DynamoDB client
-const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
-const docClient = DynamoDBDocumentClient.from(dynamoClient);
-
-const tableName = process.env.DYNAMODB_TABLE_NAME!;
+import { ApiGatewayManagementApiClient } from '@aws-sdk/client-apigatewaymanagementapi';
+import {
+  ResumeMessage,
+  StreamFrameItem,
+  WebSocketChannel,
+  WebSocketConnectionItem,
+  WebSocketServerFrame,
+} from '../shared/types';
+import { DynamoDBHelper } from '../shared/utils';
+import { SessionRepository, ToolRepository, keys } from '../shared/repositories';
+import {
+  WebSocketProtocolError,
+  errorFrame,
+  parseChannel,
+  parseClientMessage,
+} from '../shared/websocket-channels';
+import {
+  BroadcastResult,
+  ChannelSubscriptionStore,
+  ConnectionRegistry,
+  broadcast,
+} from '../shared/websocket-connections';
+
+const dynamoHelper = new DynamoDBHelper(process.env.DYNAMODB_TABLE_NAME!);
+const channels = new ChannelSubscriptionStore(dynamoHelper);
+const connections = new ConnectionRegistry(dynamoHelper, channels);
+const sessions = new SessionRepository(dynamoHelper);
+const tools = new ToolRepository(dynamoHelper);
 
 export const handler = async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
-  console.log('WebSocket event:', JSON.stringify(event, null, 2));
-
   const { connectionId, routeKey, stage, domainName } = event.requestContext;
+
+  // Not the whole event: the $connect query string carries the Clerk session token
+  console.log('WebSocket event:', { routeKey, connectionId, requestId: context.awsRequestId });
   const callbackUrl = `https://${domainName}/${stage}`;
 
   try {
     switch (routeKey) {
       case '$connect':
-        return await handleConnect(connectionId!, event.queryStringParameters);
+        return await handleConnect(connectionId!, event.requestContext.authorizer, event.queryStringParameters);
       
       case '$disconnect':
         return await handleDisconnect(connectionId!);
       
       case '$default':
-        return await handleMessage(connectionId!, JSON.parse(event.body || '{}'), callbackUrl);
+        await connections.touch(connectionId!);
+        return await handleMessage(connectionId!, event.body, callbackUrl);
       
       default:
         return { statusCode: 400, body: 'Unknown route' };
@@ -36,33 +57,24 @@ export const handler = async (event: APIGatewayProxyEvent, context: Context): Pr
   }
 };
 
-async function handleConnect(connectionId: string, queryParams: any): Promise<APIGatewayProxyResult> {
+async function handleConnect(connectionId: string, authorizer: any, queryParams: any): Promise<APIGatewayProxyResult> {
   console.log(`Handling connection: ${connectionId}`);
   
-  const userId = queryParams?.userId;
+  // Set by the $connect authorizer from the verified Clerk token. Any userId
+  // in the query string is ignored.
+  const userId = authorizer?.userId;
   const jobId = queryParams?.jobId;
   
   if (!userId) {
-    return { statusCode: 400, body: 'Missing userId' };
+    return { statusCode: 401, body: 'Unauthorized' };
   }
 
-  // Store connection info in DynamoDB
-  const connectionInfo = {
-    PK: `CONNECTION#${connectionId}`,
-    SK: `USER#${userId}`,
-    GSI1PK: `USER#${userId}`,
-    GSI1SK: `CONNECTION#${connectionId}`,
-    connectionId,
-    userId,
-    jobId: jobId || null,
-    connectedAt: new Date().toISOString(),
-    ttl: Math.floor(Date.now() / 1000) + (2 * 60 * 60), // 2 hours TTL
-  };
-
-  await docClient.send(new PutCommand({
-    TableName: tableName,
-    Item: connectionInfo,
-  }));
+  const connection = await connections.register({ connectionId, userId, jobId });
+
+  // Clients that name a job when connecting are subscribed to its channel
+  if (jobId && parseChannel(`job:${jobId}`)) {
+    await channels.subscribe(connection, `job:${jobId}`);
+  }
 
   console.log(`Connection stored for user ${userId}`);
   return { statusCode: 200, body: 'Connected' };
@@ -71,26 +83,8 @@ async function handleConnect(connectionId: string, queryParams: any): Promise<AP
 async function handleDisconnect(connectionId: string): Promise<APIGatewayProxyResult> {
   console.log(`Handling disconnect: ${connectionId}`);
   
-  // First get the connection info to find the SK
   try {
-    const response = await docClient.send(new QueryCommand({
-      TableName: tableName,
-      KeyConditionExpression: 'PK = :pk',
-      ExpressionAttributeValues: {
-        ':pk': `CONNECTION#${connectionId}`,
-      },
-    }));
-
-    if (response.Items && response.Items.length > 0) {
-      const item = response.Items[0];
-      await docClient.send(new DeleteCommand({
-        TableName: tableName,
-        Key: {
-          PK: item.PK,
-          SK: item.SK,
-        },
-      }));
-    }
+    await connections.remove(connectionId);
   } catch (error) {
     console.error('Error removing connection:', error);
   }
@@ -99,93 +93,133 @@ async function handleDisconnect(connectionId: string): Promise<APIGatewayProxyRe
   return { statusCode: 200, body: 'Disconnected' };
 }
 
-async function handleMessage(connectionId: string, message: any, callbackUrl: string): Promise<APIGatewayProxyResult> {
-  console.log(`Handling message from ${connectionId}:`, message);
-  
+async function handleMessage(connectionId: string, body: string | null, callbackUrl: string): Promise<APIGatewayProxyResult> {
   const apiGwClient = new ApiGatewayManagementApiClient({
     endpoint: callbackUrl,
   });
 
+  let requestId: string | undefined;
+
   try {
-    await apiGwClient.send(new PostToConnectionCommand({
-      ConnectionId: connectionId,
-      Data: JSON.stringify({
-        type: 'echo',
-        message: message,
-        timestamp: new Date().toISOString(),
-      }),
-    }));
+    const message = parseClientMessage(body);
+    requestId = message.requestId;
+    console.log(`Handling ${message.action} from ${connectionId}`);
+
+    const connection = await connections.get(connectionId);
+    if (!connection) {
+      throw new WebSocketProtocolError('FORBIDDEN', 'Unknown connection', requestId);
+    }
+
+    switch (message.action) {
+      case 'ping':
+        await sendFrame(apiGwClient, connectionId, { type: 'pong', requestId, timestamp: Date.now() });
+        break;
+
+      case 'subscribe':
+        await authorizeChannel(connection.userId, message.channel, requestId);
+        await channels.subscribe(connection, message.channel);
+        await sendFrame(apiGwClient, connectionId, {
+          type: 'subscribed',
+          channel: message.channel,
+          requestId,
+          timestamp: Date.now(),
+        });
+        break;
+
+      case 'unsubscribe':
+        await channels.unsubscribe(connectionId, message.channel);
+        await sendFrame(apiGwClient, connectionId, {
+          type: 'unsubscribed',
+          channel: message.channel,
+          requestId,
+          timestamp: Date.now(),
+        });
+        break;
+
+      case 'resume':
+        await handleResume(connection, message, apiGwClient);
+        break;
+    }
+
+    return { statusCode: 200, body: 'OK' };
   } catch (error) {
-    console.error('Failed to send message:', error);
-    // Connection might be stale, remove it
-    await handleDisconnect(connectionId);
+    const protocolError = error instanceof WebSocketProtocolError
+      ? error
+      : new WebSocketProtocolError('INTERNAL_ERROR', 'Internal server error', requestId);
+
+    if (protocolError.code === 'INTERNAL_ERROR') {
+      console.error('Failed to handle message:', error);
+    } else {
+      console.warn(`Rejected message from ${connectionId}:`, protocolError.message);
+    }
+
+    await sendFrame(apiGwClient, connectionId, errorFrame(protocolError.code, protocolError.message, protocolError.requestId));
+    return { statusCode: protocolError.code === 'INTERNAL_ERROR' ? 500 : 400, body: protocolError.message };
   }
+}
 
-  return { statusCode: 200, body: 'Message sent' };
+// A gone connection is removed by the broadcaster; other failures are only logged
+async function sendFrame(
+  apiGwClient: ApiGatewayManagementApiClient,
+  connectionId: string,
+  frame: WebSocketServerFrame
+): Promise<BroadcastResult> {
+  return broadcast(apiGwClient, [{ connectionId }], frame, connections);
 }
 
-// Utility function to send progress updates to connected users
-export async function emitStepProgress(
-  userId: string,
-  jobId: string,
-  stepName: string,
-  status: 'pending' | 'running' | 'completed' | 'failed',
-  data?: any,
-  domainName?: string,
-  stage?: string
-): Promise<void> {
-  if (!domainName || !stage) {
-    console.warn('WebSocket domain or stage not provided, skipping progress emission');
-    return;
+/**
+ * Sessions and tools must belong to the user. Jobs are not stored, so any
+ * job channel may be joined, but progress is only delivered to the
+ * connections of the user who owns the job.
+ */
+async function authorizeChannel(userId: string, channel: WebSocketChannel, requestId?: string): Promise<void> {
+  const { type, id } = parseChannel(channel)!;
+  let ownerId: string | undefined;
+
+  switch (type) {
+    case 'job':
+      return;
+
+    case 'session':
+      ownerId = (await sessions.get(id))?.userId;
+      break;
+
+    case 'tool':
+      ownerId = (await tools.get(id))?.userId;
+      break;
   }
 
-  try {
-    // Find active connections for this user
-    const response = await docClient.send(new QueryCommand({
-      TableName: tableName,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'GSI1PK = :gsi1pk',
-      ExpressionAttributeValues: {
-        ':gsi1pk': `USER#${userId}`,
-      },
-    }));
-
-    if (!response.Items || response.Items.length === 0) {
-      console.log(`No active WebSocket connections found for user ${userId}`);
-      return;
+  // Missing and foreign resources look the same, so ids cannot be probed
+  if (ownerId !== userId) {
+    throw new WebSocketProtocolError('FORBIDDEN', `Not allowed to subscribe to ${channel}`, requestId);
+  }
+}
+
+// Replay token stream frames the client missed while disconnected
+async function handleResume(
+  connection: WebSocketConnectionItem,
+  message: ResumeMessage,
+  apiGwClient: ApiGatewayManagementApiClient
+): Promise<void> {
+  const { streamId, afterSequence, requestId } = message;
+
+  let replayed = 0;
+  const after = keys.streamFrame(streamId, afterSequence);
+  const frames = dynamoHelper.queryItems<StreamFrameItem>(after.PK, { sortKey: { greaterThan: after.SK } });
+
+  for await (const item of frames) {
+    // Streams are private to the user that requested the completion
+    if (item.userId !== connection.userId) {
+      throw new WebSocketProtocolError('FORBIDDEN', 'Stream belongs to another user', requestId);
     }
 
-    const callbackUrl = `https://${domainName}/${stage}`;
-    const apiGwClient = new ApiGatewayManagementApiClient({
-      endpoint: callbackUrl,
-    });
-
-    const progressMessage = {
-      type: 'step_progress',
-      jobId,
-      stepName,
-      status,
-      data,
-      timestamp: new Date().toISOString(),
-    };
-
-    // Send to all active connections for this user
-    const sendPromises = response.Items.map(async (connection) => {
-      try {
-        await apiGwClient.send(new PostToConnectionCommand({
-          ConnectionId: connection.connectionId,
-          Data: JSON.stringify(progressMessage),
-        }));
-        console.log(`Progress sent to connection ${connection.connectionId}`);
-      } catch (error) {
-        console.error(`Failed to send to connection ${connection.connectionId}:`, error);
-        // Remove stale connection
-        await handleDisconnect(connection.connectionId);
-      }
-    });
-
-    await Promise.allSettled(sendPromises);
-  } catch (error) {
-    console.error('Error emitting step progress:', error);
+    const result = await sendFrame(apiGwClient, connection.connectionId, item.frame);
+    if (result.gone > 0) {
+      console.log(`Connection ${connection.connectionId} closed during replay of stream ${streamId}`);
+      return;
+    }
+    replayed++;
   }
+
+  console.log(`Replayed ${replayed} frames of stream ${streamId} to ${connection.connectionId}`);
 }
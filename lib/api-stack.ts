@@ -25,12 +25,6 @@ export class ApiStack extends cdk.Stack {
     this.webSocketApi = new apigatewayv2.WebSocketApi(this, 'KeyvexWebSocketApi', {
       apiName: `keyvex-websocket-api-${environment}`,
       description: `Keyvex WebSocket API - ${environment}`,
-      connectRouteOptions: {
-        integration: new apigatewayv2Integrations.WebSocketLambdaIntegration(
-          'ConnectIntegration',
-          lambdaFunctions.websocketHandler
-        ),
-      },
       disconnectRouteOptions: {
         integration: new apigatewayv2Integrations.WebSocketLambdaIntegration(
           'DisconnectIntegration',
@@ -45,6 +39,41 @@ export class ApiStack extends cdk.Stack {
       },
     });
 
+    // $connect is added separately because its authorizer needs the API id.
+    // The authorizer verifies the Clerk session token passed as ?token= and
+    // passes the user id to the handler; connections without a token get a 401.
+    const connectAuthorizer = new apigatewayv2.WebSocketAuthorizer(this, 'WebSocketConnectAuthorizer', {
+      authorizerName: `keyvex-websocket-authorizer-${environment}`,
+      webSocketApi: this.webSocketApi,
+      type: apigatewayv2.WebSocketAuthorizerType.LAMBDA,
+      identitySource: ['route.request.querystring.token'],
+      authorizerUri: `arn:${cdk.Aws.PARTITION}:apigateway:${cdk.Aws.REGION}:lambda:path/2015-03-31/functions/${lambdaFunctions.websocketAuthorizer.functionArn}/invocations`,
+    });
+
+    // Created in this stack (not alongside the function) to avoid a circular dependency
+    lambdaFunctions.websocketAuthorizer.addPermission('WebSocketConnectAuthorizerInvoke', {
+      scope: this,
+      principal: new iam.ServicePrincipal('apigateway.amazonaws.com'),
+      sourceArn: this.formatArn({
+        service: 'execute-api',
+        resource: this.webSocketApi.apiId,
+        resourceName: `authorizers/${connectAuthorizer.authorizerId}`,
+      }),
+    });
+
+    this.webSocketApi.addRoute('$connect', {
+      integration: new apigatewayv2Integrations.WebSocketLambdaIntegration(
+        'ConnectIntegration',
+        lambdaFunctions.websocketHandler
+      ),
+      authorizer: {
+        bind: () => ({
+          authorizerId: connectAuthorizer.authorizerId,
+          authorizationType: 'CUSTOM',
+        }),
+      },
+    });
+
     // WebSocket Stage
     const webSocketStage = new apigatewayv2.WebSocketStage(this, 'WebSocketStage', {
       webSocketApi: this.webSocketApi,
@@ -67,6 +96,34 @@ export class ApiStack extends cdk.Stack {
       },
     });
 
+    // Email compliance endpoints: unsubscribe links and provider bounce/complaint webhooks
+    const emailWebhookIntegration = new apigateway.LambdaIntegration(lambdaFunctions.emailWebhook);
+    const emailResource = this.apiGateway.root.addResource('email');
+
+    const unsubscribeResource = emailResource.addResource('unsubscribe');
+    unsubscribeResource.addMethod('GET', emailWebhookIntegration);
+    unsubscribeResource.addMethod('POST', emailWebhookIntegration);
+
+    const emailEventsResource = emailResource.addResource('events');
+    emailEventsResource.addResource('sendgrid').addMethod('POST', emailWebhookIntegration);
+    emailEventsResource.addResource('ses').addMethod('POST', emailWebhookIntegration);
+
+    // Lead exports. Called server-side by the app with SigV4-signed requests;
+    // the function also checks that `userId` owns the tool.
+    // Large exports answer 202 with an exportId, polled at export/{exportId}.
+    const leadExportIntegration = new apigateway.LambdaIntegration(lambdaFunctions.leadExport);
+    const leadExportResource = this.apiGateway.root
+      .addResource('tools')
+      .addResource('{toolId}')
+      .addResource('leads')
+      .addResource('export');
+    leadExportResource.addMethod('GET', leadExportIntegration, {
+      authorizationType: apigateway.AuthorizationType.IAM,
+    });
+    leadExportResource.addResource('{exportId}').addMethod('GET', leadExportIntegration, {
+      authorizationType: apigateway.AuthorizationType.IAM,
+    });
+
     // CloudFormation Outputs
     new cdk.CfnOutput(this, 'WebSocketApiEndpoint', {
       value: this.webSocketApi.apiEndpoint,
@@ -5,9 +5,13 @@ import * as elasticache from 'aws-cdk-lib/aws-elasticache';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import { Construct } from 'constructs';
 import { QueueResources } from './database-stack';
 import { SecretsResources } from './security-stack';
+import { StorageResources } from './storage-stack';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -16,6 +20,7 @@ export interface ComputeStackProps extends cdk.StackProps {
   table: dynamodb.Table;
   queues: QueueResources;
   secrets: SecretsResources;
+  storage: StorageResources;
 }
 
 export interface LambdaFunctions {
@@ -23,8 +28,35 @@ export interface LambdaFunctions {
   analyticsProcessor: lambda.Function;
   websocketHandler: lambda.Function;
   emailProcessor: lambda.Function;
+  emailWebhook: lambda.Function;
+  leadExport: lambda.Function;
+  leadExportWorker: lambda.Function;
+  webhookDispatcher: lambda.Function;
+  websocketAuthorizer: lambda.Function;
+  connectionSweeper: lambda.Function;
+  websocketFanout: lambda.Function;
 }
 
+/**
+ * SQS trigger settings for one queue consumed by a Lambda function
+ */
+export interface QueueConsumerConfig {
+  // A Queue rather than IQueue so its dead-letter queue is known
+  queue: sqs.Queue;
+  batchSize: number;
+  maxBatchingWindow?: cdk.Duration;
+  // Caps how many concurrent invocations this queue can drive (minimum 2)
+  maxConcurrency?: number;
+  enabled?: boolean;
+}
+
+export type QueueConsumerFunctions = Pick<
+  LambdaFunctions,
+  'aiProcessor' | 'analyticsProcessor' | 'emailProcessor' | 'leadExportWorker' | 'webhookDispatcher' | 'websocketFanout'
+>;
+
+export type QueueConsumerConfigs = Record<keyof QueueConsumerFunctions, QueueConsumerConfig[]>;
+
 interface BuildManifest {
   buildTime: string;
   functions: {
@@ -42,7 +74,7 @@ export class ComputeStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: ComputeStackProps) {
     super(scope, id, props);
 
-    const { environment, table, queues, secrets } = props;
+    const { environment, table, queues, secrets, storage } = props;
 
     // Read build manifest to get ZIP file paths
     const manifestPath = path.join(__dirname, '..', 'dist', 'lambda', 'build-manifest.json');
@@ -82,6 +114,22 @@ export class ComputeStack extends cdk.Stack {
       DATABASE_SECRETS_ARN: secrets.databaseSecrets.secretArn,
     };
 
+    // Functions that post to WebSocket connections need the API's endpoint.
+    // ApiStack depends on this stack, so the domain is supplied through
+    // context, e.g. --context webSocketDomain=abc123.execute-api.us-east-1.amazonaws.com
+    const webSocketEnvironment = {
+      WEBSOCKET_DOMAIN: this.node.tryGetContext('webSocketDomain') || '',
+      WEBSOCKET_STAGE: environment === 'production' ? 'prod' : 'dev',
+    };
+    // Not an error: the first deploy creates the API whose domain this is.
+    // Until it is set, broadcasts fail into the WebSocket broadcast DLQ.
+    if (!webSocketEnvironment.WEBSOCKET_DOMAIN) {
+      cdk.Annotations.of(this).addWarning(
+        'webSocketDomain context is not set: WebSocket frames cannot be delivered and broadcasts will go to the DLQ. ' +
+        'Redeploy with --context webSocketDomain=<api id>.execute-api.<region>.amazonaws.com'
+      );
+    }
+
     // AI Processor Lambda
     const aiProcessor = new lambda.Function(this, 'AiProcessor', {
       functionName: `keyvex-ai-processor-${environment}`,
@@ -93,6 +141,9 @@ export class ComputeStack extends cdk.Stack {
       environment: {
         ...commonEnvironment,
         AI_PROCESSING_QUEUE_URL: queues.aiProcessingQueue.queueUrl,
+        AI_PROCESSING_HIGH_PRIORITY_QUEUE_URL: queues.aiProcessingHighPriorityQueue.queueUrl,
+        AI_PROCESSING_LOW_PRIORITY_QUEUE_URL: queues.aiProcessingLowPriorityQueue.queueUrl,
+        WEBSOCKET_BROADCAST_QUEUE_URL: queues.websocketBroadcastQueue.queueUrl,
       },
     });
 
@@ -107,6 +158,10 @@ export class ComputeStack extends cdk.Stack {
       environment: {
         ...commonEnvironment,
         ANALYTICS_QUEUE_URL: queues.analyticsQueue.queueUrl,
+        // New leads notify the tool owner by email
+        EMAIL_QUEUE_URL: queues.emailQueue.queueUrl,
+        WEBHOOK_DELIVERY_QUEUE_URL: queues.webhookDeliveryQueue.queueUrl,
+        WEBSOCKET_BROADCAST_QUEUE_URL: queues.websocketBroadcastQueue.queueUrl,
       },
     });
 
@@ -121,6 +176,25 @@ export class ComputeStack extends cdk.Stack {
       environment: commonEnvironment,
     });
 
+    // WebSocket Authorizer Lambda (verifies Clerk session tokens on $connect).
+    // The Clerk instance is supplied through context, e.g.
+    // --context clerkIssuer=https://clerk.keyvex.com
+    const clerkAuthorizedParties = this.node.tryGetContext('clerkAuthorizedParties')
+      || (environment === 'production' ? 'https://keyvex.com,https://www.keyvex.com' : '');
+    const websocketAuthorizer = new lambda.Function(this, 'WebsocketAuthorizer', {
+      functionName: `keyvex-websocket-authorizer-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('websocket-authorizer'),
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+      environment: {
+        ...commonEnvironment,
+        CLERK_ISSUER: this.node.tryGetContext('clerkIssuer') || '',
+        CLERK_AUTHORIZED_PARTIES: clerkAuthorizedParties,
+      },
+    });
+
     // Grant broad WebSocket API management permissions to the WebSocket handler
     // This avoids circular dependencies by not referencing the specific API
     websocketHandler.addToRolePolicy(
@@ -136,6 +210,70 @@ export class ComputeStack extends cdk.Stack {
       })
     );
 
+    // Connection Sweeper Lambda (prunes connections that went quiet without a $disconnect)
+    const connectionSweeper = new lambda.Function(this, 'ConnectionSweeper', {
+      functionName: `keyvex-connection-sweeper-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('connection-sweeper'),
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 256,
+      environment: {
+        ...commonEnvironment,
+        ...webSocketEnvironment,
+        CONNECTION_IDLE_MINUTES: '30',
+      },
+    });
+
+    new events.Rule(this, 'ConnectionSweeperSchedule', {
+      ruleName: `keyvex-connection-sweeper-${environment}`,
+      description: 'Prune idle WebSocket connections',
+      schedule: events.Schedule.rate(cdk.Duration.minutes(15)),
+      targets: [new eventsTargets.LambdaFunction(connectionSweeper)],
+    });
+
+    // Closes idle connections at API Gateway
+    connectionSweeper.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['execute-api:ManageConnections'],
+        resources: [
+          `arn:aws:execute-api:${this.region}:${this.account}:*`
+        ],
+      })
+    );
+
+    // WebSocket Fan-out Lambda (posts queued frames to channel subscribers).
+    // Processors only enqueue, so a large audience never holds them up.
+    const websocketFanout = new lambda.Function(this, 'WebsocketFanout', {
+      functionName: `keyvex-websocket-fanout-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('websocket-fanout'),
+      timeout: cdk.Duration.minutes(1),
+      memorySize: 512,
+      environment: {
+        ...commonEnvironment,
+        ...webSocketEnvironment,
+        // Frames over API Gateway's 32 KB limit are sent as S3 pointers
+        TOOL_ASSETS_BUCKET_NAME: storage.toolAssetsBucket.bucketName,
+      },
+    });
+
+    websocketFanout.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['execute-api:ManageConnections'],
+        resources: [
+          `arn:aws:execute-api:${this.region}:${this.account}:*`
+        ],
+      })
+    );
+
+    // The REST API lives in ApiStack, which depends on this stack, so the
+    // public unsubscribe URL is supplied through context
+    const unsubscribeBaseUrl = this.node.tryGetContext('unsubscribeBaseUrl') || 'https://keyvex.com/unsubscribe';
+
     // Email Processor Lambda
     const emailProcessor = new lambda.Function(this, 'EmailProcessor', {
       functionName: `keyvex-email-processor-${environment}`,
@@ -147,6 +285,80 @@ export class ComputeStack extends cdk.Stack {
       environment: {
         ...commonEnvironment,
         EMAIL_QUEUE_URL: queues.emailQueue.queueUrl,
+        EMAIL_HIGH_PRIORITY_QUEUE_URL: queues.emailHighPriorityQueue.queueUrl,
+        EMAIL_TRANSPORT: 'sendgrid',
+        EMAIL_FROM_ADDRESS: 'notifications@keyvex.com',
+        UNSUBSCRIBE_BASE_URL: unsubscribeBaseUrl,
+      },
+    });
+
+    // Allow the SES transport to be selected via EMAIL_TRANSPORT
+    emailProcessor.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['ses:SendEmail', 'ses:SendRawEmail'],
+        resources: [
+          `arn:aws:ses:${this.region}:${this.account}:identity/*`
+        ],
+      })
+    );
+
+    // Email Webhook Lambda (unsubscribe links, bounce and complaint events)
+    const emailWebhook = new lambda.Function(this, 'EmailWebhook', {
+      functionName: `keyvex-email-webhook-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('email-webhook'),
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: commonEnvironment,
+    });
+
+    // Lead Export Lambda (CSV/NDJSON lead downloads for tool owners)
+    const leadExport = new lambda.Function(this, 'LeadExport', {
+      functionName: `keyvex-lead-export-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('lead-export'),
+      // API Gateway gives up after 29 seconds
+      timeout: cdk.Duration.seconds(29),
+      memorySize: 1024,
+      environment: {
+        ...commonEnvironment,
+        TOOL_ASSETS_BUCKET_NAME: storage.toolAssetsBucket.bucketName,
+        LEAD_EXPORT_QUEUE_URL: queues.leadExportQueue.queueUrl,
+      },
+    });
+
+    // Lead Export Worker Lambda (builds the exports too large to return inline).
+    // Same code as the API function; rows are spooled to /tmp until the
+    // column layout is known.
+    const leadExportWorker = new lambda.Function(this, 'LeadExportWorker', {
+      functionName: `keyvex-lead-export-worker-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/worker.handler',
+      code: getLambdaCode('lead-export'),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 1024,
+      ephemeralStorageSize: cdk.Size.gibibytes(2),
+      environment: {
+        ...commonEnvironment,
+        TOOL_ASSETS_BUCKET_NAME: storage.toolAssetsBucket.bucketName,
+      },
+    });
+
+    // Webhook Dispatcher Lambda (signed outbound webhooks with retries)
+    const webhookDispatcher = new lambda.Function(this, 'WebhookDispatcher', {
+      functionName: `keyvex-webhook-dispatcher-${environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'src/index.handler',
+      code: getLambdaCode('webhook-dispatcher'),
+      timeout: cdk.Duration.minutes(2),
+      memorySize: 256,
+      environment: {
+        ...commonEnvironment,
+        WEBHOOK_DELIVERY_QUEUE_URL: queues.webhookDeliveryQueue.queueUrl,
+        WEBHOOK_DELIVERY_DLQ_URL: queues.webhookDeliveryDlq.queueUrl,
       },
     });
 
@@ -155,20 +367,131 @@ export class ComputeStack extends cdk.Stack {
     table.grantReadWriteData(analyticsProcessor);
     table.grantReadWriteData(websocketHandler);
     table.grantReadWriteData(emailProcessor);
+    table.grantReadWriteData(emailWebhook);
+    table.grantReadWriteData(leadExport);
+    table.grantReadWriteData(leadExportWorker);
+    table.grantReadWriteData(webhookDispatcher);
+    table.grantReadWriteData(connectionSweeper);
+    table.grantReadWriteData(websocketFanout);
 
     secrets.aiSecrets.grantRead(aiProcessor);
     secrets.aiSecrets.grantRead(analyticsProcessor);
     secrets.integrationSecrets.grantRead(emailProcessor);
+    secrets.integrationSecrets.grantRead(emailWebhook);
 
     queues.aiProcessingQueue.grantConsumeMessages(aiProcessor);
+    queues.aiProcessingHighPriorityQueue.grantConsumeMessages(aiProcessor);
+    queues.aiProcessingLowPriorityQueue.grantConsumeMessages(aiProcessor);
     queues.analyticsQueue.grantConsumeMessages(analyticsProcessor);
     queues.emailQueue.grantConsumeMessages(emailProcessor);
+    queues.emailHighPriorityQueue.grantConsumeMessages(emailProcessor);
+    queues.emailQueue.grantSendMessages(analyticsProcessor);
+    queues.webhookDeliveryQueue.grantSendMessages(analyticsProcessor);
+    queues.webhookDeliveryQueue.grantConsumeMessages(webhookDispatcher);
+    // Retries are re-sent with a delay; exhausted deliveries are parked in the DLQ
+    queues.webhookDeliveryQueue.grantSendMessages(webhookDispatcher);
+    queues.webhookDeliveryDlq.grantSendMessages(webhookDispatcher);
+    queues.websocketBroadcastQueue.grantSendMessages(aiProcessor);
+    queues.websocketBroadcastQueue.grantSendMessages(analyticsProcessor);
+    queues.websocketBroadcastQueue.grantConsumeMessages(websocketFanout);
+    queues.leadExportQueue.grantSendMessages(leadExport);
+    queues.leadExportQueue.grantConsumeMessages(leadExportWorker);
+
+    // Large exports are uploaded by the worker and handed out by the API
+    // function as presigned download links
+    storage.toolAssetsBucket.grantPut(leadExportWorker, 'exports/leads/*');
+    storage.toolAssetsBucket.grantRead(leadExport, 'exports/leads/*');
+    storage.toolAssetsBucket.grantPut(websocketFanout, 'broadcasts/*');
+    storage.toolAssetsBucket.grantRead(websocketFanout, 'broadcasts/*');
+
+    // SQS triggers per consumer. Each priority lane gets its own event source
+    // mapping; higher lanes take small batches with more concurrency so they
+    // drain first, while low-priority work is batched and throttled.
+    const queueConsumers: QueueConsumerConfigs = {
+      aiProcessor: [
+        {
+          queue: queues.aiProcessingHighPriorityQueue,
+          batchSize: 1,
+          maxConcurrency: 20,
+        },
+        {
+          queue: queues.aiProcessingQueue,
+          batchSize: 2,
+          maxConcurrency: 10,
+        },
+        {
+          queue: queues.aiProcessingLowPriorityQueue,
+          batchSize: 5,
+          maxBatchingWindow: cdk.Duration.seconds(30),
+          maxConcurrency: 2,
+        },
+      ],
+      analyticsProcessor: [
+        {
+          queue: queues.analyticsQueue,
+          batchSize: 25,
+          maxBatchingWindow: cdk.Duration.seconds(10),
+          maxConcurrency: 5,
+        },
+      ],
+      emailProcessor: [
+        {
+          queue: queues.emailHighPriorityQueue,
+          batchSize: 1,
+          maxConcurrency: 10,
+        },
+        {
+          queue: queues.emailQueue,
+          batchSize: 10,
+          maxBatchingWindow: cdk.Duration.seconds(5),
+          maxConcurrency: 5,
+        },
+      ],
+      // One export per invocation: each can take minutes and fill /tmp
+      leadExportWorker: [
+        {
+          queue: queues.leadExportQueue,
+          batchSize: 1,
+          maxConcurrency: 5,
+        },
+      ],
+      // Each delivery can wait up to 10 seconds on the receiver, so batches stay
+      // small enough to finish well inside the visibility timeout
+      webhookDispatcher: [
+        {
+          queue: queues.webhookDeliveryQueue,
+          batchSize: 5,
+          maxConcurrency: 5,
+        },
+      ],
+      // FIFO: a channel's frames are handled by one invocation at a time, in
+      // order, so concurrency only helps across channels
+      websocketFanout: [
+        {
+          queue: queues.websocketBroadcastQueue,
+          batchSize: 10,
+          maxConcurrency: 20,
+        },
+      ],
+    };
+
+    addQueueConsumers(
+      { aiProcessor, analyticsProcessor, emailProcessor, leadExportWorker, webhookDispatcher, websocketFanout },
+      queueConsumers
+    );
 
     this.lambdaFunctions = {
       aiProcessor,
       analyticsProcessor,
       websocketHandler,
       emailProcessor,
+      emailWebhook,
+      leadExport,
+      leadExportWorker,
+      webhookDispatcher,
+      websocketAuthorizer,
+      connectionSweeper,
+      websocketFanout,
     };
 
     // CloudFormation Outputs
@@ -192,4 +515,32 @@ export class ComputeStack extends cdk.Stack {
       });
     }
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Attach an SQS event source for every configured queue. Handlers return
+ * batchItemFailures so only failed records are retried and, after
+ * maxReceiveCount, moved to the DLQ. Messages that fail their schema are sent
+ * to the DLQ directly, so each function is given its queues' DLQs as
+ * DEAD_LETTER_QUEUE_URLS.
+ */
+function addQueueConsumers(functions: QueueConsumerFunctions, configs: QueueConsumerConfigs): void {
+  (Object.keys(configs) as Array<keyof QueueConsumerFunctions>).forEach((name) => {
+    const fn = functions[name];
+    const deadLetterQueues: Array<{ queueArn: string; deadLetterQueueUrl: string }> = [];
+
+    configs[name].forEach(({ queue, ...options }) => {
+      fn.addEventSource(new lambdaEventSources.SqsEventSource(queue, {
+        ...options,
+        reportBatchItemFailures: true,
+      }));
+
+      if (queue.deadLetterQueue) {
+        queue.deadLetterQueue.queue.grantSendMessages(fn);
+        deadLetterQueues.push({ queueArn: queue.queueArn, deadLetterQueueUrl: queue.deadLetterQueue.queue.queueUrl });
+      }
+    });
+
+    fn.addEnvironment('DEAD_LETTER_QUEUE_URLS', cdk.Stack.of(fn).toJsonString(deadLetterQueues));
+  });
+}
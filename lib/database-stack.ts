@@ -10,10 +10,22 @@ export interface DatabaseStackProps extends cdk.StackProps {
 export interface QueueResources {
   aiProcessingQueue: sqs.Queue;
   aiProcessingDlq: sqs.Queue;
+  aiProcessingHighPriorityQueue: sqs.Queue;
+  aiProcessingHighPriorityDlq: sqs.Queue;
+  aiProcessingLowPriorityQueue: sqs.Queue;
+  aiProcessingLowPriorityDlq: sqs.Queue;
   analyticsQueue: sqs.Queue;
   analyticsDlq: sqs.Queue;
   emailQueue: sqs.Queue;
   emailDlq: sqs.Queue;
+  emailHighPriorityQueue: sqs.Queue;
+  emailHighPriorityDlq: sqs.Queue;
+  webhookDeliveryQueue: sqs.Queue;
+  webhookDeliveryDlq: sqs.Queue;
+  websocketBroadcastQueue: sqs.Queue;
+  websocketBroadcastDlq: sqs.Queue;
+  leadExportQueue: sqs.Queue;
+  leadExportDlq: sqs.Queue;
 }
 
 export class DatabaseStack extends cdk.Stack {
@@ -73,6 +85,21 @@ export class DatabaseStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Global Secondary Index 3: sparse, only items that set GSI3PK are in it
+    // (WebSocket connections by last activity, for the connection sweeper)
+    this.table.addGlobalSecondaryIndex({
+      indexName: 'GSI3',
+      partitionKey: {
+        name: 'GSI3PK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'GSI3SK',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // SQS Dead Letter Queues
     const aiProcessingDlq = new sqs.Queue(this, 'AiProcessingDlq', {
       queueName: `keyvex-ai-processing-dlq-${environment}`,
@@ -80,6 +107,18 @@ export class DatabaseStack extends cdk.Stack {
       encryption: sqs.QueueEncryption.SQS_MANAGED,
     });
 
+    const aiProcessingHighPriorityDlq = new sqs.Queue(this, 'AiProcessingHighPriorityDlq', {
+      queueName: `keyvex-ai-processing-high-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
+    const aiProcessingLowPriorityDlq = new sqs.Queue(this, 'AiProcessingLowPriorityDlq', {
+      queueName: `keyvex-ai-processing-low-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
     const analyticsDlq = new sqs.Queue(this, 'AnalyticsDlq', {
       queueName: `keyvex-analytics-dlq-${environment}`,
       retentionPeriod: cdk.Duration.days(14),
@@ -92,10 +131,40 @@ export class DatabaseStack extends cdk.Stack {
       encryption: sqs.QueueEncryption.SQS_MANAGED,
     });
 
+    const emailHighPriorityDlq = new sqs.Queue(this, 'EmailHighPriorityDlq', {
+      queueName: `keyvex-email-high-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
+    const webhookDeliveryDlq = new sqs.Queue(this, 'WebhookDeliveryDlq', {
+      queueName: `keyvex-webhook-delivery-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
+    const leadExportDlq = new sqs.Queue(this, 'LeadExportDlq', {
+      queueName: `keyvex-lead-export-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
+    // FIFO queues can only dead-letter to a FIFO queue
+    const websocketBroadcastDlq = new sqs.Queue(this, 'WebSocketBroadcastDlq', {
+      queueName: `keyvex-websocket-broadcast-dlq-${environment}.fifo`,
+      fifo: true,
+      retentionPeriod: cdk.Duration.days(4),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+    });
+
     // SQS Main Queues
+    // Messages are routed to a lane by their `priority`; the default queue of
+    // each type is the 'normal' lane.
+    // Visibility timeouts must be at least the consuming Lambda's timeout,
+    // otherwise the event source mapping is rejected at deploy time.
     const aiProcessingQueue = new sqs.Queue(this, 'AiProcessingQueue', {
       queueName: `keyvex-ai-processing-queue-${environment}`,
-      visibilityTimeout: cdk.Duration.seconds(300), // 5 minutes
+      visibilityTimeout: cdk.Duration.minutes(15),
       retentionPeriod: cdk.Duration.days(14),
       encryption: sqs.QueueEncryption.SQS_MANAGED,
       deadLetterQueue: {
@@ -104,9 +173,33 @@ export class DatabaseStack extends cdk.Stack {
       },
     });
 
+    // Interactive requests get their own lane so they are never stuck behind
+    // bulk work in the normal and low lanes
+    const aiProcessingHighPriorityQueue = new sqs.Queue(this, 'AiProcessingHighPriorityQueue', {
+      queueName: `keyvex-ai-processing-high-queue-${environment}`,
+      visibilityTimeout: cdk.Duration.minutes(15),
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: aiProcessingHighPriorityDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
+    const aiProcessingLowPriorityQueue = new sqs.Queue(this, 'AiProcessingLowPriorityQueue', {
+      queueName: `keyvex-ai-processing-low-queue-${environment}`,
+      visibilityTimeout: cdk.Duration.minutes(15),
+      retentionPeriod: cdk.Duration.days(14),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: aiProcessingLowPriorityDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
     const analyticsQueue = new sqs.Queue(this, 'AnalyticsQueue', {
       queueName: `keyvex-analytics-queue-${environment}`,
-      visibilityTimeout: cdk.Duration.seconds(60),
+      visibilityTimeout: cdk.Duration.minutes(5),
       retentionPeriod: cdk.Duration.days(7),
       encryption: sqs.QueueEncryption.SQS_MANAGED,
       deadLetterQueue: {
@@ -117,7 +210,7 @@ export class DatabaseStack extends cdk.Stack {
 
     const emailQueue = new sqs.Queue(this, 'EmailQueue', {
       queueName: `keyvex-email-queue-${environment}`,
-      visibilityTimeout: cdk.Duration.seconds(30),
+      visibilityTimeout: cdk.Duration.minutes(2),
       retentionPeriod: cdk.Duration.days(3),
       encryption: sqs.QueueEncryption.SQS_MANAGED,
       deadLetterQueue: {
@@ -126,13 +219,78 @@ export class DatabaseStack extends cdk.Stack {
       },
     });
 
+    const emailHighPriorityQueue = new sqs.Queue(this, 'EmailHighPriorityQueue', {
+      queueName: `keyvex-email-high-queue-${environment}`,
+      visibilityTimeout: cdk.Duration.minutes(2),
+      retentionPeriod: cdk.Duration.days(3),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: emailHighPriorityDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
+    // Outbound webhook deliveries. Failed deliveries are re-sent to this queue
+    // with a growing DelaySeconds; the dispatcher moves deliveries that run
+    // out of attempts to the DLQ itself.
+    const webhookDeliveryQueue = new sqs.Queue(this, 'WebhookDeliveryQueue', {
+      queueName: `keyvex-webhook-delivery-queue-${environment}`,
+      visibilityTimeout: cdk.Duration.minutes(2),
+      retentionPeriod: cdk.Duration.days(4),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: webhookDeliveryDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
+    // WebSocket frames waiting to be fanned out to channel subscribers. FIFO
+    // with one message group per channel, so a channel's frames arrive in
+    // order while different channels are posted in parallel.
+    const websocketBroadcastQueue = new sqs.Queue(this, 'WebSocketBroadcastQueue', {
+      queueName: `keyvex-websocket-broadcast-queue-${environment}.fifo`,
+      fifo: true,
+      contentBasedDeduplication: true,
+      visibilityTimeout: cdk.Duration.minutes(2),
+      retentionPeriod: cdk.Duration.days(4),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: websocketBroadcastDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
+    // Lead exports too large to build within the REST API's 29 seconds
+    const leadExportQueue = new sqs.Queue(this, 'LeadExportQueue', {
+      queueName: `keyvex-lead-export-queue-${environment}`,
+      visibilityTimeout: cdk.Duration.minutes(15),
+      retentionPeriod: cdk.Duration.days(1),
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: {
+        queue: leadExportDlq,
+        maxReceiveCount: 3,
+      },
+    });
+
     this.queues = {
       aiProcessingQueue,
       aiProcessingDlq,
+      aiProcessingHighPriorityQueue,
+      aiProcessingHighPriorityDlq,
+      aiProcessingLowPriorityQueue,
+      aiProcessingLowPriorityDlq,
       analyticsQueue,
       analyticsDlq,
       emailQueue,
       emailDlq,
+      emailHighPriorityQueue,
+      emailHighPriorityDlq,
+      webhookDeliveryQueue,
+      webhookDeliveryDlq,
+      websocketBroadcastQueue,
+      websocketBroadcastDlq,
+      leadExportQueue,
+      leadExportDlq,
     };
 
     // CloudFormation Outputs
@@ -160,6 +318,18 @@ export class DatabaseStack extends cdk.Stack {
       exportName: `${environment}-AiProcessingQueueArn`,
     });
 
+    new cdk.CfnOutput(this, 'AiProcessingHighPriorityQueueUrl', {
+      value: aiProcessingHighPriorityQueue.queueUrl,
+      description: 'High Priority AI Processing Queue URL',
+      exportName: `${environment}-AiProcessingHighPriorityQueueUrl`,
+    });
+
+    new cdk.CfnOutput(this, 'AiProcessingLowPriorityQueueUrl', {
+      value: aiProcessingLowPriorityQueue.queueUrl,
+      description: 'Low Priority AI Processing Queue URL',
+      exportName: `${environment}-AiProcessingLowPriorityQueueUrl`,
+    });
+
     new cdk.CfnOutput(this, 'AnalyticsQueueUrl', {
       value: analyticsQueue.queueUrl,
       description: 'Analytics Queue URL',
@@ -183,5 +353,23 @@ export class DatabaseStack extends cdk.Stack {
       description: 'Email Queue ARN',
       exportName: `${environment}-EmailQueueArn`,
     });
+
+    new cdk.CfnOutput(this, 'EmailHighPriorityQueueUrl', {
+      value: emailHighPriorityQueue.queueUrl,
+      description: 'High Priority Email Queue URL',
+      exportName: `${environment}-EmailHighPriorityQueueUrl`,
+    });
+
+    new cdk.CfnOutput(this, 'WebhookDeliveryQueueUrl', {
+      value: webhookDeliveryQueue.queueUrl,
+      description: 'Webhook Delivery Queue URL',
+      exportName: `${environment}-WebhookDeliveryQueueUrl`,
+    });
+
+    new cdk.CfnOutput(this, 'WebSocketBroadcastQueueUrl', {
+      value: websocketBroadcastQueue.queueUrl,
+      description: 'WebSocket Broadcast Queue URL',
+      exportName: `${environment}-WebSocketBroadcastQueueUrl`,
+    });
   }
 } 
\ No newline at end of file
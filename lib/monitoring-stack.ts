@@ -146,6 +146,84 @@ export class MonitoringStack extends cdk.Stack {
     });
     dlqAlarm3.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
 
+    const dlqAlarm4 = new cloudwatch.Alarm(this, 'AiProcessingHighPriorityDlqAlarm', {
+      alarmName: `keyvex-sqs-ai-processing-high-dlq-messages-${environment}`,
+      alarmDescription: 'Messages in high priority AI processing dead letter queue',
+      metric: queues.aiProcessingHighPriorityDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm4.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const dlqAlarm5 = new cloudwatch.Alarm(this, 'AiProcessingLowPriorityDlqAlarm', {
+      alarmName: `keyvex-sqs-ai-processing-low-dlq-messages-${environment}`,
+      alarmDescription: 'Messages in low priority AI processing dead letter queue',
+      metric: queues.aiProcessingLowPriorityDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm5.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const dlqAlarm6 = new cloudwatch.Alarm(this, 'EmailHighPriorityDlqAlarm', {
+      alarmName: `keyvex-sqs-email-high-dlq-messages-${environment}`,
+      alarmDescription: 'Messages in high priority email dead letter queue',
+      metric: queues.emailHighPriorityDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm6.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const dlqAlarm7 = new cloudwatch.Alarm(this, 'WebhookDeliveryDlqAlarm', {
+      alarmName: `keyvex-sqs-webhook-delivery-dlq-messages-${environment}`,
+      alarmDescription: 'Webhook deliveries that ran out of attempts',
+      metric: queues.webhookDeliveryDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm7.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const dlqAlarm8 = new cloudwatch.Alarm(this, 'WebSocketBroadcastDlqAlarm', {
+      alarmName: `keyvex-sqs-websocket-broadcast-dlq-messages-${environment}`,
+      alarmDescription: 'WebSocket broadcasts that could not be fanned out',
+      metric: queues.websocketBroadcastDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm8.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const dlqAlarm9 = new cloudwatch.Alarm(this, 'LeadExportDlqAlarm', {
+      alarmName: `keyvex-sqs-lead-export-dlq-messages-${environment}`,
+      alarmDescription: 'Lead exports that could not be built',
+      metric: queues.leadExportDlq.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 0,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    dlqAlarm9.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
     // Main queue backlog alarms
     const backlogAlarm1 = new cloudwatch.Alarm(this, 'AiProcessingBacklogAlarm', {
       alarmName: `keyvex-sqs-ai-processing-backlog-${environment}`,
@@ -186,6 +264,75 @@ export class MonitoringStack extends cdk.Stack {
     });
     backlogAlarm3.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
 
+    // Interactive requests wait on this queue, so alarm on a much smaller backlog
+    const backlogAlarm4 = new cloudwatch.Alarm(this, 'AiProcessingHighPriorityBacklogAlarm', {
+      alarmName: `keyvex-sqs-ai-processing-high-backlog-${environment}`,
+      alarmDescription: 'High message backlog in high priority AI processing queue',
+      metric: queues.aiProcessingHighPriorityQueue.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 20,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    backlogAlarm4.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    // Low-priority work is throttled on purpose, so tolerate a deep backlog
+    const backlogAlarm5 = new cloudwatch.Alarm(this, 'AiProcessingLowPriorityBacklogAlarm', {
+      alarmName: `keyvex-sqs-ai-processing-low-backlog-${environment}`,
+      alarmDescription: 'High message backlog in low priority AI processing queue',
+      metric: queues.aiProcessingLowPriorityQueue.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 500,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    backlogAlarm5.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const backlogAlarm6 = new cloudwatch.Alarm(this, 'EmailHighPriorityBacklogAlarm', {
+      alarmName: `keyvex-sqs-email-high-backlog-${environment}`,
+      alarmDescription: 'High message backlog in high priority email queue',
+      metric: queues.emailHighPriorityQueue.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 10,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    backlogAlarm6.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    const backlogAlarm7 = new cloudwatch.Alarm(this, 'WebhookDeliveryBacklogAlarm', {
+      alarmName: `keyvex-sqs-webhook-delivery-backlog-${environment}`,
+      alarmDescription: 'High message backlog in webhook delivery queue',
+      metric: queues.webhookDeliveryQueue.metricApproximateNumberOfMessagesVisible({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 200,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    backlogAlarm7.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
+    // Progress frames are only useful while they are fresh, so alarm on age
+    // rather than depth
+    const backlogAlarm8 = new cloudwatch.Alarm(this, 'WebSocketBroadcastBacklogAlarm', {
+      alarmName: `keyvex-sqs-websocket-broadcast-backlog-${environment}`,
+      alarmDescription: 'WebSocket broadcasts are waiting too long to be fanned out',
+      metric: queues.websocketBroadcastQueue.metricApproximateAgeOfOldestMessage({
+        statistic: 'Maximum',
+        period: cdk.Duration.minutes(5),
+      }),
+      threshold: 60,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    backlogAlarm8.addAlarmAction(new cdk.aws_cloudwatch_actions.SnsAction(this.alertTopic));
+
     // API Gateway Alarms
     const apiErrorAlarm = new cloudwatch.Alarm(this, 'ApiGatewayErrorAlarm', {
       alarmName: `keyvex-api-gateway-errors-${environment}`,
@@ -337,42 +484,24 @@ export class MonitoringStack extends cdk.Stack {
       new cloudwatch.GraphWidget({
         title: 'SQS Queues - Message Count',
         left: [
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.aiProcessingQueue.queueName },
-            statistic: 'Average',
-          }),
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.analyticsQueue.queueName },
-            statistic: 'Average',
-          }),
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.emailQueue.queueName },
-            statistic: 'Average',
-          }),
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.aiProcessingDlq.queueName },
-            statistic: 'Average',
-          }),
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.analyticsDlq.queueName },
-            statistic: 'Average',
-          }),
-          new cloudwatch.Metric({
-            namespace: 'AWS/SQS',
-            metricName: 'ApproximateNumberOfVisibleMessages',
-            dimensionsMap: { QueueName: queues.emailDlq.queueName },
-            statistic: 'Average',
-          }),
+          queues.aiProcessingQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.aiProcessingHighPriorityQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.aiProcessingLowPriorityQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.analyticsQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.emailQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.emailHighPriorityQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.webhookDeliveryQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.websocketBroadcastQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.leadExportQueue.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.aiProcessingDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.analyticsDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.emailDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.aiProcessingHighPriorityDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.aiProcessingLowPriorityDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.emailHighPriorityDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.webhookDeliveryDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.websocketBroadcastDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
+          queues.leadExportDlq.metricApproximateNumberOfMessagesVisible({ statistic: 'Average' }),
         ],
         width: 12,
         height: 6,
@@ -398,6 +527,12 @@ export class MonitoringStack extends cdk.Stack {
             dimensionsMap: { QueueName: queues.emailQueue.queueName },
             statistic: 'Average',
           }),
+          new cloudwatch.Metric({
+            namespace: 'AWS/SQS',
+            metricName: 'ApproximateAgeOfOldestMessage',
+            dimensionsMap: { QueueName: queues.websocketBroadcastQueue.queueName },
+            statistic: 'Average',
+          }),
         ],
         width: 12,
         height: 6,
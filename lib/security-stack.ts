@@ -45,6 +45,8 @@ export class SecurityStack extends cdk.Stack {
           unsplash_access_key: '',
           unsplash_secret_key: '',
           sendgrid_api_key: '',
+          sendgrid_webhook_verification_key: '',
+          email_signing_key: '',
           stripe_secret_key: ''
         }),
         generateStringKey: 'placeholder',
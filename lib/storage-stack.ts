@@ -106,6 +106,19 @@ export class StorageStack extends cdk.Stack {
           id: 'CleanupOldVersions',
           noncurrentVersionExpiration: cdk.Duration.days(30),
         },
+        {
+          id: 'ExpireLeadExports',
+          prefix: 'exports/leads/',
+          expiration: cdk.Duration.days(7),
+          noncurrentVersionExpiration: cdk.Duration.days(1),
+        },
+        {
+          // WebSocket frames too large for API Gateway, fetched once by clients
+          id: 'ExpireBroadcastPayloads',
+          prefix: 'broadcasts/',
+          expiration: cdk.Duration.days(1),
+          noncurrentVersionExpiration: cdk.Duration.days(1),
+        },
       ],
       cors: [
         {
@@ -10,7 +10,13 @@ const LAMBDA_FUNCTIONS = [
   'ai-processor',
   'analytics-processor',
   'websocket-handler',
-  'email-processor'
+  'email-processor',
+  'email-webhook',
+  'lead-export',
+  'webhook-dispatcher',
+  'websocket-authorizer',
+  'connection-sweeper',
+  'websocket-fanout'
 ];
 
 // Function to prompt user for confirmation
@@ -125,9 +131,13 @@ export const handler: Handler = async (event: APIGatewayProxyEvent | SQSEvent, c
   };
 
   // Add function-specific dependencies
-  if (functionName === 'websocket-handler') {
+  if (functionName === 'websocket-handler' || functionName === 'connection-sweeper' || functionName === 'websocket-fanout') {
     packageJson.dependencies['@aws-sdk/client-apigatewaymanagementapi'] = '^3.400.0';
   }
+  if (functionName === 'websocket-fanout') {
+    packageJson.dependencies['@aws-sdk/client-s3'] = '^3.400.0';
+    packageJson.dependencies['@aws-sdk/s3-request-presigner'] = '^3.400.0';
+  }
   if (functionName === 'email-processor') {
     packageJson.dependencies['@aws-sdk/client-ses'] = '^3.400.0';
   }
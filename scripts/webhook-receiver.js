@@ -0,0 +1,65 @@
+/**
+ * Local HTTP receiver for testing outbound webhooks.
+ *
+ *   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.js
+ *
+ * Point a subscription at http://localhost:4040/ (allowed outside production),
+ * then every delivery is printed with its signature check. Set RESPOND_WITH
+ * (e.g. 500 or 429) to exercise the dispatcher's retries.
+ */
+const fs = require('fs');
+const http = require('http');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const PORT = Number(process.env.PORT || 4040);
+const SECRET = process.env.WEBHOOK_SECRET;
+const RESPOND_WITH = Number(process.env.RESPOND_WITH || 200);
+
+// Compiles a TypeScript module in memory so the receiver runs the same code as the Lambdas
+function requireTypeScript(file) {
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: file,
+  });
+  const compiled = new Module(file, module);
+  compiled.filename = file;
+  compiled.paths = Module._nodeModulePaths(path.dirname(file));
+  compiled._compile(outputText, file);
+  return compiled.exports;
+}
+
+const { verifyWebhookSignature } = requireTypeScript(path.join(__dirname, '..', 'lambda', 'shared', 'webhook-signatures.ts'));
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signatureHeader = req.headers['x-keyvex-signature'];
+    const signature = !signatureHeader
+      ? 'missing'
+      : !SECRET
+        ? 'not checked (WEBHOOK_SECRET not set)'
+        : verifyWebhookSignature(SECRET, body, signatureHeader) ? 'valid' : 'invalid (bad signature or older than 5 minutes)';
+
+    console.log(`\n📨 ${req.method} ${req.url}`);
+    console.log(`   event:     ${req.headers['x-keyvex-event']}`);
+    console.log(`   delivery:  ${req.headers['x-keyvex-delivery']} (attempt ${req.headers['x-keyvex-attempt']})`);
+    console.log(`   signature: ${signature}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = SECRET && signature !== 'valid' ? 401 : RESPOND_WITH;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status < 300 }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🎧 Webhook receiver listening on http://localhost:${PORT}/ (responding with ${RESPOND_WITH})`);
+});
@@ -0,0 +1,63 @@
+/**
+ * Mint Clerk-style session tokens for testing the WebSocket authorizer offline.
+ *
+ *   node scripts/ws-test-token.js user_123
+ *
+ * On first run an RSA key pair is generated in .clerk-test/ and its public key
+ * written to .clerk-test/jwks.json. Run the authorizer with
+ * CLERK_JWKS_FILE=.clerk-test/jwks.json and CLERK_ISSUER set to the same issuer
+ * (default https://clerk.keyvex.test). TOKEN_TTL (seconds, default 3600) and
+ * TOKEN_AZP set the expiry and authorized party.
+ */
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const KEY_DIR = process.env.CLERK_TEST_DIR || path.join(__dirname, '..', '.clerk-test');
+const ISSUER = process.env.CLERK_ISSUER || 'https://clerk.keyvex.test';
+const TOKEN_TTL = Number(process.env.TOKEN_TTL || 3600);
+const KID = 'keyvex-test-key';
+
+function loadOrCreateKey() {
+  const privateKeyPath = path.join(KEY_DIR, 'private.pem');
+
+  if (!fs.existsSync(privateKeyPath)) {
+    fs.mkdirSync(KEY_DIR, { recursive: true });
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+    // Same shape as https://<clerk frontend api>/.well-known/jwks.json
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' };
+    fs.writeFileSync(path.join(KEY_DIR, 'jwks.json'), JSON.stringify({ keys: [jwk] }, null, 2));
+    console.error(`🔑 Created test signing key in ${KEY_DIR}`);
+  }
+
+  return crypto.createPrivateKey(fs.readFileSync(privateKeyPath));
+}
+
+function encode(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+const userId = process.argv[2];
+if (!userId) {
+  console.error('Usage: node scripts/ws-test-token.js <userId>');
+  process.exit(1);
+}
+
+const now = Math.floor(Date.now() / 1000);
+const header = { alg: 'RS256', typ: 'JWT', kid: KID };
+const claims = {
+  iss: ISSUER,
+  sub: userId,
+  iat: now,
+  nbf: now,
+  exp: now + TOKEN_TTL,
+  sid: `sess_test_${crypto.randomBytes(6).toString('hex')}`,
+  ...(process.env.TOKEN_AZP ? { azp: process.env.TOKEN_AZP } : {}),
+};
+
+const signingInput = `${encode(header)}.${encode(claims)}`;
+const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), loadOrCreateKey()).toString('base64url');
+
+console.log(`${signingInput}.${signature}`);
@@ -0,0 +1,169 @@
+import { AIProviderError, AIProviderRegistry, AnthropicProvider, OpenAIProvider } from '../../lambda/shared/ai-providers';
+import { SecretsHelper } from '../../lambda/shared/utils';
+import { ProviderStub, startProviderStub } from '../support/ai-provider-stub';
+
+const REPLY = { content: 'A quiz that scores mortgage readiness', inputTokens: 42, outputTokens: 7 };
+
+const request = {
+  system: 'You are Magic Spark.',
+  messages: [{ role: 'user' as const, content: 'A tool for mortgage brokers' }],
+  maxTokens: 256,
+};
+
+class StubSecretsHelper extends SecretsHelper {
+  async getAISecrets(): Promise<any> {
+    return { openai_api_key: 'sk-test', anthropic_api_key: 'sk-ant-test' };
+  }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AIProviderError> {
+  const error = await promise.then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AIProviderError);
+  return error as AIProviderError;
+}
+
+describe('AI provider adapters against a local stub', () => {
+  let stub: ProviderStub;
+
+  beforeEach(async () => {
+    stub = await startProviderStub(REPLY);
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  describe('OpenAIProvider', () => {
+    it('returns the completion with its usage', async () => {
+      const provider = new OpenAIProvider('sk-test', stub.url, 'org-1');
+      const result = await provider.complete({ ...request, model: 'gpt-4o' });
+
+      expect(result).toMatchObject({
+        provider: 'openai',
+        model: 'gpt-4o',
+        content: REPLY.content,
+        usage: { inputTokens: 42, outputTokens: 7 },
+        finishReason: 'stop',
+      });
+      expect(stub.requests[0].headers.authorization).toBe('Bearer sk-test');
+      expect(stub.requests[0].headers['openai-organization']).toBe('org-1');
+      expect(stub.requests[0].body.messages[0]).toEqual({ role: 'system', content: 'You are Magic Spark.' });
+    });
+
+    it('streams deltas and reads usage from the final chunk', async () => {
+      const provider = new OpenAIProvider('sk-test', stub.url);
+      const deltas: string[] = [];
+      const result = await provider.stream({ ...request, model: 'gpt-4o' }, delta => { deltas.push(delta); });
+
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(deltas.join('')).toBe(REPLY.content);
+      expect(result.content).toBe(REPLY.content);
+      expect(result.usage).toEqual({ inputTokens: 42, outputTokens: 7 });
+      expect(result.finishReason).toBe('stop');
+      expect(stub.requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('returns the completion with its usage', async () => {
+      const provider = new AnthropicProvider('sk-ant-test', stub.url);
+      const result = await provider.complete({ ...request, model: 'claude-3-5-sonnet-20241022' });
+
+      expect(result).toMatchObject({
+        provider: 'anthropic',
+        content: REPLY.content,
+        usage: { inputTokens: 42, outputTokens: 7 },
+        finishReason: 'end_turn',
+      });
+      expect(stub.requests[0].headers['x-api-key']).toBe('sk-ant-test');
+      expect(stub.requests[0].headers['anthropic-version']).toBe('2023-06-01');
+      expect(stub.requests[0].body.system).toBe('You are Magic Spark.');
+    });
+
+    it('streams deltas and takes output tokens from message_delta', async () => {
+      const provider = new AnthropicProvider('sk-ant-test', stub.url);
+      const deltas: string[] = [];
+      const result = await provider.stream({ ...request, model: 'claude-3-5-sonnet-20241022' }, delta => { deltas.push(delta); });
+
+      expect(deltas.join('')).toBe(REPLY.content);
+      expect(result.usage).toEqual({ inputTokens: 42, outputTokens: 7 });
+      expect(result.finishReason).toBe('end_turn');
+    });
+
+    it('maps a mid-stream overloaded error to a retryable error', async () => {
+      const provider = new AnthropicProvider('sk-ant-test', stub.url);
+      stub.breakNextStream('overloaded_error');
+
+      const error = await rejection(provider.stream({ ...request, model: 'claude-3-5-sonnet-20241022' }, () => undefined));
+      expect(error.retryable).toBe(true);
+      expect(error.message).toContain('Stream interrupted');
+    });
+  });
+
+  describe('error mapping', () => {
+    it.each([
+      [429, true],
+      [500, true],
+      [503, true],
+      [400, false],
+      [401, false],
+    ])('a %i response is retryable: %s', async (status, retryable) => {
+      const provider = new OpenAIProvider('sk-test', stub.url);
+      stub.failNext(status);
+
+      const error = await rejection(provider.complete({ ...request, model: 'gpt-4o' }));
+      expect(error).toMatchObject({ provider: 'openai', statusCode: status, retryable });
+      expect(error.message).toContain(`Stub error ${status}`);
+    });
+
+    it('rejects a response that is not JSON', async () => {
+      const provider = new AnthropicProvider('sk-ant-test', stub.url);
+      stub.failNext(200, '<html>gateway</html>');
+
+      const error = await rejection(provider.complete({ ...request, model: 'claude-3-5-sonnet-20241022' }));
+      expect(error).toMatchObject({ provider: 'anthropic', retryable: false });
+      expect(error.message).toBe('anthropic returned invalid JSON');
+    });
+
+    it('times out a provider that does not respond', async () => {
+      const provider = new OpenAIProvider('sk-test', stub.url, undefined, 200);
+      stub.hangNext();
+
+      const error = await rejection(provider.stream({ ...request, model: 'gpt-4o' }, () => undefined));
+      expect(error).toMatchObject({ provider: 'openai', retryable: true });
+      expect(error.message).toBe('openai did not respond within 200ms');
+    });
+
+    it('fails a refused connection as retryable', async () => {
+      const url = stub.url;
+      await stub.close();
+      stub = await startProviderStub(REPLY);
+
+      const error = await rejection(new OpenAIProvider('sk-test', url).complete({ ...request, model: 'gpt-4o' }));
+      expect(error.retryable).toBe(true);
+      expect(error.statusCode).toBeUndefined();
+    });
+  });
+
+  describe('AIProviderRegistry', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('routes model ids to the provider at its base URL override', async () => {
+      process.env.OPENAI_BASE_URL = stub.url;
+      process.env.ANTHROPIC_BASE_URL = stub.url;
+      const registry = new AIProviderRegistry(new StubSecretsHelper());
+
+      const claude = await registry.complete('claude-3-5-sonnet-20241022', request);
+      const gpt = await registry.complete('openai:gpt-4o-mini', request);
+
+      expect(claude.provider).toBe('anthropic');
+      expect(gpt.provider).toBe('openai');
+      expect(stub.requests.map(recorded => recorded.path)).toEqual(['/v1/messages', '/v1/chat/completions']);
+      expect(stub.requests[1].body.model).toBe('gpt-4o-mini');
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import { DynamoDBHelper, getTTL } from '../../lambda/shared/utils';
+import {
+  AlertRepository,
+  InteractionRepository,
+  LeadExportRepository,
+  LeadRepository,
+  MessageRepository,
+  MetricRepository,
+  SessionRepository,
+  ToolRepository,
+  UserRepository,
+  keys,
+} from '../../lambda/shared/repositories';
+import { SchemaValidationError } from '../../lambda/shared/schema';
+import { createTestTable, deleteTestTable } from '../support/dynamodb';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('keys', () => {
+  it('builds the primary key of every entity', () => {
+    expect(keys.user('u1')).toEqual({ PK: 'USER#u1', SK: 'PROFILE' });
+    expect(keys.tool('u1', 't1')).toEqual({ PK: 'USER#u1', SK: 'TOOL#t1' });
+    expect(keys.session('s1')).toEqual({ PK: 'SESSION#s1', SK: 'METADATA' });
+    expect(keys.message('s1', 1700000000000, 'm1')).toEqual({ PK: 'SESSION#s1', SK: 'MESSAGE#1700000000000#m1' });
+    expect(keys.lead('t1', 'l1')).toEqual({ PK: 'TOOL#t1', SK: 'LEAD#l1' });
+    expect(keys.leadExport('t1', 'e1')).toEqual({ PK: 'TOOL#t1', SK: 'EXPORT#e1' });
+    expect(keys.interaction('t1', 1700000000000, 'i1')).toEqual({ PK: 'TOOL#t1', SK: 'INTERACTION#1700000000000#i1' });
+    expect(keys.alert('a1')).toEqual({ PK: 'ALERT#a1', SK: 'ALERT' });
+    expect(keys.connection('c1')).toEqual({ PK: 'CONNECTION#c1', SK: 'METADATA' });
+    expect(keys.streamFrame('s1:magicSpark:1', 42)).toEqual({ PK: 'STREAM#s1:magicSpark:1', SK: 'FRAME#0000000042' });
+  });
+
+  it('partitions metrics by UTC day', () => {
+    expect(keys.metric(Date.UTC(2024, 0, 31, 23, 59), 'r1').PK).toBe('METRIC#2024-01-31');
+    expect(keys.metric(Date.UTC(2024, 1, 1, 0, 0), 'r1').PK).toBe('METRIC#2024-02-01');
+  });
+});
+
+describe('repositories against DynamoDB', () => {
+  let tableName: string;
+  let dynamoHelper: DynamoDBHelper;
+
+  beforeEach(async () => {
+    tableName = await createTestTable();
+    dynamoHelper = new DynamoDBHelper(tableName);
+  });
+
+  afterEach(async () => {
+    await deleteTestTable(tableName);
+  });
+
+  describe('UserRepository', () => {
+    const input = {
+      clerkId: 'user_clerk_1',
+      email: 'ada@example.com',
+      subscriptionTier: 'pro',
+      preferences: { defaultModels: {}, debugMode: false, notifications: true },
+    };
+
+    it('finds a user by id and by email', async () => {
+      const users = new UserRepository(dynamoHelper);
+      await users.create('user_clerk_1', input);
+
+      expect(await users.get('user_clerk_1')).toMatchObject({ ...keys.user('user_clerk_1'), entityType: 'USER', email: 'ada@example.com' });
+      expect((await users.getByEmail('ada@example.com'))?.PK).toBe('USER#user_clerk_1');
+      expect(await users.getByEmail('grace@example.com')).toBeNull();
+    });
+
+    it('keeps the email index in step with updates', async () => {
+      const users = new UserRepository(dynamoHelper);
+      await users.create('user_clerk_1', input);
+
+      await users.update('user_clerk_1', { email: 'ada@newmail.example' });
+
+      expect(await users.getByEmail('ada@example.com')).toBeNull();
+      expect((await users.getByEmail('ada@newmail.example'))?.PK).toBe('USER#user_clerk_1');
+    });
+
+    it('does not create a user twice or update a missing one', async () => {
+      const users = new UserRepository(dynamoHelper);
+      await users.create('u1', input);
+
+      await expect(users.create('u1', input)).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+      await expect(users.update('u2', { subscriptionTier: 'free' })).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('validates before writing', async () => {
+      const users = new UserRepository(dynamoHelper);
+
+      await expect(users.create('u1', { ...input, email: '' })).rejects.toThrow(SchemaValidationError);
+      expect(await users.get('u1')).toBeNull();
+    });
+  });
+
+  describe('ToolRepository', () => {
+    const input = (toolId: string, type: 'calculator' | 'quiz' = 'quiz') => ({
+      toolId,
+      userId: 'u1',
+      name: `Tool ${toolId}`,
+      type,
+      status: 'draft' as const,
+      configuration: {},
+      styling: {},
+      analytics: { totalViews: 0, totalCompletions: 0, totalLeads: 0, conversionRate: 0, lastActivity: Date.now() },
+    });
+
+    it('finds a tool by id alone, by owner and by type', async () => {
+      const tools = new ToolRepository(dynamoHelper);
+      await tools.create(input('t1'));
+      await tools.create(input('t2', 'calculator'));
+
+      expect((await tools.get('t1'))?.name).toBe('Tool t1');
+      expect((await tools.getForUser('u1', 't2'))?.type).toBe('calculator');
+      expect(await tools.getForUser('u2', 't1')).toBeNull();
+      expect((await tools.listByUser('u1')).items.map(tool => tool.toolId).sort()).toEqual(['t1', 't2']);
+      expect((await tools.listByType('calculator')).items.map(tool => tool.toolId)).toEqual(['t2']);
+    });
+
+    it('moves the index keys when status or type change', async () => {
+      const tools = new ToolRepository(dynamoHelper);
+      await tools.create(input('t1'));
+
+      await tools.update({ userId: 'u1', toolId: 't1' }, { status: 'published', type: 'calculator' });
+
+      const tool = await tools.get('t1');
+      expect(tool).toMatchObject({ status: 'published', GSI1SK: 'STATUS#published', GSI2PK: 'TYPE#calculator', version: 2 });
+      expect((await tools.listByType('quiz')).items).toEqual([]);
+    });
+
+    it('modifies a tool from its current state', async () => {
+      const tools = new ToolRepository(dynamoHelper);
+      await tools.create(input('t1'));
+
+      const modified = await tools.modify({ userId: 'u1', toolId: 't1' }, current => ({
+        analytics: { ...current.analytics, totalViews: current.analytics.totalViews + 1 },
+      }));
+
+      expect(modified?.analytics.totalViews).toBe(1);
+      expect((await tools.get('t1'))?.analytics.totalViews).toBe(1);
+      expect(await tools.modify({ userId: 'u1', toolId: 't1' }, () => null)).toMatchObject({ version: modified!.version });
+    });
+  });
+
+  describe('SessionRepository and MessageRepository', () => {
+    const session = (sessionId: string) => ({
+      sessionId,
+      userId: 'u1',
+      currentStep: 'magic-spark',
+      status: 'active' as const,
+      sessionData: { currentAgent: 'magic-spark', progress: 0, totalSteps: 4, modelUsage: {}, totalCost: 0 },
+    });
+
+    it('lists a user\'s sessions newest first, paging with a cursor', async () => {
+      const sessions = new SessionRepository(dynamoHelper);
+      for (const id of ['s1', 's2', 's3']) {
+        await sessions.create(session(id));
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+
+      const first = await sessions.listByUser('u1', { limit: 2 });
+      const second = await sessions.listByUser('u1', { limit: 2, cursor: first.cursor });
+
+      expect(first.items.map(item => item.sessionId)).toEqual(['s3', 's2']);
+      expect(second.items.map(item => item.sessionId)).toEqual(['s1']);
+    });
+
+    it('updates only existing sessions', async () => {
+      const sessions = new SessionRepository(dynamoHelper);
+      await sessions.create(session('s1'));
+
+      expect(await sessions.update('s1', { status: 'completed' })).toBe(true);
+      expect(await sessions.update('s-missing', { status: 'completed' })).toBe(false);
+      expect((await sessions.get('s1'))?.status).toBe('completed');
+      expect(await sessions.get('s-missing')).toBeNull();
+    });
+
+    it('lists a session\'s messages within a time window', async () => {
+      const messages = new MessageRepository(dynamoHelper);
+      const start = 1700000000000;
+      for (let index = 0; index < 4; index++) {
+        await messages.create({ sessionId: 's1', messageId: `m${index}`, role: 'user', content: `Message ${index}`, timestamp: start + index * 1000 });
+      }
+
+      const window = await messages.listBySession('s1', { from: start + 1000, to: start + 2000 });
+
+      expect(window.items.map(message => message.messageId)).toEqual(['m2', 'm1']);
+      expect((await messages.listBySession('s1')).items).toHaveLength(4);
+    });
+  });
+
+  describe('LeadRepository', () => {
+    const lead = (leadId: string, email: string) => ({
+      leadId,
+      toolId: 't1',
+      email,
+      responses: {},
+      source: {},
+    });
+
+    it('pages through a tool\'s leads in lead id order', async () => {
+      const leads = new LeadRepository(dynamoHelper);
+      for (const id of ['l3', 'l1', 'l2']) {
+        await leads.create(lead(id, `${id}@example.com`));
+      }
+
+      const pages: string[][] = [];
+      for await (const page of leads.pagesByTool('t1', 2)) {
+        pages.push(page.map(item => item.leadId));
+      }
+
+      expect(pages.flat()).toEqual(['l1', 'l2', 'l3']);
+    });
+
+    it('finds leads by email, per tool and across tools', async () => {
+      const leads = new LeadRepository(dynamoHelper);
+      await leads.create(lead('l1', 'ada@example.com'), 1000);
+      await leads.create({ ...lead('l2', 'ada@example.com'), toolId: 't2' }, 2000);
+
+      expect((await leads.findByEmail('t1', 'ada@example.com'))?.leadId).toBe('l1');
+      expect(await leads.findByEmail('t3', 'ada@example.com')).toBeNull();
+      expect((await leads.listByEmail('ada@example.com')).items.map(item => item.leadId)).toEqual(['l2', 'l1']);
+      expect((await leads.listByEmail('ada@example.com', { to: 1500 })).items.map(item => item.leadId)).toEqual(['l1']);
+    });
+
+    it('moves the email index when the email changes', async () => {
+      const leads = new LeadRepository(dynamoHelper);
+      await leads.create(lead('l1', 'ada@example.com'));
+
+      await leads.update('t1', 'l1', { email: 'ada@newmail.example', score: 12 });
+
+      expect(await leads.findByEmail('t1', 'ada@example.com')).toBeNull();
+      expect(await leads.findByEmail('t1', 'ada@newmail.example')).toMatchObject({ leadId: 'l1', score: 12 });
+    });
+
+    it('keeps exports out of a tool\'s leads', async () => {
+      const leads = new LeadRepository(dynamoHelper);
+      const leadExports = new LeadExportRepository(dynamoHelper);
+      await leads.create(lead('l1', 'ada@example.com'));
+      await leadExports.create({
+        exportId: 'e1',
+        toolId: 't1',
+        userId: 'u1',
+        format: 'csv',
+        filters: {},
+        status: 'pending',
+        fileName: 'leads-t1-2024-01-31.csv',
+        ttl: getTTL(7),
+      });
+
+      const pages: string[][] = [];
+      for await (const page of leads.pagesByTool('t1')) {
+        pages.push(page.map(item => item.leadId));
+      }
+
+      expect(pages.flat()).toEqual(['l1']);
+    });
+  });
+
+  describe('LeadExportRepository', () => {
+    const pending = {
+      exportId: 'e1',
+      toolId: 't1',
+      userId: 'u1',
+      format: 'ndjson' as const,
+      filters: { minScore: 10 },
+      status: 'pending' as const,
+      fileName: 'leads-t1-2024-01-31.ndjson',
+      ttl: getTTL(7),
+    };
+
+    it('records a pending export and completes it', async () => {
+      const leadExports = new LeadExportRepository(dynamoHelper);
+      await leadExports.create(pending);
+
+      await leadExports.update('t1', 'e1', {
+        status: 'completed',
+        objectKey: 'exports/leads/t1/abc.ndjson',
+        rowCount: 3,
+        completedAt: Date.now(),
+      });
+
+      expect(await leadExports.get('t1', 'e1')).toMatchObject({
+        ...keys.leadExport('t1', 'e1'),
+        entityType: 'LEAD_EXPORT',
+        filters: { minScore: 10 },
+        status: 'completed',
+        objectKey: 'exports/leads/t1/abc.ndjson',
+        rowCount: 3,
+      });
+    });
+
+    it('does not create an export twice or update a missing one', async () => {
+      const leadExports = new LeadExportRepository(dynamoHelper);
+      await leadExports.create(pending);
+
+      await expect(leadExports.create(pending)).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+      await expect(leadExports.update('t1', 'e2', { status: 'failed' })).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('validates before writing', async () => {
+      const leadExports = new LeadExportRepository(dynamoHelper);
+
+      await expect(leadExports.create({ ...pending, format: 'xlsx' as any })).rejects.toThrow(SchemaValidationError);
+      expect(await leadExports.get('t1', 'e1')).toBeNull();
+    });
+  });
+
+  describe('InteractionRepository', () => {
+    it('lists a tool\'s interactions, all or by type', async () => {
+      const interactions = new InteractionRepository(dynamoHelper);
+      await interactions.create({ toolId: 't1', interactionId: 'i1', interactionType: 'view' }, 1000);
+      await interactions.create({ toolId: 't1', interactionId: 'i2', interactionType: 'complete' }, 2000);
+      await interactions.create({ toolId: 't1', interactionId: 'i3', interactionType: 'view' }, 3000);
+
+      expect((await interactions.listByTool('t1')).items.map(item => item.interactionId)).toEqual(['i3', 'i2', 'i1']);
+      expect((await interactions.listByType('t1', 'view')).items.map(item => item.interactionId)).toEqual(['i3', 'i1']);
+      expect((await interactions.listByType('t1', 'view', { to: 2000 })).items.map(item => item.interactionId)).toEqual(['i1']);
+    });
+
+    it('does not record the same interaction twice', async () => {
+      const interactions = new InteractionRepository(dynamoHelper);
+      const input = { toolId: 't1', interactionId: 'i1', interactionType: 'view' as const };
+      await interactions.create(input, 1000);
+
+      await expect(interactions.create(input, 1000)).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+  });
+
+  describe('MetricRepository', () => {
+    it('lists metrics by day, process and provider', async () => {
+      const metrics = new MetricRepository(dynamoHelper);
+      const day = Date.UTC(2024, 0, 31, 12);
+      const metric = (requestId: string, timestamp: number, provider: string) => ({
+        requestId,
+        userId: 'u1',
+        process: 'magic-spark',
+        provider,
+        model: 'model-1',
+        inputTokens: 10,
+        outputTokens: 5,
+        cost: 0.01,
+        latency: 800,
+        success: true,
+        timestamp,
+        ttl: getTTL(30),
+      });
+      await metrics.create(metric('r1', day, 'openai'));
+      await metrics.create(metric('r2', day + 1000, 'anthropic'));
+      await metrics.create(metric('r3', day + DAY, 'openai'));
+
+      expect((await metrics.listByDay('2024-01-31')).items.map(item => item.requestId)).toEqual(['r2', 'r1']);
+      expect((await metrics.listByProcess('magic-spark', { from: day + 1 })).items.map(item => item.requestId)).toEqual(['r3', 'r2']);
+      expect((await metrics.listByProvider('openai')).items.map(item => item.requestId)).toEqual(['r3', 'r1']);
+    });
+  });
+
+  describe('AlertRepository', () => {
+    const alert = (alertId: string, severity: 'low' | 'high', timestamp: number) => ({
+      alertId,
+      type: 'cost' as const,
+      severity,
+      message: `Alert ${alertId}`,
+      timestamp,
+      resolved: false,
+      ttl: getTTL(30),
+    });
+
+    it('raises an alert once and resolves it', async () => {
+      const alerts = new AlertRepository(dynamoHelper);
+
+      expect(await alerts.create(alert('a1', 'high', 1000))).toBe(true);
+      expect(await alerts.create(alert('a1', 'high', 2000))).toBe(false);
+
+      await alerts.resolve('a1', 'ops@example.com');
+      expect(await alerts.get('a1')).toMatchObject({ timestamp: 1000, resolved: true, resolvedBy: 'ops@example.com' });
+    });
+
+    it('lists alerts by type, and by severity within a time window', async () => {
+      const alerts = new AlertRepository(dynamoHelper);
+      await alerts.create(alert('a1', 'high', 1000));
+      await alerts.create(alert('a2', 'low', 2000));
+      await alerts.create(alert('a3', 'high', 3000));
+
+      expect((await alerts.listByType('cost')).items).toHaveLength(3);
+      expect((await alerts.listByType('cost', 'high', { from: 2000 })).items.map(item => item.alertId)).toEqual(['a3']);
+      await expect(alerts.listByType('cost', undefined, { from: 2000 })).rejects.toThrow('Listing alerts by time requires a severity');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { DynamoDBHelper, TransactionBuilder, TransactionCanceledError, VersionConflictError } from '../../lambda/shared/utils';
+import { KeyvexTableItem } from '../../lambda/shared/types';
+import { createTestTable, deleteTestTable, emulateTransactions } from '../support/dynamodb';
+
+interface CounterItem extends KeyvexTableItem {
+  views: number;
+  owner: string;
+}
+
+const PK = 'TOOL#t1';
+const SK = 'COUNTER';
+
+function counter(overrides: Partial<CounterItem> = {}): CounterItem {
+  const now = Date.now();
+  return { PK, SK, entityType: 'COUNTER', views: 0, owner: 'u1', createdAt: now, updatedAt: now, version: 0, metadata: {}, ...overrides };
+}
+
+/**
+ * Makes another writer commit `writes[n]` to the counter right after the
+ * helper's next reads, i.e. between updateWithRetry's read and its write
+ */
+function writeAfterReads(dynamoHelper: DynamoDBHelper, ...writes: Array<Partial<CounterItem>>): void {
+  const getItem = dynamoHelper.getItem.bind(dynamoHelper);
+  const read = jest.spyOn(dynamoHelper, 'getItem');
+  for (const write of writes) {
+    read.mockImplementationOnce(async (...args) => {
+      const item = await getItem(...args);
+      await dynamoHelper.updateItem<CounterItem>(PK, SK, write);
+      return item;
+    });
+  }
+}
+
+describe('optimistic locking against DynamoDB', () => {
+  let tableName: string;
+  let dynamoHelper: DynamoDBHelper;
+  let restoreTransactions: () => void;
+
+  beforeAll(() => {
+    restoreTransactions = emulateTransactions();
+  });
+
+  afterAll(() => {
+    restoreTransactions();
+  });
+
+  beforeEach(async () => {
+    tableName = await createTestTable();
+    dynamoHelper = new DynamoDBHelper(tableName);
+    await dynamoHelper.putItem(counter());
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await deleteTestTable(tableName);
+  });
+
+  it('lets only one of two writers of the same version through', async () => {
+    const results = await Promise.allSettled([
+      dynamoHelper.updateItem<CounterItem>(PK, SK, { views: 1 }, undefined, 1),
+      dynamoHelper.updateItem<CounterItem>(PK, SK, { views: 2 }, undefined, 1),
+    ]);
+
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toMatchObject({ name: 'VersionConflictError', PK, SK, expectedVersion: 1 });
+    expect((await dynamoHelper.getItem<CounterItem>(PK, SK))?.version).toBe(2);
+  });
+
+  it('rejects a whole-item put over a version written since', async () => {
+    await dynamoHelper.updateItem<CounterItem>(PK, SK, { views: 5 }, undefined, 1);
+
+    await expect(dynamoHelper.putItem(counter({ version: 1 }), undefined, 1)).rejects.toMatchObject({ name: 'VersionConflictError' });
+    expect((await dynamoHelper.getItem<CounterItem>(PK, SK))?.views).toBe(5);
+  });
+
+  describe('updateWithRetry', () => {
+    it('re-reads and retries when another writer gets in between', async () => {
+      writeAfterReads(dynamoHelper, { owner: 'u2' });
+      const seen: Array<Pick<CounterItem, 'owner' | 'version'>> = [];
+
+      const updated = await dynamoHelper.updateWithRetry<CounterItem>(PK, SK, (current) => {
+        seen.push({ owner: current.owner, version: current.version });
+        return { views: current.views + 1 };
+      });
+
+      expect(seen).toEqual([{ owner: 'u1', version: 1 }, { owner: 'u2', version: 2 }]);
+      expect(updated).toMatchObject({ views: 1, owner: 'u2', version: 3 });
+      expect(await dynamoHelper.getItem<CounterItem>(PK, SK)).toMatchObject({ views: 1, owner: 'u2', version: 3 });
+    });
+
+    it('counts every increment when writers race', async () => {
+      const increment = () => dynamoHelper.updateWithRetry<CounterItem>(
+        PK,
+        SK,
+        current => ({ views: current.views + 1 }),
+        { maxAttempts: 10 }
+      );
+
+      await Promise.all([increment(), increment(), increment()]);
+
+      expect((await dynamoHelper.getItem<CounterItem>(PK, SK))?.views).toBe(3);
+    });
+
+    it('gives up with VersionConflictError after maxAttempts', async () => {
+      writeAfterReads(dynamoHelper, { owner: 'u2' }, { owner: 'u3' });
+      const mutate = jest.fn((current: CounterItem) => ({ views: current.views + 1 }));
+
+      await expect(dynamoHelper.updateWithRetry<CounterItem>(PK, SK, mutate, { maxAttempts: 2 }))
+        .rejects.toMatchObject({ name: 'VersionConflictError', expectedVersion: 2 });
+      expect(mutate).toHaveBeenCalledTimes(2);
+      expect(await dynamoHelper.getItem<CounterItem>(PK, SK)).toMatchObject({ views: 0, owner: 'u3' });
+    });
+
+    it('retries a transaction cancelled by a conflict on its update', async () => {
+      writeAfterReads(dynamoHelper, { owner: 'u2' });
+      const alsoWrite = jest.fn((transaction: TransactionBuilder, current: CounterItem) => {
+        transaction.put(counter({ SK: 'VIEW#1', owner: current.owner }), 'attribute_not_exists(PK)');
+      });
+
+      const updated = await dynamoHelper.updateWithRetry<CounterItem>(PK, SK, current => ({ views: current.views + 1 }), { alsoWrite });
+
+      expect(alsoWrite).toHaveBeenCalledTimes(2);
+      expect(updated).toMatchObject({ views: 1, owner: 'u2', version: 3 });
+      expect(await dynamoHelper.getItem<CounterItem>(PK, 'VIEW#1')).toMatchObject({ owner: 'u2', version: 1 });
+    });
+
+    it('reports which write of a cancelled transaction failed', async () => {
+      const error = await dynamoHelper.transaction()
+        .update<CounterItem>(PK, SK, { views: 1 }, undefined, 7)
+        .put(counter({ SK: 'VIEW#1' }))
+        .commit()
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(TransactionCanceledError);
+      expect(error).not.toBeInstanceOf(VersionConflictError);
+      expect((error as TransactionCanceledError).conditionFailed(0)).toBe(true);
+      expect((error as TransactionCanceledError).conditionFailed(1)).toBe(false);
+      expect(await dynamoHelper.getItem<CounterItem>(PK, 'VIEW#1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { DynamoDBHelper } from '../../lambda/shared/utils';
+import { ChannelSubscriptionStore, ConnectionRegistry } from '../../lambda/shared/websocket-connections';
+import { createTestTable, deleteTestTable } from '../support/dynamodb';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// putItem stores an item as its next version, stamped with the write time
+const stored = <T extends object>(item: T) => ({ ...item, version: 1, updatedAt: expect.any(Number) });
+
+describe('WebSocket connections against DynamoDB', () => {
+  let tableName: string;
+  let dynamoHelper: DynamoDBHelper;
+  let subscriptions: ChannelSubscriptionStore;
+  let registry: ConnectionRegistry;
+
+  beforeEach(async () => {
+    tableName = await createTestTable();
+    dynamoHelper = new DynamoDBHelper(tableName);
+    subscriptions = new ChannelSubscriptionStore(dynamoHelper);
+    registry = new ConnectionRegistry(dynamoHelper, subscriptions);
+  });
+
+  afterEach(async () => {
+    await deleteTestTable(tableName);
+  });
+
+  describe('ConnectionRegistry', () => {
+    it('registers a connection under its keys with a two-hour TTL', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1', sessionId: 'session-1' });
+
+      expect(await registry.get('conn-1')).toEqual(stored(connection));
+      expect(connection).toMatchObject({
+        PK: 'CONNECTION#conn-1',
+        SK: 'METADATA',
+        GSI1PK: 'USER#user-1',
+        GSI1SK: `CONNECTION#${connection.connectedAt}`,
+        sessionId: 'session-1',
+      });
+      expect(connection.ttl).toBe(Math.floor(connection.connectedAt / 1000) + 2 * 60 * 60);
+      expect(connection.GSI2PK).toBeUndefined();
+    });
+
+    it('indexes a connection watching a job on GSI2', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1', jobId: 'job-1' });
+
+      expect(connection).toMatchObject({ jobId: 'job-1', GSI2PK: 'JOB#job-1', GSI2SK: `CONNECTION#${connection.connectedAt}` });
+    });
+
+    it('rejects a connection without a user', async () => {
+      await expect(registry.register({ connectionId: 'conn-1', userId: '' })).rejects.toThrow('WebSocketConnectionItem');
+      expect(await registry.get('conn-1')).toBeNull();
+    });
+
+    it('touches a registered connection', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+      await sleep(5);
+
+      expect(await registry.touch('conn-1')).toBe(true);
+
+      const touched = await registry.get('conn-1');
+      expect(touched!.lastActivity).toBeGreaterThan(connection.lastActivity);
+      expect(touched!.updatedAt).toBe(touched!.lastActivity);
+      expect(touched!.GSI3SK).toBe(`ACTIVITY#${touched!.lastActivity}`);
+      expect(touched!.connectedAt).toBe(connection.connectedAt);
+    });
+
+    it('does not create a connection it touches', async () => {
+      expect(await registry.touch('conn-gone')).toBe(false);
+      expect(await registry.get('conn-gone')).toBeNull();
+    });
+
+    it('lists connections by user and by job', async () => {
+      await registry.register({ connectionId: 'conn-1', userId: 'user-1', jobId: 'job-1' });
+      await registry.register({ connectionId: 'conn-2', userId: 'user-1' });
+      await registry.register({ connectionId: 'conn-3', userId: 'user-2', jobId: 'job-1' });
+      await registry.register({ connectionId: 'conn-4', userId: 'user-2', jobId: 'job-2' });
+
+      const byUser = await registry.listByUser('user-1');
+      const byJob = await registry.listByJob('job-1');
+
+      expect(byUser.map(connection => connection.connectionId).sort()).toEqual(['conn-1', 'conn-2']);
+      expect(byJob.map(connection => connection.connectionId).sort()).toEqual(['conn-1', 'conn-3']);
+      expect(await registry.listByUser('user-3')).toEqual([]);
+    });
+
+    it('pages through connections idle since a cutoff, least recently active first', async () => {
+      await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+      await sleep(5);
+      await registry.register({ connectionId: 'conn-2', userId: 'user-1' });
+      await sleep(5);
+      await registry.register({ connectionId: 'conn-3', userId: 'user-2' });
+      await sleep(5);
+      const cutoff = Date.now();
+      await sleep(5);
+      await registry.register({ connectionId: 'conn-4', userId: 'user-2' });
+      await registry.touch('conn-1');
+      // Not a connection, so not in the sparse activity index
+      await subscriptions.subscribe((await registry.get('conn-2'))!, 'tool:tool-1');
+
+      const pages: string[][] = [];
+      for await (const page of registry.idlePages(cutoff, 1)) {
+        pages.push(page.map(connection => connection.connectionId));
+      }
+
+      expect(pages.flat()).toEqual(['conn-2', 'conn-3']);
+    });
+
+    it('removes a connection with its channel subscriptions', async () => {
+      const leaving = await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+      const staying = await registry.register({ connectionId: 'conn-2', userId: 'user-1' });
+      await subscriptions.subscribe(leaving, 'session:session-1');
+      await subscriptions.subscribe(leaving, 'tool:tool-1');
+      await subscriptions.subscribe(staying, 'tool:tool-1');
+
+      await registry.remove('conn-1');
+
+      expect(await registry.get('conn-1')).toBeNull();
+      expect(await subscriptions.listChannels('conn-1')).toEqual([]);
+      expect(await subscriptions.listSubscribers('session:session-1')).toEqual([]);
+      expect((await subscriptions.listSubscribers('tool:tool-1')).map(item => item.connectionId)).toEqual(['conn-2']);
+      expect(await registry.listByUser('user-1')).toEqual([stored(staying)]);
+    });
+
+    it('removes a connection that has no subscriptions', async () => {
+      await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+
+      await registry.remove('conn-1');
+
+      expect(await registry.get('conn-1')).toBeNull();
+    });
+  });
+
+  describe('ChannelSubscriptionStore', () => {
+    it('subscribes a connection, expiring with it', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+
+      await subscriptions.subscribe(connection, 'job:job-1');
+
+      const [subscription] = await subscriptions.listSubscribers('job:job-1');
+      expect(subscription).toMatchObject({
+        PK: 'CHANNEL#job:job-1',
+        SK: 'CONNECTION#conn-1',
+        GSI1PK: 'CONNECTION#conn-1',
+        GSI1SK: 'CHANNEL#job:job-1',
+        userId: 'user-1',
+        ttl: connection.ttl,
+      });
+      expect((await subscriptions.listChannels('conn-1')).map(item => item.channel)).toEqual(['job:job-1']);
+    });
+
+    it('rejects a subscription to a malformed channel', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+
+      await expect(subscriptions.subscribe(connection, 'job:' as any)).rejects.toThrow('ChannelSubscriptionItem');
+      expect(await subscriptions.listChannels('conn-1')).toEqual([]);
+    });
+
+    it('unsubscribes from one channel only', async () => {
+      const connection = await registry.register({ connectionId: 'conn-1', userId: 'user-1' });
+      await subscriptions.subscribe(connection, 'job:job-1');
+      await subscriptions.subscribe(connection, 'tool:tool-1');
+
+      await subscriptions.unsubscribe('conn-1', 'job:job-1');
+
+      expect(await subscriptions.listSubscribers('job:job-1')).toEqual([]);
+      expect((await subscriptions.listChannels('conn-1')).map(item => item.channel)).toEqual(['tool:tool-1']);
+    });
+
+    it('pages through the subscribers of a channel', async () => {
+      for (let index = 0; index < 5; index++) {
+        const connection = await registry.register({ connectionId: `conn-${index}`, userId: 'user-1' });
+        await subscriptions.subscribe(connection, 'tool:tool-1');
+      }
+
+      const pages: string[][] = [];
+      for await (const page of subscriptions.subscriberPages('tool:tool-1', 2)) {
+        pages.push(page.map(item => item.connectionId));
+      }
+
+      expect(pages.filter(page => page.length > 0)).toEqual([['conn-0', 'conn-1'], ['conn-2', 'conn-3'], ['conn-4']]);
+    });
+  });
+});
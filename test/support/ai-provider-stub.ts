@@ -0,0 +1,185 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for the OpenAI and Anthropic APIs, speaking their wire formats
+// (JSON and server-sent events). Point OpenAIProvider / AnthropicProvider at
+// `url`, or set OPENAI_BASE_URL / ANTHROPIC_BASE_URL to it.
+
+export interface StubReply {
+  // Streamed as one delta per word
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface RecordedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface ProviderStub {
+  url: string;
+  requests: RecordedRequest[];
+  // Answer the next request with this status and body instead of a completion
+  failNext(status: number, body?: string): void;
+  // Start the next streamed reply, then send a stream error event (Anthropic) instead of finishing it
+  breakNextStream(errorType: string): void;
+  // Accept the next request but never respond
+  hangNext(): void;
+  close(): Promise<void>;
+}
+
+type Override =
+  | { kind: 'fail'; status: number; body: string }
+  | { kind: 'break'; errorType: string }
+  | { kind: 'hang' };
+
+function words(content: string): string[] {
+  return content.match(/\S+\s*/g) || [];
+}
+
+function sendEvents(res: http.ServerResponse, events: Array<{ event?: string; data: string }>): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const { event, data } of events) {
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${data}\n\n`);
+  }
+  res.end();
+}
+
+function openAIReply(res: http.ServerResponse, body: any, reply: StubReply): void {
+  const usage = {
+    prompt_tokens: reply.inputTokens,
+    completion_tokens: reply.outputTokens,
+    total_tokens: reply.inputTokens + reply.outputTokens,
+  };
+
+  if (!body.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'chatcmpl-stub',
+      object: 'chat.completion',
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply.content }, finish_reason: 'stop' }],
+      usage,
+    }));
+    return;
+  }
+
+  const chunk = (choices: any[], extra: Record<string, any> = {}) => JSON.stringify({
+    id: 'chatcmpl-stub',
+    object: 'chat.completion.chunk',
+    model: body.model,
+    choices,
+    ...extra,
+  });
+  sendEvents(res, [
+    { data: chunk([{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }]) },
+    ...words(reply.content).map(word => ({ data: chunk([{ index: 0, delta: { content: word }, finish_reason: null }]) })),
+    { data: chunk([{ index: 0, delta: {}, finish_reason: 'stop' }]) },
+    // Sent because the request asks for stream_options.include_usage
+    ...(body.stream_options?.include_usage ? [{ data: chunk([], { usage }) }] : []),
+    { data: '[DONE]' },
+  ]);
+}
+
+function anthropicReply(res: http.ServerResponse, body: any, reply: StubReply, breakWith?: string): void {
+  if (!body.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'msg_stub',
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content: [{ type: 'text', text: reply.content }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: reply.inputTokens, output_tokens: reply.outputTokens },
+    }));
+    return;
+  }
+
+  const event = (type: string, data: Record<string, any>) => ({ event: type, data: JSON.stringify({ type, ...data }) });
+  const deltas = words(reply.content).map(text => event('content_block_delta', { index: 0, delta: { type: 'text_delta', text } }));
+  const start = [
+    event('message_start', {
+      message: {
+        id: 'msg_stub',
+        type: 'message',
+        role: 'assistant',
+        model: body.model,
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: reply.inputTokens, output_tokens: 1 },
+      },
+    }),
+    event('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+    event('ping', {}),
+  ];
+
+  if (breakWith) {
+    sendEvents(res, [...start, ...deltas.slice(0, 1), event('error', { error: { type: breakWith, message: 'Stream interrupted' } })]);
+    return;
+  }
+
+  sendEvents(res, [
+    ...start,
+    ...deltas,
+    event('content_block_stop', { index: 0 }),
+    event('message_delta', { delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: reply.outputTokens } }),
+    event('message_stop', {}),
+  ]);
+}
+
+export async function startProviderStub(reply: StubReply): Promise<ProviderStub> {
+  const requests: RecordedRequest[] = [];
+  const overrides: Override[] = [];
+  const hanging = new Set<http.ServerResponse>();
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      requests.push({ path: req.url || '', headers: req.headers, body });
+
+      const override = overrides.shift();
+      if (override?.kind === 'hang') {
+        hanging.add(res);
+        return;
+      }
+      if (override?.kind === 'fail') {
+        res.writeHead(override.status, { 'Content-Type': 'application/json' });
+        res.end(override.body);
+        return;
+      }
+
+      if (req.url === '/v1/chat/completions') {
+        openAIReply(res, body, reply);
+      } else if (req.url === '/v1/messages') {
+        anthropicReply(res, body, reply, override?.kind === 'break' ? override.errorType : undefined);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    failNext: (status, body = JSON.stringify({ error: { message: `Stub error ${status}` } })) => {
+      overrides.push({ kind: 'fail', status, body });
+    },
+    breakNextStream: errorType => overrides.push({ kind: 'break', errorType }),
+    hangNext: () => overrides.push({ kind: 'hang' }),
+    close: () => new Promise<void>(resolve => {
+      hanging.forEach(res => res.destroy());
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
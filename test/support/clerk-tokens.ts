@@ -0,0 +1,50 @@
+import { KeyObject, createSign, generateKeyPairSync } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Clerk-style RS256 session tokens signed with local keys, and the JWKS file
+// that JwksCache reads in file mode (CLERK_JWKS_FILE)
+
+export const TEST_ISSUER = 'https://clerk.keyvex.test';
+
+export interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+export function createSigningKey(kid: string): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, publicKey };
+}
+
+// Writes the public keys as a JWKS document and returns its path
+export function writeJwksFile(keys: SigningKey[], extraKeys: object[] = []): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'keyvex-jwks-')), 'jwks.json');
+  updateJwksFile(file, keys, extraKeys);
+  return file;
+}
+
+export function updateJwksFile(file: string, keys: SigningKey[], extraKeys: object[] = []): void {
+  writeFileSync(file, JSON.stringify({
+    keys: [
+      ...keys.map(key => ({ ...key.publicKey.export({ format: 'jwk' }), kid: key.kid, use: 'sig', alg: 'RS256' })),
+      ...extraKeys,
+    ],
+  }));
+}
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export function signToken(
+  key: SigningKey,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: 'RS256', kid: key.kid, typ: 'JWT' }
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = { iss: TEST_ISSUER, iat: now, nbf: now, exp: now + 60, ...claims };
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = createSign('RSA-SHA256').update(signingInput).sign(key.privateKey).toString('base64url');
+  return `${signingInput}.${signature}`;
+}
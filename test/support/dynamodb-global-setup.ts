@@ -0,0 +1,25 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+// dynalite ships without type declarations
+const dynalite: (options: { createTableMs: number; deleteTableMs: number; updateTableMs: number }) => Server = require('dynalite');
+
+// Starts dynalite, an in-process DynamoDB emulator, for the integration suites.
+// Set DYNAMODB_ENDPOINT (e.g. http://localhost:8000 for DynamoDB Local) to
+// run them against another endpoint instead.
+export default async function setup(): Promise<void> {
+  if (!process.env.DYNAMODB_ENDPOINT) {
+    const server = dynalite({ createTableMs: 0, deleteTableMs: 0, updateTableMs: 0 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    (globalThis as { dynalite?: Server }).dynalite = server;
+    process.env.DYNAMODB_ENDPOINT = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    // dynalite has no TransactWriteItems; see emulateTransactions in dynamodb.ts
+    process.env.DYNAMODB_EMULATOR = 'dynalite';
+  }
+
+  // Read by the SDK clients the lambda modules create when they are imported
+  process.env.AWS_ENDPOINT_URL_DYNAMODB = process.env.DYNAMODB_ENDPOINT;
+  process.env.AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+  process.env.AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID || 'test';
+  process.env.AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY || 'test';
+}
@@ -0,0 +1,8 @@
+import { Server } from 'http';
+
+export default async function teardown(): Promise<void> {
+  const server = (globalThis as { dynalite?: Server }).dynalite;
+  if (server) {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
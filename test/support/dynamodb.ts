@@ -0,0 +1,98 @@
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient, waitUntilTableExists } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, PutCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+
+// Helpers for suites that run against the endpoint started by
+// dynamodb-global-setup.ts (dynalite, or DynamoDB Local via DYNAMODB_ENDPOINT)
+
+const client = new DynamoDBClient({});
+
+const keyAttribute = (name: string) => ({ AttributeName: name, AttributeType: 'S' as const });
+
+function globalSecondaryIndex(indexName: string) {
+  return {
+    IndexName: indexName,
+    KeySchema: [
+      { AttributeName: `${indexName}PK`, KeyType: 'HASH' as const },
+      { AttributeName: `${indexName}SK`, KeyType: 'RANGE' as const },
+    ],
+    Projection: { ProjectionType: 'ALL' as const },
+  };
+}
+
+/**
+ * A fresh table shaped like the main table in lib/database-stack.ts.
+ * Returns its name, for `new DynamoDBHelper(tableName)`.
+ */
+export async function createTestTable(): Promise<string> {
+  const tableName = `keyvex-test-${randomUUID()}`;
+
+  await client.send(new CreateTableCommand({
+    TableName: tableName,
+    BillingMode: 'PAY_PER_REQUEST',
+    AttributeDefinitions: ['PK', 'SK', 'GSI1PK', 'GSI1SK', 'GSI2PK', 'GSI2SK', 'GSI3PK', 'GSI3SK'].map(keyAttribute),
+    KeySchema: [
+      { AttributeName: 'PK', KeyType: 'HASH' },
+      { AttributeName: 'SK', KeyType: 'RANGE' },
+    ],
+    GlobalSecondaryIndexes: [globalSecondaryIndex('GSI1'), globalSecondaryIndex('GSI2'), globalSecondaryIndex('GSI3')],
+  }));
+  await waitUntilTableExists({ client, maxWaitTime: 30, minDelay: 1 }, { TableName: tableName });
+
+  return tableName;
+}
+
+export async function deleteTestTable(tableName: string): Promise<void> {
+  await client.send(new DeleteTableCommand({ TableName: tableName }));
+}
+
+/**
+ * Lets transactions run against dynalite, which has no TransactWriteItems:
+ * the writes of a TransactWriteCommand are sent one at a time, and the first
+ * failed condition cancels the rest with the error DynamoDB would throw.
+ * Writes before it are NOT rolled back, so suites should only rely on
+ * cancellations at the first write. A no-op against DynamoDB Local.
+ * Returns a function that undoes it.
+ */
+export function emulateTransactions(): () => void {
+  if (process.env.DYNAMODB_EMULATOR !== 'dynalite') {
+    return () => {};
+  }
+
+  const prototype = DynamoDBDocumentClient.prototype as { send: (command: any) => Promise<any> };
+  const send = prototype.send;
+
+  prototype.send = async function (this: DynamoDBDocumentClient, command: any) {
+    if (!(command instanceof TransactWriteCommand)) {
+      return send.call(this, command);
+    }
+
+    const items = command.input.TransactItems || [];
+    for (const [index, item] of items.entries()) {
+      try {
+        if (item.Put) {
+          await send.call(this, new PutCommand(item.Put));
+        } else if (item.Update) {
+          await send.call(this, new UpdateCommand(item.Update));
+        } else if (item.Delete) {
+          await send.call(this, new DeleteCommand(item.Delete));
+        } else {
+          throw new Error('Only Put, Update and Delete are emulated in transactions');
+        }
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        throw Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: items.map((_, position) => ({ Code: position === index ? 'ConditionalCheckFailed' : 'None' })),
+        });
+      }
+    }
+    return {};
+  };
+
+  return () => {
+    prototype.send = send;
+  };
+}
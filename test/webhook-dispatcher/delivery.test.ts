@@ -0,0 +1,186 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { deliverWebhook } from '../../lambda/webhook-dispatcher/src/delivery';
+import { createEnvelope } from '../../lambda/shared/message-envelope';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload, verifyWebhookSignature } from '../../lambda/shared/webhooks';
+import { WebhookDeliveryMessage } from '../../lambda/shared/types';
+
+const SECRET = 'whsec_test';
+
+const message: WebhookDeliveryMessage = {
+  messageType: 'WEBHOOK_DELIVERY',
+  envelope: createEnvelope(),
+  deliveryId: 'whd_1',
+  toolId: 'tool-1',
+  subscriptionId: 'sub-1',
+  event: 'lead.created',
+  payload: {
+    id: 'evt_1',
+    event: 'lead.created',
+    toolId: 'tool-1',
+    createdAt: 1700000000000,
+    data: { leadId: 'lead-1', email: 'ada@example.com' },
+  },
+  attempt: 2,
+  timestamp: 1700000000000,
+};
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+type Reply = { status: number; body?: string; location?: string } | 'hang';
+
+// Answers each request with the next queued reply (200 when none is queued)
+async function startReceiver(): Promise<{ url: string; received: Received[]; replies: Reply[]; close(): Promise<void> }> {
+  const received: Received[] = [];
+  const replies: Reply[] = [];
+  const hanging = new Set<http.ServerResponse>();
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url || '', headers: req.headers, body });
+
+      const reply = replies.shift() || { status: 200 };
+      if (reply === 'hang') {
+        hanging.add(res);
+        return;
+      }
+      res.writeHead(reply.status, reply.location ? { Location: reply.location } : {});
+      res.end(reply.body);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    replies,
+    close: () => new Promise<void>(resolve => {
+      hanging.forEach(res => res.destroy());
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+describe('deliverWebhook', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  beforeEach(async () => {
+    receiver = await startReceiver();
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('posts the payload with headers and a signature the receiver can verify', async () => {
+    const result = await deliverWebhook(receiver.url, SECRET, message);
+
+    expect(result).toMatchObject({ delivered: true, retryable: false, statusCode: 200 });
+    const [request] = receiver.received;
+    expect(JSON.parse(request.body)).toEqual(message.payload);
+    expect(request.headers).toMatchObject({
+      'content-type': 'application/json',
+      'x-keyvex-event': 'lead.created',
+      'x-keyvex-delivery': 'whd_1',
+      'x-keyvex-attempt': '2',
+    });
+
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(verifyWebhookSignature(SECRET, request.body, signature)).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', request.body, signature)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, `${request.body} `, signature)).toBe(false);
+  });
+
+  it.each([
+    [400, false],
+    [404, false],
+    [410, false],
+    [408, true],
+    [429, true],
+    [500, true],
+    [503, true],
+  ])('classifies a %i response as retryable: %s', async (status, retryable) => {
+    receiver.replies.push({ status, body: 'receiver says no' });
+
+    const result = await deliverWebhook(receiver.url, SECRET, message);
+
+    expect(result).toMatchObject({ delivered: false, retryable, statusCode: status });
+    expect(result.error).toBe(`Receiver responded with ${status}: receiver says no`);
+  });
+
+  it('truncates a long error body', async () => {
+    receiver.replies.push({ status: 500, body: 'x'.repeat(2000) });
+
+    const result = await deliverWebhook(receiver.url, SECRET, message);
+
+    expect(result.error).toHaveLength('Receiver responded with 500: '.length + 500);
+  });
+
+  it('does not follow redirects', async () => {
+    receiver.replies.push({ status: 302, location: '/elsewhere' });
+
+    const result = await deliverWebhook(receiver.url, SECRET, message);
+
+    expect(result).toMatchObject({ delivered: false, retryable: false, statusCode: 302 });
+    expect(receiver.received.map(request => request.path)).toEqual(['/hooks']);
+  });
+
+  it('gives up on a receiver that does not respond and retries later', async () => {
+    receiver.replies.push('hang');
+
+    const result = await deliverWebhook(receiver.url, SECRET, message, 200);
+
+    expect(result).toMatchObject({ delivered: false, retryable: true, error: 'Receiver did not respond within 200ms' });
+    expect(result.statusCode).toBeUndefined();
+  });
+
+  it('retries when the receiver cannot be reached', async () => {
+    const url = receiver.url;
+    await receiver.close();
+    receiver = await startReceiver();
+
+    const result = await deliverWebhook(url, SECRET, message);
+
+    expect(result.delivered).toBe(false);
+    expect(result.retryable).toBe(true);
+    expect(result.error).toMatch(/^Request failed: /);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify(message.payload);
+  const now = 1700000000;
+
+  it('accepts a signature within the tolerance', () => {
+    expect(verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body, now - 299), undefined, now)).toBe(true);
+  });
+
+  it('rejects a stale or future timestamp', () => {
+    expect(verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body, now - 301), undefined, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body, now + 301), undefined, now)).toBe(false);
+  });
+
+  it('rejects a timestamp swapped into a captured signature', () => {
+    const signature = signWebhookPayload(SECRET, body, now - 1000).replace(/^t=\d+/, `t=${now}`);
+    expect(verifyWebhookSignature(SECRET, body, signature, undefined, now)).toBe(false);
+  });
+
+  it.each([
+    '',
+    'v1=abc',
+    `t=${now}`,
+    `t=soon,v1=abc`,
+  ])('rejects the malformed header "%s"', (header) => {
+    expect(verifyWebhookSignature(SECRET, body, header, undefined, now)).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { JwksCache, TokenVerificationError, verifyClerkToken } from '../../lambda/websocket-authorizer/src/clerk';
+import { SigningKey, TEST_ISSUER, createSigningKey, signToken, updateJwksFile, writeJwksFile } from '../support/clerk-tokens';
+
+const config = { issuer: TEST_ISSUER, authorizedParties: ['https://app.keyvex.test'] };
+const azp = 'https://app.keyvex.test';
+
+async function rejection(promise: Promise<unknown>): Promise<string> {
+  const error = await promise.then(() => undefined, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(TokenVerificationError);
+  return (error as Error).message;
+}
+
+describe('verifyClerkToken with a JWKS file', () => {
+  let key: SigningKey;
+  let jwksFile: string;
+  let jwks: JwksCache;
+
+  beforeAll(() => {
+    key = createSigningKey('key-1');
+    jwksFile = writeJwksFile([key]);
+  });
+
+  beforeEach(() => {
+    jwks = new JwksCache({ file: jwksFile });
+  });
+
+  it('returns the claims of a valid token', async () => {
+    const claims = await verifyClerkToken(signToken(key, { sub: 'user_clerk_1', azp, sid: 'sess_1' }), config, jwks);
+
+    expect(claims).toMatchObject({ sub: 'user_clerk_1', iss: TEST_ISSUER, azp, sid: 'sess_1' });
+  });
+
+  describe('signature', () => {
+    it('rejects a token signed by another key under a known kid', async () => {
+      const impostor = createSigningKey('key-1');
+
+      expect(await rejection(verifyClerkToken(signToken(impostor, { sub: 'user_clerk_1', azp }), config, jwks)))
+        .toBe('Token signature is invalid');
+    });
+
+    it('rejects a token whose claims were changed after signing', async () => {
+      const [header, , signature] = signToken(key, { sub: 'user_clerk_1', azp }).split('.');
+      const payload = Buffer.from(JSON.stringify({ sub: 'user_clerk_admin', iss: TEST_ISSUER, exp: 9999999999, azp }))
+        .toString('base64url');
+
+      expect(await rejection(verifyClerkToken(`${header}.${payload}.${signature}`, config, jwks)))
+        .toBe('Token signature is invalid');
+    });
+
+    it('rejects a kid that is not in the JWKS', async () => {
+      const unknown = createSigningKey('key-unknown');
+
+      expect(await rejection(verifyClerkToken(signToken(unknown, { sub: 'user_clerk_1', azp }), config, jwks)))
+        .toBe('No signing key found for kid "key-unknown"');
+    });
+
+    it('rejects a token that is not a JWT', async () => {
+      expect(await rejection(verifyClerkToken('not-a-token', config, jwks))).toBe('Token is not a valid JWT');
+      expect(await rejection(verifyClerkToken('a.b.c', config, jwks))).toBe('Token is not a valid JWT');
+    });
+  });
+
+  describe('algorithm', () => {
+    it.each([
+      ['none', { alg: 'none', kid: 'key-1' }],
+      ['HS256', { alg: 'HS256', kid: 'key-1' }],
+      ['RS512', { alg: 'RS512', kid: 'key-1' }],
+    ])('rejects alg %s', async (alg, header) => {
+      expect(await rejection(verifyClerkToken(signToken(key, { sub: 'user_clerk_1', azp }, header), config, jwks)))
+        .toBe(`Unsupported token algorithm "${alg}"`);
+    });
+
+    it('rejects a header without a kid', async () => {
+      expect(await rejection(verifyClerkToken(signToken(key, { sub: 'user_clerk_1', azp }, { alg: 'RS256' }), config, jwks)))
+        .toBe('Unsupported token algorithm "RS256"');
+    });
+  });
+
+  describe('claims', () => {
+    const now = 1700000000;
+
+    it('rejects another issuer', async () => {
+      const token = signToken(key, { sub: 'user_clerk_1', azp, iss: 'https://clerk.attacker.test' });
+
+      expect(await rejection(verifyClerkToken(token, config, jwks))).toBe('Token issuer "https://clerk.attacker.test" is not trusted');
+    });
+
+    it('allows 30 seconds of clock skew on exp', async () => {
+      const token = signToken(key, { sub: 'user_clerk_1', azp, exp: now - 30, nbf: now - 90 });
+
+      await expect(verifyClerkToken(token, config, jwks, now)).resolves.toMatchObject({ sub: 'user_clerk_1' });
+      expect(await rejection(verifyClerkToken(token, config, jwks, now + 1))).toBe('Token has expired');
+    });
+
+    it('rejects a token without exp', async () => {
+      const token = signToken(key, { sub: 'user_clerk_1', azp, exp: undefined });
+
+      expect(await rejection(verifyClerkToken(token, config, jwks))).toBe('Token has expired');
+    });
+
+    it('allows 30 seconds of clock skew on nbf', async () => {
+      const token = signToken(key, { sub: 'user_clerk_1', azp, nbf: now + 30, exp: now + 90 });
+
+      await expect(verifyClerkToken(token, config, jwks, now)).resolves.toMatchObject({ sub: 'user_clerk_1' });
+      expect(await rejection(verifyClerkToken(token, config, jwks, now - 1))).toBe('Token is not valid yet');
+    });
+
+    it('rejects a token without a subject', async () => {
+      expect(await rejection(verifyClerkToken(signToken(key, { azp }), config, jwks))).toBe('Token has no subject');
+    });
+
+    it('rejects an authorized party that is not allowed, or none', async () => {
+      const foreign = signToken(key, { sub: 'user_clerk_1', azp: 'https://evil.test' });
+      const missing = signToken(key, { sub: 'user_clerk_1' });
+
+      expect(await rejection(verifyClerkToken(foreign, config, jwks))).toBe('Token authorized party "https://evil.test" is not allowed');
+      expect(await rejection(verifyClerkToken(missing, config, jwks))).toBe('Token authorized party "undefined" is not allowed');
+    });
+
+    it('accepts any authorized party when none are configured', async () => {
+      const token = signToken(key, { sub: 'user_clerk_1' });
+
+      await expect(verifyClerkToken(token, { issuer: TEST_ISSUER }, jwks)).resolves.toMatchObject({ sub: 'user_clerk_1' });
+    });
+  });
+});
+
+describe('JwksCache in file mode', () => {
+  it('needs a URL or a file', () => {
+    expect(() => new JwksCache({})).toThrow('JwksCache needs a JWKS URL or file');
+  });
+
+  it('skips keys that are not RSA signing keys', async () => {
+    const key = createSigningKey('key-1');
+    const file = writeJwksFile([key], [
+      { kty: 'EC', kid: 'key-ec', crv: 'P-256', x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU', y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0' },
+      { ...key.publicKey.export({ format: 'jwk' }), kid: 'key-enc', use: 'enc' },
+    ]);
+    const jwks = new JwksCache({ file });
+
+    await expect(jwks.getKey('key-1')).resolves.toBeDefined();
+    await expect(jwks.getKey('key-ec')).rejects.toThrow('No signing key found for kid "key-ec"');
+    await expect(jwks.getKey('key-enc')).rejects.toThrow('No signing key found for kid "key-enc"');
+  });
+
+  it('rereads the file for an unknown kid at most once a minute', async () => {
+    const first = createSigningKey('key-1');
+    const rotated = createSigningKey('key-2');
+    const file = writeJwksFile([first]);
+    const jwks = new JwksCache({ file });
+    const start = Date.now();
+
+    await jwks.getKey('key-1', start);
+    updateJwksFile(file, [first, rotated]);
+
+    await expect(jwks.getKey('key-2', start + 30 * 1000)).rejects.toThrow(TokenVerificationError);
+    await expect(jwks.getKey('key-2', start + 61 * 1000)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { APIGatewayRequestAuthorizerEvent, Context } from 'aws-lambda';
+import { SigningKey, TEST_ISSUER, createSigningKey, signToken, writeJwksFile } from '../support/clerk-tokens';
+
+const context = { awsRequestId: 'request-1' } as Context;
+
+function connectEvent(token?: string): APIGatewayRequestAuthorizerEvent {
+  return {
+    type: 'REQUEST',
+    methodArn: 'arn:aws:execute-api:us-east-1:123456789012:api/prod/$connect',
+    queryStringParameters: token ? { token } : {},
+  } as unknown as APIGatewayRequestAuthorizerEvent;
+}
+
+describe('WebSocket authorizer', () => {
+  const env = { ...process.env };
+  let key: SigningKey;
+  let handler: typeof import('../../lambda/websocket-authorizer/src').handler;
+
+  beforeAll(async () => {
+    key = createSigningKey('key-1');
+
+    // Read when the module is loaded
+    process.env.ENVIRONMENT = 'development';
+    process.env.CLERK_ISSUER = TEST_ISSUER;
+    process.env.CLERK_JWKS_FILE = writeJwksFile([key]);
+    ({ handler } = await import('../../lambda/websocket-authorizer/src'));
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('passes the Clerk user id, which is the Keyvex user id, to the handler', async () => {
+    const result = await handler(connectEvent(signToken(key, { sub: 'user_clerk_1' })), context);
+
+    expect(result.principalId).toBe('user_clerk_1');
+    expect(result.context).toEqual({ userId: 'user_clerk_1', clerkId: 'user_clerk_1' });
+    expect(result.policyDocument.Statement).toEqual([expect.objectContaining({ Effect: 'Allow', Action: 'execute-api:Invoke' })]);
+  });
+
+  it('refuses a connection without a token', async () => {
+    await expect(handler(connectEvent(), context)).rejects.toThrow('Unauthorized');
+  });
+
+  it('refuses an invalid token', async () => {
+    const forged = signToken(createSigningKey('key-1'), { sub: 'user_clerk_1' });
+
+    await expect(handler(connectEvent(forged), context)).rejects.toThrow('Unauthorized');
+  });
+});